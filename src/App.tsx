@@ -1,44 +1,145 @@
-import React, { useReducer, useCallback, useMemo } from 'react';
-import { format, parseISO, addDays, differenceInDays } from 'date-fns';
-import type { Task, Category, FilterState, AppState } from './types';
-import { normalizeDateRange, getTimeRangeFilter, dateRangesOverlap } from './lib/dates';
+import React, { useReducer, useCallback, useMemo, useRef, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import type { Task, TaskDetails, TeamMember, CategoryDefinition, CalendarSettings, FilterState, AppState, WeekStartDay, Recurrence, RecurrenceScope, CalendarView, DateRange } from './types';
+import { normalizeDateRange, getPeriodRange } from './lib/dates';
+import type { TaskStore, QuarantinedRecord } from './lib/storage';
+import { createDefaultTaskStore } from './lib/indexedDbStore';
+import { expandRecurringTasks, findTaskOrOccurrence, parseOccurrenceId, applyOccurrenceChange, type OccurrenceChange } from './lib/recurrence';
+import { rescheduleSuccessors, removeDependencyReferences, wouldCreateCycle } from './lib/dependencies';
+import { createHistory, recordHistory, beginGesture, endGesture, undoHistory, redoHistory, areTasksEqual } from './lib/history';
+import { DEFAULT_CATEGORIES, loadCategories, saveCategories, ensureCategoriesFor, countTasksByCategory, isDoneCategory } from './lib/categories';
+import { DEFAULT_SETTINGS, loadSettings, saveSettings } from './lib/settings';
+import { loadTeam, saveTeam, countTasksByAssignee } from './lib/team';
+import { applyTaskDetails, collectTags } from './lib/taskDetails';
+import { compileTaskQuery } from './lib/query';
+import { parseUrl, formatUrl } from './lib/url';
+import { ALL_TIME, createTimeRangePredicate } from './lib/timeRange';
+import { createLockedPeriodValidator, findLockedChange, type DropValidator } from './lib/dropValidation';
+import { createWorkingCalendarResolver, moveTaskRange } from './lib/workingDays';
+import { applyBulkChange, sortTasksForSelection, updateTaskSelection, type BulkChange, type TaskSelectMode } from './lib/selection';
+import { exportTasksToIcs } from './lib/ics';
+import { exportTasksToCsv } from './lib/csv';
+import { downloadFile } from './lib/download';
+import { CalendarHeader } from './components/CalendarHeader';
 import { CalendarMonth } from './components/CalendarMonth';
+import { CalendarWeek } from './components/CalendarWeek';
+import { CalendarDay } from './components/CalendarDay';
+import { CalendarTimeline } from './components/CalendarTimeline';
+import { CalendarBoard } from './components/CalendarBoard';
 import { FiltersPanel } from './components/FiltersPanel';
-import { TaskModal } from './components/TaskModal';
+import { TaskModal, type TaskFormValues } from './components/TaskModal';
+import { ImportExportSection } from './components/ImportExportSection';
+import { RecurrenceScopeDialog } from './components/RecurrenceScopeDialog';
+import { CategorySettingsModal } from './components/CategorySettingsModal';
+import { CalendarSettingsSection } from './components/CalendarSettingsSection';
+import { TeamSection } from './components/TeamSection';
+import { SelectionToolbar } from './components/SelectionToolbar';
 import styles from './App.module.css';
 
 type AppAction =
+  | { type: 'TASKS_LOADED'; tasks: Task[]; isComplete: boolean }
   | { type: 'SELECTION_START'; isoDate: string }
   | { type: 'SELECTION_UPDATE'; isoDate: string }
   | { type: 'SELECTION_END' }
+  | { type: 'SELECTION_CANCEL' }
   | { type: 'MODAL_OPEN'; draftRange?: { start: string; end: string }; editingTaskId?: string }
   | { type: 'MODAL_CLOSE' }
-  | { type: 'TASK_CREATE'; name: string; category: Category; start: string; end: string }
-  | { type: 'TASK_UPDATE'; taskId: string; name: string; category: Category; start: string; end: string }
+  | { type: 'TASK_CREATE'; name: string; category: string; start: string; end: string; recurrence?: Recurrence; dependsOn?: string[]; details: TaskDetails }
+  | { type: 'TASK_UPDATE'; taskId: string; name: string; category: string; start: string; end: string; recurrence?: Recurrence; dependsOn?: string[]; details: TaskDetails }
+  | { type: 'OCCURRENCE_CHANGE'; occurrenceId: string; scope: RecurrenceScope; change: OccurrenceChange }
   | { type: 'TASK_DELETE'; taskId: string }
+  | { type: 'TASK_PIN_TOGGLE'; taskId: string }
+  | { type: 'TASKS_IMPORT'; tasks: Task[] }
+  | { type: 'TASK_SELECTION_CHANGE'; taskIds: string[] }
+  | { type: 'TASKS_BULK_CHANGE'; taskIds: string[]; change: BulkChange }
   | { type: 'TASK_MOVE'; taskId: string; newStartDate: string }
   | { type: 'TASK_RESIZE'; taskId: string; newStart: string; newEnd: string }
+  | { type: 'GESTURE_START' }
+  | { type: 'GESTURE_END' }
+  | { type: 'UNDO' }
+  | { type: 'REDO' }
+  | { type: 'CATEGORIES_CHANGE'; categories: CategoryDefinition[] }
+  | { type: 'TEAM_CHANGE'; team: TeamMember[] }
+  | { type: 'SETTINGS_CHANGE'; settings: CalendarSettings }
   | { type: 'FILTERS_CHANGE'; filters: FilterState }
-  | { type: 'MONTH_CHANGE'; month: Date };
+  | { type: 'VIEW_CHANGE'; view: CalendarView }
+  | { type: 'DATE_CHANGE'; date: Date }
+  | { type: 'LOCATION_CHANGE'; pathname: string; search: string };
+
+type TaskCreateAction = Extract<AppAction, { type: 'TASK_CREATE' }>;
+
+// Actions that change tasks, or depend on every task being known, are ignored until
+// all tasks have loaded: the full load replaces the tasks of the visible period
+const ACTIONS_AFTER_LOAD = new Set<AppAction['type']>([
+  'TASK_CREATE',
+  'TASK_UPDATE',
+  'OCCURRENCE_CHANGE',
+  'TASK_DELETE',
+  'TASK_PIN_TOGGLE',
+  'TASKS_IMPORT',
+  'TASKS_BULK_CHANGE',
+  'TASK_MOVE',
+  'TASK_RESIZE',
+  'UNDO',
+  'REDO',
+  'CATEGORIES_CHANGE',
+  'TEAM_CHANGE'
+]);
 
 const initialState: AppState = {
   tasks: [],
+  isLoaded: false,
+  categories: DEFAULT_CATEGORIES,
+  team: [],
+  settings: DEFAULT_SETTINGS,
+  history: createHistory(),
   selection: {
     isSelecting: false
   },
+  selectedTaskIds: [],
   modal: {
     open: false
   },
   filters: {
     search: '',
     categories: [],
-    timeRangeWeeks: 0
+    assignees: [],
+    priorities: [],
+    tags: [],
+    timeRange: ALL_TIME
   },
-  currentMonth: new Date()
+  view: 'month',
+  currentDate: new Date()
 };
 
+/**
+ * Apply a bulk change, along with why it can't be applied: no task may move into or
+ * out of a locked period. The reducer rejects such changes, and handlers check first
+ * so they only announce changes that will be applied.
+ */
+function planBulkChange(
+  state: Pick<AppState, 'tasks' | 'settings' | 'team'>,
+  taskIds: string[],
+  change: BulkChange
+): { tasks: Task[]; error: string | null } {
+  const tasks = applyBulkChange(state.tasks, taskIds, change, createWorkingCalendarResolver(state.settings, state.team));
+  return { tasks, error: findLockedChange(state.settings.lockedPeriods, state.tasks, tasks) };
+}
+
 function appReducer(state: AppState, action: AppAction): AppState {
+  if (!state.isLoaded && ACTIONS_AFTER_LOAD.has(action.type)) {
+    return state;
+  }
+
   switch (action.type) {
+    case 'TASKS_LOADED':
+      return {
+        ...state,
+        tasks: action.tasks,
+        isLoaded: action.isComplete,
+        history: createHistory()
+      };
+
     case 'SELECTION_START':
       return {
         ...state,
@@ -76,6 +177,22 @@ function appReducer(state: AppState, action: AppAction): AppState {
         }
       };
 
+    case 'SELECTION_CANCEL':
+      return {
+        ...state,
+        selection: { isSelecting: false }
+      };
+
+    case 'MODAL_OPEN':
+      return {
+        ...state,
+        modal: {
+          open: true,
+          draftRange: action.draftRange,
+          editingTaskId: action.editingTaskId
+        }
+      };
+
     case 'MODAL_CLOSE':
       return {
         ...state,
@@ -84,37 +201,128 @@ function appReducer(state: AppState, action: AppAction): AppState {
       };
 
     case 'TASK_CREATE': {
-      const newTask: Task = {
+      const newTask = applyTaskDetails({
         id: `task-${Date.now()}-${Math.random()}`,
         name: action.name,
         category: action.category,
         start: action.start,
-        end: action.end
-      };
+        end: action.end,
+        recurrence: action.recurrence,
+        dependsOn: action.dependsOn
+      }, action.details);
       return {
         ...state,
         tasks: [...state.tasks, newTask],
+        history: recordHistory(state.history, state.tasks),
         modal: { open: false },
         selection: { isSelecting: false }
       };
     }
 
     case 'TASK_UPDATE': {
+      // Dependencies that would form a cycle are rejected
+      const dependsOn = action.dependsOn && wouldCreateCycle(state.tasks, action.taskId, action.dependsOn)
+        ? state.tasks.find(t => t.id === action.taskId)?.dependsOn
+        : action.dependsOn;
+      const updated = state.tasks.map(t =>
+        t.id === action.taskId
+          ? applyTaskDetails(
+              { ...t, name: action.name, category: action.category, start: action.start, end: action.end, recurrence: action.recurrence, dependsOn },
+              action.details
+            )
+          : t
+      );
+      // Successors that would be pushed into or out of a locked period stay put, and show as violated
+      const calendarFor = createWorkingCalendarResolver(state.settings, state.team);
+      const rescheduled = rescheduleSuccessors(updated, action.taskId, calendarFor);
+      const tasks = findLockedChange(state.settings.lockedPeriods, updated, rescheduled) ? updated : rescheduled;
+      // Saving the modal without changes doesn't add an undo step
+      if (areTasksEqual(state.tasks, tasks)) {
+        return { ...state, modal: { open: false } };
+      }
       return {
         ...state,
-        tasks: state.tasks.map(t =>
-          t.id === action.taskId
-            ? { ...t, name: action.name, category: action.category, start: action.start, end: action.end }
-            : t
-        ),
+        tasks,
+        history: recordHistory(state.history, state.tasks),
         modal: { open: false }
       };
     }
 
+    case 'TASK_PIN_TOGGLE': {
+      // Pinning an occurrence pins its whole series
+      const taskId = parseOccurrenceId(action.taskId)?.seriesId ?? action.taskId;
+      return {
+        ...state,
+        tasks: state.tasks.map(t => t.id === taskId ? { ...t, pinned: !t.pinned || undefined } : t),
+        history: recordHistory(state.history, state.tasks)
+      };
+    }
+
     case 'TASK_DELETE': {
       return {
         ...state,
-        tasks: state.tasks.filter(t => t.id !== action.taskId)
+        tasks: removeDependencyReferences(
+          state.tasks.filter(t => t.id !== action.taskId),
+          action.taskId
+        ),
+        history: recordHistory(state.history, state.tasks)
+      };
+    }
+
+    case 'OCCURRENCE_CHANGE': {
+      const tasks = applyOccurrenceChange(state.tasks, action.occurrenceId, action.scope, action.change);
+      if (tasks === state.tasks) return state;
+      return {
+        ...state,
+        tasks,
+        history: recordHistory(state.history, state.tasks),
+        modal: { open: false }
+      };
+    }
+
+    case 'TASKS_IMPORT': {
+      // Imported tasks replace existing tasks with the same id, the rest are appended.
+      // Only fields no import format carries (dependencies, pins and details) are kept,
+      // so an event imported without a repeat rule is no longer a series.
+      const importedById = new Map(action.tasks.map(t => [t.id, t]));
+      const updated = state.tasks.map(t => {
+        const imported = importedById.get(t.id);
+        if (!imported) return t;
+        const { dependsOn, pinned, description, assignee, priority, tags, subtasks } = t;
+        return applyTaskDetails(
+          { ...imported, ...(dependsOn ? { dependsOn } : {}), ...(pinned ? { pinned } : {}) },
+          { description, assignee, priority, tags, subtasks }
+        );
+      });
+      const existingIds = new Set(state.tasks.map(t => t.id));
+      const created = action.tasks.filter(t => !existingIds.has(t.id));
+      return {
+        ...state,
+        tasks: [...updated, ...created],
+        history: recordHistory(state.history, state.tasks)
+      };
+    }
+
+    case 'TASK_SELECTION_CHANGE':
+      return {
+        ...state,
+        selectedTaskIds: action.taskIds
+      };
+
+    case 'TASKS_BULK_CHANGE': {
+      if (action.taskIds.length === 0) return state;
+      // Locked periods are checked again here, so no caller can move tasks into or out of one
+      const { tasks, error } = planBulkChange(state, action.taskIds, action.change);
+      if (error) return state;
+
+      // Changed occurrences are detached into new tasks, which stay selected
+      const previousIds = new Set(state.tasks.map(t => t.id));
+      const detachedIds = tasks.filter(t => !previousIds.has(t.id)).map(t => t.id);
+      return {
+        ...state,
+        tasks,
+        history: recordHistory(state.history, state.tasks),
+        selectedTaskIds: action.change.type === 'delete' ? [] : [...state.selectedTaskIds, ...detachedIds]
       };
     }
 
@@ -122,60 +330,168 @@ function appReducer(state: AppState, action: AppAction): AppState {
       const task = state.tasks.find(t => t.id === action.taskId);
       if (!task) return state;
 
-      const taskStart = parseISO(task.start);
-      const taskEnd = parseISO(task.end);
-      const duration = differenceInDays(taskEnd, taskStart);
-      const newStart = parseISO(action.newStartDate);
-      const newEnd = addDays(newStart, duration);
+      // Keeps the task's calendar days, or its working days in working-day mode
+      const calendarFor = createWorkingCalendarResolver(state.settings, state.team);
+      const { start, end } = moveTaskRange(task, action.newStartDate, calendarFor?.(task));
+
+      if (start === task.start && end === task.end) return state;
+      const moved = state.tasks.map(t =>
+        t.id === action.taskId ? { ...t, start, end } : t
+      );
+      const tasks = rescheduleSuccessors(moved, action.taskId, calendarFor);
+      if (findLockedChange(state.settings.lockedPeriods, state.tasks, tasks)) return state;
 
       return {
         ...state,
-        tasks: state.tasks.map(t =>
-          t.id === action.taskId
-            ? { ...t, start: format(newStart, 'yyyy-MM-dd'), end: format(newEnd, 'yyyy-MM-dd') }
-            : t
-        )
+        tasks,
+        history: recordHistory(state.history, state.tasks)
       };
     }
 
     case 'TASK_RESIZE': {
       const normalized = normalizeDateRange(action.newStart, action.newEnd);
+      const task = state.tasks.find(t => t.id === action.taskId);
+      if (!task || (task.start === normalized.start && task.end === normalized.end)) return state;
+      const resized = state.tasks.map(t =>
+        t.id === action.taskId
+          ? { ...t, start: normalized.start, end: normalized.end }
+          : t
+      );
+      const calendarFor = createWorkingCalendarResolver(state.settings, state.team);
+      const tasks = rescheduleSuccessors(resized, action.taskId, calendarFor);
+      if (findLockedChange(state.settings.lockedPeriods, state.tasks, tasks)) return state;
+
       return {
         ...state,
-        tasks: state.tasks.map(t =>
-          t.id === action.taskId
-            ? { ...t, start: normalized.start, end: normalized.end }
-            : t
-        )
+        tasks,
+        history: recordHistory(state.history, state.tasks)
       };
     }
 
+    case 'GESTURE_START':
+      return {
+        ...state,
+        history: beginGesture(state.history, state.tasks)
+      };
+
+    case 'GESTURE_END':
+      return {
+        ...state,
+        history: endGesture(state.history, state.tasks)
+      };
+
+    case 'UNDO': {
+      const result = undoHistory(state.history, state.tasks);
+      if (!result) return state;
+      return {
+        ...state,
+        tasks: result.tasks,
+        history: result.history
+      };
+    }
+
+    case 'REDO': {
+      const result = redoHistory(state.history, state.tasks);
+      if (!result) return state;
+      return {
+        ...state,
+        tasks: result.tasks,
+        history: result.history
+      };
+    }
+
+    case 'CATEGORIES_CHANGE': {
+      // A category still used by a task can't be removed
+      const ids = new Set(action.categories.map(c => c.id));
+      if (action.categories.length === 0 || state.tasks.some(t => !ids.has(t.category))) {
+        return state;
+      }
+      return {
+        ...state,
+        categories: action.categories,
+        filters: {
+          ...state.filters,
+          categories: state.filters.categories.filter(id => ids.has(id))
+        }
+      };
+    }
+
+    case 'TEAM_CHANGE': {
+      // A member still assigned to a task can't be removed
+      const ids = new Set(action.team.map(m => m.id));
+      if (state.tasks.some(t => t.assignee && !ids.has(t.assignee))) {
+        return state;
+      }
+      return {
+        ...state,
+        team: action.team,
+        filters: {
+          ...state.filters,
+          assignees: state.filters.assignees.filter(id => ids.has(id))
+        }
+      };
+    }
+
+    case 'SETTINGS_CHANGE':
+      return {
+        ...state,
+        settings: action.settings
+      };
+
     case 'FILTERS_CHANGE':
       return {
         ...state,
         filters: action.filters
       };
 
-    case 'MONTH_CHANGE':
+    case 'VIEW_CHANGE':
+      return {
+        ...state,
+        view: action.view
+      };
+
+    case 'DATE_CHANGE':
       return {
         ...state,
-        currentMonth: action.month
+        currentDate: action.date
       };
 
+    case 'LOCATION_CHANGE': {
+      const location = parseUrl(action, ensureCategoriesFor(state.categories, state.tasks), state.team, state);
+      // A task that no longer exists is ignored and the URL falls back to the period
+      const task = location.taskId ? findTaskOrOccurrence(state.tasks, location.taskId) : undefined;
+
+      return {
+        ...state,
+        view: location.view,
+        currentDate: task ? parseISO(task.start) : location.currentDate,
+        filters: location.filters,
+        selection: { isSelecting: false },
+        modal: task
+          ? { open: true, draftRange: { start: task.start, end: task.end }, editingTaskId: task.id }
+          : { open: false }
+      };
+    }
+
     default:
       return state;
   }
 }
 
-function filterTasks(tasks: Task[], filters: FilterState): Task[] {
+function filterTasks(
+  tasks: Task[],
+  filters: FilterState,
+  categories: CategoryDefinition[],
+  team: TeamMember[],
+  weekStartsOn: WeekStartDay
+): Task[] {
   let filtered = tasks;
+  const today = new Date();
 
-  // Search filter
-  if (filters.search.trim()) {
-    const searchLower = filters.search.toLowerCase();
-    filtered = filtered.filter(task =>
-      task.name.toLowerCase().includes(searchLower)
-    );
+  // Search query; an invalid query is ignored while FiltersPanel shows the error
+  const { predicate } = compileTaskQuery(filters.search, { categories, team, today });
+  if (predicate) {
+    filtered = filtered.filter(predicate);
   }
 
   // Category filter
@@ -185,44 +501,205 @@ function filterTasks(tasks: Task[], filters: FilterState): Task[] {
     );
   }
 
+  // Assignee, priority and tag filters; a task matches any of the picked values
+  if (filters.assignees.length > 0) {
+    filtered = filtered.filter(task => !!task.assignee && filters.assignees.includes(task.assignee));
+  }
+  if (filters.priorities.length > 0) {
+    filtered = filtered.filter(task => !!task.priority && filters.priorities.includes(task.priority));
+  }
+  if (filters.tags.length > 0) {
+    filtered = filtered.filter(task => !!task.tags?.some(tag => filters.tags.includes(tag)));
+  }
+
   // Time range filter
-  if (filters.timeRangeWeeks > 0) {
-    const today = new Date();
-    const timeRange = getTimeRangeFilter(today, filters.timeRangeWeeks as 1 | 2 | 3);
-    filtered = filtered.filter(task =>
-      dateRangesOverlap(
-        { start: task.start, end: task.end },
-        timeRange
-      )
-    );
+  const inTimeRange = createTimeRangePredicate(filters.timeRange, { today, weekStartsOn, categories });
+  if (inTimeRange) {
+    filtered = filtered.filter(inTimeRange);
   }
 
   return filtered;
 }
 
-function App() {
-  // Load from localStorage on mount (using lazy initializer)
-  const [state, dispatch] = useReducer(appReducer, undefined, () => {
-    const saved = localStorage.getItem('tasks');
-    if (saved) {
-      try {
-        const tasks = JSON.parse(saved) as Task[];
-        return {
-          ...initialState,
-          tasks
-        };
-      } catch (e) {
-        console.error('Failed to load tasks from localStorage', e);
-        return initialState;
-      }
-    }
-    return initialState;
+// Appended to the announcement when an occurrence is deleted with a scope
+const OCCURRENCE_SCOPE_SUFFIXES: Record<RecurrenceScope, string> = {
+  this: '',
+  following: ' and its following occurrences',
+  all: ' and all its occurrences'
+};
+
+const defaultTaskStore = createDefaultTaskStore();
+
+interface AppProps {
+  store?: TaskStore;
+}
+
+function App({ store = defaultTaskStore }: AppProps) {
+  const [state, dispatch] = useReducer(appReducer, initialState, state => {
+    const categories = loadCategories();
+    const team = loadTeam();
+    // Tasks aren't loaded yet, so an open task in the URL is applied after loading
+    const { view, currentDate, filters } = parseUrl(window.location, categories, team, state);
+    return { ...state, categories, team, settings: loadSettings(), view, currentDate, filters };
   });
+  const isLoaded = state.isLoaded;
+  const [quarantined, setQuarantined] = useState<QuarantinedRecord[]>([]);
+  const [isCategorySettingsOpen, setIsCategorySettingsOpen] = useState(false);
+  // Read out by screen readers through the live region
+  const [announcement, setAnnouncement] = useState('');
+
+  // The period the app opens on, so its tasks can be shown before the full load
+  const initialRangeRef = useRef<DateRange | null>(null);
+  if (!initialRangeRef.current) {
+    const location = parseUrl(window.location, state.categories, state.team, state);
+    initialRangeRef.current = getPeriodRange(location.view, location.currentDate, state.settings.weekStartsOn);
+  }
 
-  // Save to localStorage whenever tasks change
+  // Load from the task store once on mount: first the tasks of the visible
+  // period, then everything (search, filters and the board need every task).
+  // Tasks are read-only until everything has loaded.
   React.useEffect(() => {
-    localStorage.setItem('tasks', JSON.stringify(state.tasks));
-  }, [state.tasks]);
+    let cancelled = false;
+    let isFullyLoaded = false;
+
+    if (initialRangeRef.current) {
+      store.loadRange(initialRangeRef.current)
+        .then(tasks => {
+          if (cancelled || isFullyLoaded) return;
+          dispatch({ type: 'TASKS_LOADED', tasks, isComplete: false });
+        })
+        .catch(e => {
+          console.error('Failed to load visible tasks', e);
+        });
+    }
+
+    store.load()
+      .then(result => {
+        if (cancelled) return;
+        isFullyLoaded = true;
+        if (result.quarantined.length > 0) {
+          console.warn('Some stored tasks were invalid and have been quarantined', result.quarantined);
+          setQuarantined(result.quarantined);
+        }
+        dispatch({ type: 'TASKS_LOADED', tasks: result.tasks, isComplete: true });
+        dispatch({ type: 'LOCATION_CHANGE', pathname: window.location.pathname, search: window.location.search });
+      })
+      .catch(e => {
+        console.error('Failed to load tasks', e);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [store]);
+
+  // Save to the task store whenever tasks change (not before the initial load completes)
+  React.useEffect(() => {
+    if (!isLoaded) return;
+    store.save(state.tasks).catch(e => {
+      console.error('Failed to save tasks', e);
+    });
+  }, [store, isLoaded, state.tasks]);
+
+  React.useEffect(() => {
+    saveCategories(state.categories);
+  }, [state.categories]);
+
+  React.useEffect(() => {
+    saveTeam(state.team);
+  }, [state.team]);
+
+  React.useEffect(() => {
+    saveSettings(state.settings);
+  }, [state.settings]);
+
+  // Tasks may reference categories that aren't defined (e.g. after undoing past a
+  // category deletion); those get placeholder definitions so they stay visible
+  const categories = useMemo(
+    () => ensureCategoriesFor(state.categories, state.tasks),
+    [state.categories, state.tasks]
+  );
+
+  const url = formatUrl({
+    view: state.view,
+    currentDate: state.currentDate,
+    filters: state.filters,
+    taskId: state.modal.open ? state.modal.editingTaskId : undefined
+  }, categories, state.team);
+
+  // Set when the next URL update should replace the history entry: after the
+  // initial load or back/forward, the URL is only normalized, not navigated
+  const replaceNextUrlRef = useRef(true);
+
+  // Keep the URL in sync with the state (not before the initial load completes, so
+  // a task link isn't overwritten). New paths get a history entry, filters don't.
+  React.useEffect(() => {
+    if (!isLoaded) return;
+
+    const replace = replaceNextUrlRef.current || url.split('?')[0] === window.location.pathname;
+    replaceNextUrlRef.current = false;
+    if (url === window.location.pathname + window.location.search) return;
+
+    if (replace) {
+      window.history.replaceState(null, '', url);
+    } else {
+      window.history.pushState(null, '', url);
+    }
+  }, [url, isLoaded]);
+
+  // Browser back/forward
+  React.useEffect(() => {
+    const handlePopState = () => {
+      replaceNextUrlRef.current = true;
+      dispatch({ type: 'LOCATION_CHANGE', pathname: window.location.pathname, search: window.location.search });
+    };
+
+    window.addEventListener('popstate', handlePopState);
+    return () => {
+      window.removeEventListener('popstate', handlePopState);
+    };
+  }, []);
+
+  // A pending change to one occurrence of a recurring task, waiting for the user
+  // to choose whether it applies to this occurrence, following ones or all
+  const [occurrenceChange, setOccurrenceChange] = useState<{
+    occurrenceId: string;
+    change: OccurrenceChange;
+    awaitingScope: boolean;
+    promotedTasks?: TaskCreateAction[]; // created in the same undo step once the scope is chosen
+  } | null>(null);
+
+  // Each task's working calendar, or undefined when durations are in calendar days
+  const workingCalendarFor = useMemo(
+    () => createWorkingCalendarResolver(state.settings, state.team),
+    [state.settings, state.team]
+  );
+
+  // Recurring tasks expanded into occurrences for the visible month grid
+  const expandedTasks = useMemo(() => {
+    // The board shows each recurring series as a single card
+    if (state.view === 'board') return state.tasks;
+
+    const expanded = expandRecurringTasks(
+      state.tasks,
+      getPeriodRange(state.view, state.currentDate, state.settings.weekStartsOn)
+    );
+    if (!occurrenceChange) return expanded;
+
+    // Preview an in-progress occurrence drag before the scope is chosen
+    const { occurrenceId, change } = occurrenceChange;
+    return expanded.map(t => {
+      if (t.id !== occurrenceId) return t;
+      if (change.type === 'move') {
+        // Moved the way the change will be applied, keeping working days in working-day mode
+        return { ...t, ...moveTaskRange(t, change.newStart, workingCalendarFor?.(t)) };
+      }
+      if (change.type === 'resize') {
+        return { ...t, start: change.newStart, end: change.newEnd };
+      }
+      return t;
+    });
+  }, [state.tasks, state.view, state.currentDate, state.settings.weekStartsOn, workingCalendarFor, occurrenceChange]);
 
   const handleSelectionStart = useCallback((isoDate: string) => {
     dispatch({ type: 'SELECTION_START', isoDate });
@@ -236,12 +713,60 @@ function App() {
     dispatch({ type: 'SELECTION_END' });
   }, []);
 
+  const handleSelectionCancel = useCallback(() => {
+    dispatch({ type: 'SELECTION_CANCEL' });
+  }, []);
+
+  // Finish a range selection wherever the pointer is released
+  React.useEffect(() => {
+    if (!state.selection.isSelecting) return;
+
+    const handleGlobalPointerUp = () => {
+      dispatch({ type: 'SELECTION_END' });
+    };
+
+    document.addEventListener('pointerup', handleGlobalPointerUp);
+    return () => {
+      document.removeEventListener('pointerup', handleGlobalPointerUp);
+    };
+  }, [state.selection.isSelecting]);
+
   const handleModalClose = useCallback(() => {
     dispatch({ type: 'MODAL_CLOSE' });
   }, []);
 
-  const handleTaskCreate = useCallback((name: string, category: Category) => {
+  const handleTaskCreate = useCallback(({ name, category, recurrence, dependsOn, details, promotedSubtasks }: TaskFormValues) => {
     if (!state.modal.draftRange) return;
+    const { start, end } = state.modal.draftRange;
+
+    // New tasks start open even when the checklist just completed the parent
+    const openCategory = isDoneCategory(state.categories, category)
+      ? state.categories.find(c => !c.isDone)?.id ?? category
+      : category;
+    const promotedTasks = (promotedSubtasks ?? []).map((subtaskName): TaskCreateAction => ({
+      type: 'TASK_CREATE',
+      name: subtaskName,
+      category: openCategory,
+      start,
+      end,
+      details: { assignee: details.assignee, priority: details.priority }
+    }));
+
+    if (state.modal.editingTaskId && parseOccurrenceId(state.modal.editingTaskId)) {
+      // Editing one occurrence of a series: ask which occurrences the edit applies to.
+      // Promoted checklist items wait for the answer, and are dropped if it's cancelled.
+      setOccurrenceChange({
+        occurrenceId: state.modal.editingTaskId,
+        change: { type: 'update', name, category, recurrence, details },
+        awaitingScope: true,
+        promotedTasks
+      });
+      return;
+    }
+
+    // Promoted checklist items are created in the same undo step as the task edit
+    if (promotedTasks.length > 0) dispatch({ type: 'GESTURE_START' });
+
     if (state.modal.editingTaskId) {
       // Update existing task
       dispatch({
@@ -249,8 +774,11 @@ function App() {
         taskId: state.modal.editingTaskId,
         name,
         category,
-        start: state.modal.draftRange.start,
-        end: state.modal.draftRange.end
+        start,
+        end,
+        recurrence,
+        dependsOn,
+        details
       });
     } else {
       // Create new task
@@ -258,14 +786,30 @@ function App() {
         type: 'TASK_CREATE',
         name,
         category,
-        start: state.modal.draftRange.start,
-        end: state.modal.draftRange.end
+        start,
+        end,
+        recurrence,
+        dependsOn,
+        details
       });
     }
-  }, [state.modal.draftRange, state.modal.editingTaskId]);
+
+    if (promotedTasks.length > 0) {
+      promotedTasks.forEach(action => dispatch(action));
+      dispatch({ type: 'GESTURE_END' });
+    }
+  }, [state.modal.draftRange, state.modal.editingTaskId, state.categories]);
+
+  // Handlers passed to task bars read the latest tasks from refs, so they stay
+  // stable and memoized bars don't re-render on every drag step
+  const expandedTasksRef = useRef(expandedTasks);
+  expandedTasksRef.current = expandedTasks;
+
+  const workingCalendarForRef = useRef(workingCalendarFor);
+  workingCalendarForRef.current = workingCalendarFor;
 
   const handleTaskEdit = useCallback((taskId: string) => {
-    const task = state.tasks.find(t => t.id === taskId);
+    const task = expandedTasksRef.current.find(t => t.id === taskId);
     if (!task) return;
     
     dispatch({
@@ -273,28 +817,170 @@ function App() {
       draftRange: { start: task.start, end: task.end },
       editingTaskId: taskId
     });
+  }, []);
+
+  const handleTaskCategoryChange = useCallback((taskId: string, category: string) => {
+    const task = state.tasks.find(t => t.id === taskId);
+    if (!task) return;
+
+    dispatch({
+      type: 'TASK_UPDATE',
+      taskId,
+      name: task.name,
+      category,
+      start: task.start,
+      end: task.end,
+      recurrence: task.recurrence,
+      dependsOn: task.dependsOn,
+      details: task
+    });
   }, [state.tasks]);
 
   const handleTaskDelete = useCallback((taskId: string) => {
+    if (parseOccurrenceId(taskId)) {
+      setOccurrenceChange({ occurrenceId: taskId, change: { type: 'delete' }, awaitingScope: true });
+      return;
+    }
     if (window.confirm('Are you sure you want to delete this task?')) {
+      const task = expandedTasksRef.current.find(t => t.id === taskId);
       dispatch({ type: 'TASK_DELETE', taskId });
+      if (task) setAnnouncement(`Deleted ${task.name}`);
     }
   }, []);
 
+  const handleTaskPinToggle = useCallback((taskId: string) => {
+    dispatch({ type: 'TASK_PIN_TOGGLE', taskId });
+  }, []);
+
+  // Occurrence drags are previewed locally and applied once the gesture ends
   const handleTaskMove = useCallback((taskId: string, newStartDate: string) => {
+    if (parseOccurrenceId(taskId)) {
+      const occurrence = expandedTasksRef.current.find(t => t.id === taskId);
+      const calendar = occurrence && workingCalendarForRef.current?.(occurrence);
+      if (occurrence && calendar) {
+        // Working days can stretch the occurrence, so it is applied as a resize
+        const range = moveTaskRange(occurrence, newStartDate, calendar);
+        setOccurrenceChange({
+          occurrenceId: taskId,
+          change: { type: 'resize', newStart: range.start, newEnd: range.end },
+          awaitingScope: false
+        });
+        return;
+      }
+      setOccurrenceChange({ occurrenceId: taskId, change: { type: 'move', newStart: newStartDate }, awaitingScope: false });
+      return;
+    }
     dispatch({ type: 'TASK_MOVE', taskId, newStartDate });
   }, []);
 
   const handleTaskResize = useCallback((taskId: string, newStart: string, newEnd: string) => {
+    if (parseOccurrenceId(taskId)) {
+      const range = normalizeDateRange(newStart, newEnd);
+      setOccurrenceChange({
+        occurrenceId: taskId,
+        change: { type: 'resize', newStart: range.start, newEnd: range.end },
+        awaitingScope: false
+      });
+      return;
+    }
     dispatch({ type: 'TASK_RESIZE', taskId, newStart, newEnd });
   }, []);
 
+  const handleOccurrenceScopeSelect = useCallback((scope: RecurrenceScope) => {
+    if (!occurrenceChange) return;
+    const promotedTasks = occurrenceChange.promotedTasks ?? [];
+    if (promotedTasks.length > 0) dispatch({ type: 'GESTURE_START' });
+    dispatch({
+      type: 'OCCURRENCE_CHANGE',
+      occurrenceId: occurrenceChange.occurrenceId,
+      scope,
+      change: occurrenceChange.change
+    });
+    if (promotedTasks.length > 0) {
+      promotedTasks.forEach(action => dispatch(action));
+      dispatch({ type: 'GESTURE_END' });
+    }
+    if (occurrenceChange.change.type === 'delete') {
+      const occurrence = expandedTasksRef.current.find(t => t.id === occurrenceChange.occurrenceId);
+      if (occurrence) setAnnouncement(`Deleted ${occurrence.name}${OCCURRENCE_SCOPE_SUFFIXES[scope]}`);
+    }
+    setOccurrenceChange(null);
+  }, [occurrenceChange]);
+
+  const handleOccurrenceScopeCancel = useCallback(() => {
+    setOccurrenceChange(null);
+  }, []);
+
+  const handleGestureStart = useCallback(() => {
+    dispatch({ type: 'GESTURE_START' });
+  }, []);
+
+  const handleGestureEnd = useCallback(() => {
+    dispatch({ type: 'GESTURE_END' });
+    setOccurrenceChange(prev => (prev ? { ...prev, awaitingScope: true } : prev));
+  }, []);
+
+  const handleUndo = useCallback(() => {
+    dispatch({ type: 'UNDO' });
+  }, []);
+
+  const handleRedo = useCallback(() => {
+    dispatch({ type: 'REDO' });
+  }, []);
+
+  // Undo/redo keyboard shortcuts (Ctrl/Cmd+Z, Ctrl/Cmd+Shift+Z, Ctrl+Y)
+  React.useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+
+      // Leave native text undo alone inside form fields
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) {
+        return;
+      }
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        dispatch({ type: 'UNDO' });
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        dispatch({ type: 'REDO' });
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, []);
+
+  const handleTasksImport = useCallback((tasks: Task[]) => {
+    dispatch({ type: 'TASKS_IMPORT', tasks });
+  }, []);
+
+  const handleCategoriesChange = useCallback((categories: CategoryDefinition[]) => {
+    dispatch({ type: 'CATEGORIES_CHANGE', categories });
+  }, []);
+
+  const handleTeamChange = useCallback((team: TeamMember[]) => {
+    dispatch({ type: 'TEAM_CHANGE', team });
+  }, []);
+
+  const handleSettingsChange = useCallback((settings: CalendarSettings) => {
+    dispatch({ type: 'SETTINGS_CHANGE', settings });
+  }, []);
+
   const handleFiltersChange = useCallback((filters: FilterState) => {
     dispatch({ type: 'FILTERS_CHANGE', filters });
   }, []);
 
-  const handleMonthChange = useCallback((newMonth: Date) => {
-    dispatch({ type: 'MONTH_CHANGE', month: newMonth });
+  const handleViewChange = useCallback((view: CalendarView) => {
+    dispatch({ type: 'VIEW_CHANGE', view });
+  }, []);
+
+  const handleDateChange = useCallback((date: Date) => {
+    dispatch({ type: 'DATE_CHANGE', date });
   }, []);
 
   const handleQuickTaskCreate = useCallback(() => {
@@ -306,36 +992,315 @@ function App() {
   }, []);
 
   const filteredTasks = useMemo(
-    () => filterTasks(state.tasks, state.filters),
-    [state.tasks, state.filters]
+    () => filterTasks(expandedTasks, state.filters, categories, state.team, state.settings.weekStartsOn),
+    [expandedTasks, state.filters, categories, state.team, state.settings.weekStartsOn]
+  );
+  // Tags offered by the filters, search and task modal
+  const knownTags = useMemo(() => collectTags(state.tasks), [state.tasks]);
+  const filteredTasksRef = useRef(filteredTasks);
+  filteredTasksRef.current = filteredTasks;
+
+  // Reads the latest tasks from a ref, so bars given the validator don't re-render on every change
+  const tasksRef = useRef(state.tasks);
+  tasksRef.current = state.tasks;
+  const validateDrop = useMemo<DropValidator | undefined>(() => {
+    const lockedPeriods = state.settings.lockedPeriods;
+    if (lockedPeriods.length === 0) return undefined;
+    return (task, range) =>
+      createLockedPeriodValidator(lockedPeriods, tasksRef.current, workingCalendarForRef.current)?.(task, range) ?? null;
+  }, [state.settings.lockedPeriods]);
+
+  // Selected tasks that still exist; ids go stale when a task is deleted or an
+  // occurrence is detached from its series
+  const selectedTasks = useMemo(
+    () => state.selectedTaskIds
+      .map(id => findTaskOrOccurrence(state.tasks, id))
+      .filter((task): task is Task => !!task),
+    [state.selectedTaskIds, state.tasks]
   );
+  const selectedTaskIds = useMemo(() => selectedTasks.map(t => t.id), [selectedTasks]);
+
+  // The last task clicked with a modifier, where a Shift-click range starts
+  const selectionAnchorRef = useRef<string | null>(null);
+
+  const handleTaskSelect = useCallback((taskId: string, mode: TaskSelectMode) => {
+    dispatch({
+      type: 'TASK_SELECTION_CHANGE',
+      taskIds: updateTaskSelection(
+        selectedTaskIds,
+        sortTasksForSelection(filteredTasksRef.current),
+        taskId,
+        mode,
+        selectionAnchorRef.current
+      )
+    });
+    selectionAnchorRef.current = taskId;
+  }, [selectedTaskIds]);
+
+  const handleTaskSelectionChange = useCallback((taskIds: string[]) => {
+    dispatch({ type: 'TASK_SELECTION_CHANGE', taskIds });
+  }, []);
+
+  const handleSelectAllMatching = useCallback(() => {
+    dispatch({ type: 'TASK_SELECTION_CHANGE', taskIds: filteredTasks.map(t => t.id) });
+  }, [filteredTasks]);
+
+  const handleSelectionClear = useCallback(() => {
+    selectionAnchorRef.current = null;
+    dispatch({ type: 'TASK_SELECTION_CHANGE', taskIds: [] });
+  }, []);
+
+  const handleBulkMove = useCallback((days: number) => {
+    if (!isLoaded) return;
+    // Moved like a drop: one task that may not move keeps the whole selection in place
+    const change: BulkChange = { type: 'move', days };
+    const { error } = planBulkChange({ tasks: tasksRef.current, settings: state.settings, team: state.team }, selectedTaskIds, change);
+    if (error) {
+      setAnnouncement(`Can't move the selected tasks: ${error}`);
+      return;
+    }
+    dispatch({ type: 'TASKS_BULK_CHANGE', taskIds: selectedTaskIds, change });
+    setAnnouncement(`Moved ${selectedTaskIds.length} tasks by ${days} days`);
+  }, [isLoaded, selectedTaskIds, state.settings, state.team]);
+
+  const handleBulkCategoryChange = useCallback((category: string) => {
+    dispatch({ type: 'TASKS_BULK_CHANGE', taskIds: selectedTaskIds, change: { type: 'category', category } });
+  }, [selectedTaskIds]);
+
+  const handleBulkDelete = useCallback(() => {
+    if (!isLoaded) return;
+    const count = selectedTaskIds.length;
+    if (window.confirm(`Are you sure you want to delete ${count} selected task${count !== 1 ? 's' : ''}?`)) {
+      const change: BulkChange = { type: 'delete' };
+      const { error } = planBulkChange({ tasks: tasksRef.current, settings: state.settings, team: state.team }, selectedTaskIds, change);
+      if (error) {
+        setAnnouncement(`Can't delete the selected tasks: ${error}`);
+        return;
+      }
+      dispatch({ type: 'TASKS_BULK_CHANGE', taskIds: selectedTaskIds, change });
+      setAnnouncement(`Deleted ${count} task${count !== 1 ? 's' : ''}`);
+    }
+  }, [isLoaded, selectedTaskIds, state.settings, state.team]);
+
+  const handleBulkExport = useCallback((fileFormat: 'ics' | 'csv') => {
+    // A selected occurrence is exported as a single event, not the whole series
+    const exported = selectedTasks.map(task => parseOccurrenceId(task.id) ? { ...task, recurrence: undefined } : task);
+    const fileName = `selected-tasks-${format(new Date(), 'yyyy-MM-dd')}.${fileFormat}`;
+
+    if (fileFormat === 'ics') {
+      downloadFile(fileName, exportTasksToIcs(exported, categories), 'text/calendar;charset=utf-8');
+    } else {
+      downloadFile(fileName, exportTasksToCsv(exported, categories), 'text/csv;charset=utf-8');
+    }
+  }, [selectedTasks, categories]);
 
   const draftRange = state.modal.draftRange;
   const editingTask = state.modal.editingTaskId 
-    ? state.tasks.find(t => t.id === state.modal.editingTaskId)
+    ? expandedTasks.find(t => t.id === state.modal.editingTaskId)
     : null;
+  const isEditingOccurrence = !!state.modal.editingTaskId && !!parseOccurrenceId(state.modal.editingTaskId);
+
+  // Recurring series can't take part in dependencies, their occurrences have no stable id
+  const dependencyOptions = isEditingOccurrence
+    ? []
+    : state.tasks.filter(t => !t.recurrence && t.id !== state.modal.editingTaskId);
+
+  const validateDependencies = (dependsOn: string[]): string | null => {
+    if (!state.modal.editingTaskId || dependsOn.length === 0) return null;
+    return wouldCreateCycle(state.tasks, state.modal.editingTaskId, dependsOn)
+      ? 'These dependencies would create a cycle'
+      : null;
+  };
 
   return (
     <div className={styles.app}>
+      <div className={styles.visuallyHidden} role="status" aria-live="polite">
+        {announcement}
+      </div>
       <FiltersPanel
         filters={state.filters}
+        categories={categories}
+        team={state.team}
+        tags={knownTags}
+        weekStartsOn={state.settings.weekStartsOn}
+        matchingCount={filteredTasks.length}
         onFiltersChange={handleFiltersChange}
-      />
-      <div className={styles.mainContent}>
-        <CalendarMonth
-          month={state.currentMonth}
-          tasks={filteredTasks}
-          selection={state.selection}
-          cellWidth={150}
-          onSelectionStart={handleSelectionStart}
-          onSelectionUpdate={handleSelectionUpdate}
-          onSelectionEnd={handleSelectionEnd}
-          onTaskMove={handleTaskMove}
-          onTaskResize={handleTaskResize}
-          onTaskEdit={handleTaskEdit}
-          onTaskDelete={handleTaskDelete}
-          onMonthChange={handleMonthChange}
+        onSelectAllMatching={handleSelectAllMatching}
+        onManageCategories={() => setIsCategorySettingsOpen(true)}
+      >
+        <ImportExportSection
+          tasks={state.tasks}
+          filteredTasks={filteredTasks}
+          categories={categories}
+          onImport={handleTasksImport}
+        />
+        <TeamSection
+          team={state.team}
+          usage={countTasksByAssignee(state.tasks)}
+          defaultWeekendDays={state.settings.workingCalendar.weekendDays}
+          weekStartsOn={state.settings.weekStartsOn}
+          onTeamChange={handleTeamChange}
         />
+        <CalendarSettingsSection
+          settings={state.settings}
+          onSettingsChange={handleSettingsChange}
+        />
+      </FiltersPanel>
+      <div className={styles.mainContent}>
+        {!isLoaded && (
+          <div className={styles.storageNotice} role="status">
+            <span>Loading all tasks… Changes can be made once loading finishes.</span>
+          </div>
+        )}
+        {quarantined.length > 0 && (
+          <div className={styles.storageNotice} role="alert">
+            <span>
+              {quarantined.length} stored task{quarantined.length !== 1 ? 's' : ''} could not be loaded and {quarantined.length !== 1 ? 'were' : 'was'} quarantined.
+            </span>
+            <button
+              className={styles.noticeDismiss}
+              onClick={() => setQuarantined([])}
+              aria-label="Dismiss"
+            >
+              ×
+            </button>
+          </div>
+        )}
+        <div className={styles.calendarContainer}>
+          <CalendarHeader
+            view={state.view}
+            currentDate={state.currentDate}
+            tasks={filteredTasks}
+            categories={categories}
+            weekStartsOn={state.settings.weekStartsOn}
+            canUndo={state.history.past.length > 0}
+            canRedo={state.history.future.length > 0}
+            onUndo={handleUndo}
+            onRedo={handleRedo}
+            onViewChange={handleViewChange}
+            onDateChange={handleDateChange}
+          />
+          {selectedTasks.length > 0 && (
+            <SelectionToolbar
+              count={selectedTasks.length}
+              categories={categories}
+              onMove={handleBulkMove}
+              onCategoryChange={handleBulkCategoryChange}
+              onDelete={handleBulkDelete}
+              onExport={handleBulkExport}
+              onClear={handleSelectionClear}
+            />
+          )}
+          {state.view === 'month' && (
+            <CalendarMonth
+              month={state.currentDate}
+              tasks={filteredTasks}
+              categories={categories}
+              team={state.team}
+              settings={state.settings}
+              selection={state.selection}
+              cellWidth={150}
+              onSelectionStart={handleSelectionStart}
+              onSelectionUpdate={handleSelectionUpdate}
+              onSelectionEnd={handleSelectionEnd}
+              onSelectionCancel={handleSelectionCancel}
+              onNavigate={handleDateChange}
+              onAnnounce={setAnnouncement}
+              selectedTaskIds={selectedTaskIds}
+              onTaskSelect={handleTaskSelect}
+              onTaskSelectionChange={handleTaskSelectionChange}
+              onTaskMove={handleTaskMove}
+              onTaskResize={handleTaskResize}
+              onGestureStart={handleGestureStart}
+              onGestureEnd={handleGestureEnd}
+              validateDrop={validateDrop}
+              workingCalendarFor={workingCalendarFor}
+              onTaskEdit={handleTaskEdit}
+              onTaskDelete={handleTaskDelete}
+              onTaskPinToggle={handleTaskPinToggle}
+            />
+          )}
+          {state.view === 'week' && (
+            <CalendarWeek
+              date={state.currentDate}
+              tasks={filteredTasks}
+              categories={categories}
+              team={state.team}
+              settings={state.settings}
+              selection={state.selection}
+              onSelectionStart={handleSelectionStart}
+              onSelectionUpdate={handleSelectionUpdate}
+              onSelectionEnd={handleSelectionEnd}
+              onSelectionCancel={handleSelectionCancel}
+              onNavigate={handleDateChange}
+              onAnnounce={setAnnouncement}
+              selectedTaskIds={selectedTaskIds}
+              onTaskSelect={handleTaskSelect}
+              onTaskSelectionChange={handleTaskSelectionChange}
+              onTaskMove={handleTaskMove}
+              onTaskResize={handleTaskResize}
+              onGestureStart={handleGestureStart}
+              onGestureEnd={handleGestureEnd}
+              validateDrop={validateDrop}
+              workingCalendarFor={workingCalendarFor}
+              onTaskEdit={handleTaskEdit}
+              onTaskDelete={handleTaskDelete}
+              onTaskPinToggle={handleTaskPinToggle}
+            />
+          )}
+          {state.view === 'day' && (
+            <CalendarDay
+              date={state.currentDate}
+              tasks={filteredTasks}
+              categories={categories}
+              team={state.team}
+              settings={state.settings}
+              selection={state.selection}
+              onSelectionStart={handleSelectionStart}
+              onSelectionUpdate={handleSelectionUpdate}
+              onSelectionEnd={handleSelectionEnd}
+              onSelectionCancel={handleSelectionCancel}
+              onNavigate={handleDateChange}
+              onAnnounce={setAnnouncement}
+              selectedTaskIds={selectedTaskIds}
+              onTaskSelect={handleTaskSelect}
+              onTaskMove={handleTaskMove}
+              onTaskResize={handleTaskResize}
+              onGestureStart={handleGestureStart}
+              onGestureEnd={handleGestureEnd}
+              validateDrop={validateDrop}
+              workingCalendarFor={workingCalendarFor}
+              onTaskEdit={handleTaskEdit}
+              onTaskDelete={handleTaskDelete}
+              onTaskPinToggle={handleTaskPinToggle}
+            />
+          )}
+          {state.view === 'timeline' && (
+            <CalendarTimeline
+              date={state.currentDate}
+              tasks={filteredTasks}
+              categories={categories}
+              onTaskMove={handleTaskMove}
+              onTaskResize={handleTaskResize}
+              onGestureStart={handleGestureStart}
+              onGestureEnd={handleGestureEnd}
+              validateDrop={validateDrop}
+              workingCalendarFor={workingCalendarFor}
+              onAnnounce={setAnnouncement}
+              onTaskEdit={handleTaskEdit}
+            />
+          )}
+          {state.view === 'board' && (
+            <CalendarBoard
+              tasks={filteredTasks}
+              categories={categories}
+              workingCalendarFor={workingCalendarFor}
+              onTaskCategoryChange={handleTaskCategoryChange}
+              onTaskEdit={handleTaskEdit}
+              onTaskDelete={handleTaskDelete}
+            />
+          )}
+        </div>
       </div>
       {state.modal.open && (
         <TaskModal
@@ -343,11 +1308,41 @@ function App() {
           draftRange={draftRange}
           initialName={editingTask?.name}
           initialCategory={editingTask?.category}
+          categories={categories}
+          weekStartsOn={state.settings.weekStartsOn}
+          initialRecurrence={editingTask?.recurrence}
           isEditing={!!state.modal.editingTaskId}
+          isOccurrence={isEditingOccurrence}
+          initialDependsOn={editingTask?.dependsOn}
+          initialDescription={editingTask?.description}
+          initialAssignee={editingTask?.assignee}
+          initialPriority={editingTask?.priority}
+          initialTags={editingTask?.tags}
+          initialSubtasks={editingTask?.subtasks}
+          completeWithChecklist={state.settings.completeWithChecklist}
+          team={state.team}
+          knownTags={knownTags}
+          dependencyOptions={dependencyOptions}
+          validateDependencies={validateDependencies}
           onClose={handleModalClose}
           onSubmit={handleTaskCreate}
         />
       )}
+      {isCategorySettingsOpen && (
+        <CategorySettingsModal
+          categories={categories}
+          usage={countTasksByCategory(state.tasks)}
+          onSave={handleCategoriesChange}
+          onClose={() => setIsCategorySettingsOpen(false)}
+        />
+      )}
+      {occurrenceChange?.awaitingScope && (
+        <RecurrenceScopeDialog
+          action={occurrenceChange.change.type}
+          onSelect={handleOccurrenceScopeSelect}
+          onCancel={handleOccurrenceScopeCancel}
+        />
+      )}
       
       <button 
         className={styles.fab}
@@ -0,0 +1,245 @@
+import React, { useCallback, useState } from 'react';
+import { flushSync } from 'react-dom';
+import { addMonths, format, startOfMonth } from 'date-fns';
+import type { Task } from '../types';
+import { DEFAULT_CATEGORIES } from '../lib/categories';
+import { DEFAULT_SETTINGS } from '../lib/settings';
+import { dayCountInclusive, shiftIsoDate } from '../lib/dates';
+import { createTaskIndex, updateTaskIndex } from '../lib/layoutEngine';
+import { findDateAtPoint } from '../hooks/useTaskDrag';
+import { CalendarMonth } from '../components/CalendarMonth';
+import styles from './LayoutBenchmark.module.css';
+
+const TASK_COUNTS = [1000, 5000, 10000];
+const MOVE_COUNT = 60; // pointermove events per run
+const DROP_COUNT = 10; // drags released over another day, each committing a move
+const SPREAD_MONTHS = 12; // tasks are spread over this many months around the shown one
+
+interface Timings {
+  label: string;
+  samples: number[];
+}
+
+// Deterministic, so runs are comparable
+function createRandom(seed: number) {
+  let state = seed;
+  return () => {
+    state = (state * 16807) % 2147483647;
+    return state / 2147483647;
+  };
+}
+
+function generateTasks(count: number, month: Date): Task[] {
+  const random = createRandom(42);
+  const firstDay = format(addMonths(startOfMonth(month), -SPREAD_MONTHS / 2), 'yyyy-MM-dd');
+  const spreadDays = SPREAD_MONTHS * 30;
+
+  return Array.from({ length: count }, (_, i) => {
+    const start = shiftIsoDate(firstDay, Math.floor(random() * spreadDays));
+    // Mostly short tasks, with a few spanning weeks or months
+    const length = random() < 0.05 ? Math.floor(random() * 90) : Math.floor(random() * 6);
+    return {
+      id: `bench-${i}`,
+      name: `Task ${i + 1}`,
+      category: DEFAULT_CATEGORIES[i % DEFAULT_CATEGORIES.length].id,
+      start,
+      end: shiftIsoDate(start, length)
+    };
+  });
+}
+
+function summarize(samples: number[]) {
+  const sorted = [...samples].sort((a, b) => a - b);
+  const at = (fraction: number) => sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * fraction))];
+  return {
+    median: at(0.5),
+    p95: at(0.95),
+    max: sorted[sorted.length - 1],
+    mean: samples.reduce((sum, sample) => sum + sample, 0) / samples.length
+  };
+}
+
+const nextFrame = () => new Promise(resolve => requestAnimationFrame(resolve));
+
+function centerOf(element: HTMLElement) {
+  const rect = element.getBoundingClientRect();
+  return { clientX: rect.left + rect.width / 2, clientY: rect.top + rect.height / 2 };
+}
+
+// Dispatch a pointer event and time it until React has committed the resulting render
+function timePointerEvent(target: EventTarget, type: string, init: PointerEventInit): number {
+  const startedAt = performance.now();
+  flushSync(() => {
+    target.dispatchEvent(new PointerEvent(type, { bubbles: true, button: 0, ...init }));
+  });
+  return performance.now() - startedAt;
+}
+
+/**
+ * Benchmark harness, served by the dev server at /bench.html. Renders the
+ * month grid with generated tasks, drags a task bar across the visible days
+ * with synthetic pointer events and reports the time from each pointermove
+ * to the rendered drag preview, and from each release over another day to the
+ * rendered move, plus the cost of the layout engine on its own.
+ */
+export const LayoutBenchmark: React.FC = () => {
+  const [month] = useState(() => new Date());
+  const [taskCount, setTaskCount] = useState(10000);
+  const [tasks, setTasks] = useState(() => generateTasks(10000, month));
+  const [results, setResults] = useState<Timings[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const handleTaskCountChange = (count: number) => {
+    setTaskCount(count);
+    setTasks(generateTasks(count, month));
+    setResults([]);
+  };
+
+  // Same date arithmetic as the app's reducer
+  const handleTaskMove = useCallback((taskId: string, newStartDate: string) => {
+    setTasks(prev => prev.map(task => task.id === taskId
+      ? { ...task, start: newStartDate, end: shiftIsoDate(newStartDate, dayCountInclusive(task.start, task.end) - 1) }
+      : task
+    ));
+  }, []);
+
+  const handleTaskResize = useCallback((taskId: string, newStart: string, newEnd: string) => {
+    setTasks(prev => prev.map(task => task.id === taskId ? { ...task, start: newStart, end: newEnd } : task));
+  }, []);
+
+  const noop = useCallback(() => {}, []);
+
+  const measureLayoutEngine = (): Timings[] => {
+    const build: number[] = [];
+    const update: number[] = [];
+    let index = createTaskIndex(tasks);
+    let current = tasks;
+
+    for (let i = 0; i < 20; i++) {
+      let startedAt = performance.now();
+      createTaskIndex(current);
+      build.push(performance.now() - startedAt);
+
+      const moved = current.map((task, position) => position === i
+        ? { ...task, start: shiftIsoDate(task.start, 1), end: shiftIsoDate(task.end, 1) }
+        : task
+      );
+      startedAt = performance.now();
+      index = updateTaskIndex(index, moved);
+      update.push(performance.now() - startedAt);
+      current = moved;
+    }
+
+    return [
+      { label: 'Index rebuild', samples: build },
+      { label: 'Index update (one task moved)', samples: update }
+    ];
+  };
+
+  const runBenchmark = async () => {
+    const grid = document.querySelector<HTMLElement>('[data-calendar-grid]');
+    if (!grid?.querySelector('[data-task-id]')) return;
+
+    setIsRunning(true);
+    await nextFrame();
+
+    // elementsFromPoint only sees what is on screen
+    const cells = [...grid.querySelectorAll<HTMLElement>('[role="gridcell"]')].filter(cell => {
+      const rect = cell.getBoundingClientRect();
+      return rect.top >= 0 && rect.bottom <= window.innerHeight;
+    });
+    const previewSamples: number[] = [];
+    const commitSamples: number[] = [];
+
+    for (let drop = 0; drop < DROP_COUNT && cells.length > 1; drop++) {
+      // The dragged bar moves with every drop, so find one again each time
+      const bar = grid.querySelector<HTMLElement>('[data-task-id]');
+      if (!bar) break;
+      const grabPoint = centerOf(bar);
+      const grabDate = findDateAtPoint(grid, grabPoint.clientX, grabPoint.clientY);
+      timePointerEvent(bar, 'pointerdown', grabPoint);
+
+      // The first drag sweeps across the month, the others go straight to their target
+      const moveCount = drop === 0 ? MOVE_COUNT : 1;
+      let target = cells[0];
+      for (let i = 0; i < moveCount; i++) {
+        target = cells[(drop * 7 + i * 5 + 3) % cells.length];
+        if (target.closest<HTMLElement>('[data-date]')?.dataset.date === grabDate) {
+          target = cells[(cells.indexOf(target) + 1) % cells.length];
+        }
+        previewSamples.push(timePointerEvent(document, 'pointermove', centerOf(target)));
+        await nextFrame();
+      }
+
+      // Released over a day cell, so the drop is committed rather than cancelled
+      commitSamples.push(timePointerEvent(document, 'pointerup', centerOf(target)));
+      await nextFrame();
+    }
+
+    setResults([
+      { label: 'pointermove → preview rendered', samples: previewSamples },
+      { label: 'release → move rendered', samples: commitSamples },
+      ...measureLayoutEngine()
+    ]);
+    setIsRunning(false);
+  };
+
+  return (
+    <div className={styles.page}>
+      <div className={styles.controls}>
+        <strong>Layout benchmark</strong>
+        <label>
+          Tasks{' '}
+          <select value={taskCount} onChange={e => handleTaskCountChange(Number(e.target.value))} disabled={isRunning}>
+            {TASK_COUNTS.map(count => (
+              <option key={count} value={count}>{count.toLocaleString()}</option>
+            ))}
+          </select>
+        </label>
+        <button onClick={runBenchmark} disabled={isRunning}>
+          {isRunning ? 'Running…' : `Drag and drop a task ${DROP_COUNT} times`}
+        </button>
+        {results.length > 0 && (
+          <table className={styles.results}>
+            <thead>
+              <tr>
+                <th />
+                <th>median</th>
+                <th>p95</th>
+                <th>max</th>
+                <th>mean</th>
+              </tr>
+            </thead>
+            <tbody>
+              {results.map(({ label, samples }) => {
+                const summary = summarize(samples);
+                return (
+                  <tr key={label}>
+                    <th>{label}</th>
+                    <td>{summary.median.toFixed(2)} ms</td>
+                    <td>{summary.p95.toFixed(2)} ms</td>
+                    <td>{summary.max.toFixed(2)} ms</td>
+                    <td>{summary.mean.toFixed(2)} ms</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <CalendarMonth
+        month={month}
+        tasks={tasks}
+        categories={DEFAULT_CATEGORIES}
+        settings={DEFAULT_SETTINGS}
+        selection={{ isSelecting: false }}
+        cellWidth={0}
+        onSelectionStart={noop}
+        onSelectionUpdate={noop}
+        onTaskMove={handleTaskMove}
+        onTaskResize={handleTaskResize}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,10 @@
+import React from 'react'
+import ReactDOM from 'react-dom/client'
+import { LayoutBenchmark } from './LayoutBenchmark.tsx'
+import '../index.css'
+
+ReactDOM.createRoot(document.getElementById('root')!).render(
+  <React.StrictMode>
+    <LayoutBenchmark />
+  </React.StrictMode>,
+)
@@ -0,0 +1,182 @@
+import React, { useMemo, useState } from 'react';
+import { formatDateDisplay } from '../lib/dates';
+import { getTaskDuration, type WorkingCalendarResolver } from '../lib/workingDays';
+import { categoryColorStyle } from '../lib/categories';
+import type { Task, CategoryDefinition } from '../types';
+import styles from './CalendarBoard.module.css';
+
+interface CalendarBoardProps {
+  tasks: Task[];
+  categories: CategoryDefinition[];
+  workingCalendarFor?: WorkingCalendarResolver; // set in working-day mode
+  onTaskCategoryChange: (taskId: string, category: string) => void;
+  onTaskEdit?: (taskId: string) => void;
+  onTaskDelete?: (taskId: string) => void;
+}
+
+type BoardSort = 'start' | 'end' | 'name';
+
+const SORT_OPTIONS: { value: BoardSort; label: string }[] = [
+  { value: 'start', label: 'Start date' },
+  { value: 'end', label: 'End date' },
+  { value: 'name', label: 'Name' }
+];
+
+function compareTasks(a: Task, b: Task, sort: BoardSort): number {
+  switch (sort) {
+    case 'start':
+      return a.start.localeCompare(b.start) || a.name.localeCompare(b.name);
+    case 'end':
+      return a.end.localeCompare(b.end) || a.name.localeCompare(b.name);
+    case 'name':
+      return a.name.localeCompare(b.name) || a.start.localeCompare(b.start);
+  }
+}
+
+export const CalendarBoard: React.FC<CalendarBoardProps> = ({
+  tasks,
+  categories,
+  workingCalendarFor,
+  onTaskCategoryChange,
+  onTaskEdit,
+  onTaskDelete
+}) => {
+  // Columns without an entry are sorted by start date
+  const [sortByColumn, setSortByColumn] = useState<Record<string, BoardSort>>({});
+  const [draggingTaskId, setDraggingTaskId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const columns = useMemo(() => {
+    return categories.map(category => {
+      const sort = sortByColumn[category.id] ?? 'start';
+      return {
+        category,
+        sort,
+        tasks: tasks
+          .filter(task => task.category === category.id)
+          .sort((a, b) => compareTasks(a, b, sort))
+      };
+    });
+  }, [tasks, categories, sortByColumn]);
+
+  const handleDragStart = (taskId: string) => (e: React.DragEvent) => {
+    e.dataTransfer.setData('text/plain', taskId);
+    e.dataTransfer.effectAllowed = 'move';
+    setDraggingTaskId(taskId);
+  };
+
+  const handleDragEnd = () => {
+    setDraggingTaskId(null);
+    setDropTarget(null);
+  };
+
+  const handleDragOver = (category: string) => (e: React.DragEvent) => {
+    if (!draggingTaskId) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    setDropTarget(category);
+  };
+
+  const handleDrop = (category: string) => (e: React.DragEvent) => {
+    e.preventDefault();
+    const taskId = e.dataTransfer.getData('text/plain') || draggingTaskId;
+    const task = tasks.find(t => t.id === taskId);
+    if (task && task.category !== category) {
+      onTaskCategoryChange(task.id, category);
+    }
+    handleDragEnd();
+  };
+
+  return (
+    <div className={styles.board}>
+      {columns.map(column => (
+        <section
+          key={column.category.id}
+          className={`${styles.column} ${dropTarget === column.category.id ? styles.dropTarget : ''}`}
+          data-category={column.category.id}
+          style={categoryColorStyle(column.category)}
+          onDragOver={handleDragOver(column.category.id)}
+          onDragLeave={() => setDropTarget(prev => (prev === column.category.id ? null : prev))}
+          onDrop={handleDrop(column.category.id)}
+          aria-label={column.category.name}
+        >
+          <header className={styles.columnHeader}>
+            <span className={styles.columnTitle}>{column.category.name}</span>
+            <span className={styles.columnCount}>{column.tasks.length}</span>
+            <select
+              className={styles.sortSelect}
+              value={column.sort}
+              onChange={(e) => setSortByColumn(prev => ({
+                ...prev,
+                [column.category.id]: e.target.value as BoardSort
+              }))}
+              aria-label={`Sort ${column.category.name} by`}
+            >
+              {SORT_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </header>
+
+          <div className={styles.cards}>
+            {column.tasks.map(task => {
+              const calendar = workingCalendarFor?.(task);
+              const duration = getTaskDuration(task, calendar);
+              return (
+                <article
+                  key={task.id}
+                  className={`${styles.card} ${draggingTaskId === task.id ? styles.dragging : ''}`}
+                  data-category={task.category}
+                  draggable
+                  onDragStart={handleDragStart(task.id)}
+                  onDragEnd={handleDragEnd}
+                  onDoubleClick={() => onTaskEdit?.(task.id)}
+                >
+                  <div className={styles.cardHeader}>
+                    <span className={styles.cardName}>
+                      {task.recurrence && <span className={styles.recurringIcon} title="Recurring task">↻</span>}
+                      {task.name}
+                    </span>
+                    <div className={styles.cardActions}>
+                      {onTaskEdit && (
+                        <button
+                          className={styles.cardButton}
+                          onClick={() => onTaskEdit(task.id)}
+                          aria-label={`Edit ${task.name}`}
+                          title="Edit task"
+                        >
+                          ✏️
+                        </button>
+                      )}
+                      {onTaskDelete && (
+                        <button
+                          className={styles.cardButton}
+                          onClick={() => onTaskDelete(task.id)}
+                          aria-label={`Delete ${task.name}`}
+                          title="Delete task"
+                        >
+                          ×
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                  <div className={styles.cardMeta}>
+                    {task.start === task.end
+                      ? formatDateDisplay(task.start)
+                      : `${formatDateDisplay(task.start)} – ${formatDateDisplay(task.end)}`}
+                  </div>
+                  <div className={styles.cardMeta}>
+                    {duration} {calendar ? 'working ' : ''}day{duration !== 1 ? 's' : ''}
+                  </div>
+                </article>
+              );
+            })}
+            {column.tasks.length === 0 && (
+              <div className={styles.empty}>Drop tasks here</div>
+            )}
+          </div>
+        </section>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,261 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { addDays, format } from 'date-fns';
+import { generateDayRow, normalizeDateRange } from '../lib/dates';
+import { calculateAllTaskSegments, calculateRowIndices, calculateTaskSegments } from '../lib/taskSegments';
+import { getDependencyLinks } from '../lib/dependencies';
+import type { Task, SelectionState, CategoryDefinition, CalendarSettings, TeamMember } from '../types';
+import type { TaskSelectMode } from '../lib/selection';
+import { isDateLocked, type DropValidator } from '../lib/dropValidation';
+import { isWorkingDay, type WorkingCalendarResolver } from '../lib/workingDays';
+import { getCategory } from '../lib/categories';
+import { getTeamMember } from '../lib/team';
+import { useGridKeyboard } from '../hooks/useGridKeyboard';
+import { EDGE_DWELL_MS, EDGE_SIZE, useTaskDrag } from '../hooks/useTaskDrag';
+import { DayCell } from './DayCell';
+import { TaskBar } from './TaskBar';
+import { DragGhost } from './DragGhost';
+import styles from './CalendarDay.module.css';
+
+interface CalendarDayProps {
+  date: Date;
+  tasks: Task[];
+  categories: CategoryDefinition[];
+  team?: TeamMember[];
+  settings: CalendarSettings;
+  selection: SelectionState;
+  onSelectionStart: (isoDate: string) => void;
+  onSelectionUpdate: (isoDate: string) => void;
+  onSelectionEnd?: () => void;
+  onSelectionCancel?: () => void;
+  onNavigate?: (date: Date) => void;
+  onAnnounce?: (message: string) => void;
+  onTaskMove: (taskId: string, newStartDate: string) => void;
+  onTaskResize: (taskId: string, newStart: string, newEnd: string) => void;
+  onGestureStart?: () => void;
+  onGestureEnd?: () => void;
+  validateDrop?: DropValidator;
+  workingCalendarFor?: WorkingCalendarResolver; // set in working-day mode
+  onTaskEdit?: (taskId: string) => void;
+  onTaskDelete?: (taskId: string) => void;
+  onTaskPinToggle?: (taskId: string) => void;
+  selectedTaskIds?: string[];
+  onTaskSelect?: (taskId: string, mode: TaskSelectMode) => void;
+}
+
+const DAY_BAR_HEIGHT = 40;
+const DAY_LANE_HEIGHT = DAY_BAR_HEIGHT + 2; // matches TaskBar's stacking margin
+const DAY_HEADER_HEIGHT = 32; // the day cell's header above the first lane
+const DAY_MIN_HEIGHT = 360;
+
+/**
+ * A single day laid out as a one-column week row. Every task covering the day
+ * overlaps the others, so each gets a lane of its own. The day has no other
+ * cells to drag onto, so dragging a task, a task edge or a range selection to
+ * the left or right edge of the grid switches to the previous or next day.
+ */
+export const CalendarDay: React.FC<CalendarDayProps> = ({
+  date,
+  tasks,
+  categories,
+  team = [],
+  settings,
+  selection,
+  onSelectionStart,
+  onSelectionUpdate,
+  onSelectionEnd,
+  onSelectionCancel,
+  onNavigate,
+  onAnnounce,
+  onTaskMove,
+  onTaskResize,
+  onGestureStart,
+  onGestureEnd,
+  validateDrop,
+  workingCalendarFor,
+  onTaskEdit,
+  onTaskDelete,
+  onTaskPinToggle,
+  selectedTaskIds = [],
+  onTaskSelect
+}) => {
+  const gridRef = useRef<HTMLDivElement>(null);
+  const [cellWidth, setCellWidth] = useState(600);
+
+  const dayRow = useMemo(() => generateDayRow(date), [date]);
+  const dayRows = useMemo(() => [dayRow], [dayRow]);
+  const day = dayRow.days[0];
+
+  useEffect(() => {
+    // The single column spans the whole grid
+    if (gridRef.current) {
+      setCellWidth(gridRef.current.offsetWidth);
+    }
+  }, [dayRow]);
+
+  // Every task covering this day, earliest start first
+  const dayTasks = useMemo(
+    () => tasks
+      .filter(task => task.start <= day.isoDate && task.end >= day.isoDate)
+      .sort((a, b) => a.start.localeCompare(b.start) || a.name.localeCompare(b.name)),
+    [tasks, day.isoDate]
+  );
+  const segments = useMemo(
+    () => calculateRowIndices(calculateAllTaskSegments(dayTasks, dayRows)),
+    [dayTasks, dayRows]
+  );
+
+  const violatedTaskIds = useMemo(
+    () => new Set(getDependencyLinks(tasks).filter(link => link.isViolated).map(link => link.successorId)),
+    [tasks]
+  );
+  const selectedTaskIdSet = useMemo(() => new Set(selectedTaskIds), [selectedTaskIds]);
+
+  const { draggingTaskId, preview, startDrag } = useTaskDrag({
+    gridRef,
+    edgeAxis: 'horizontal',
+    onMove: onTaskMove,
+    onResize: onTaskResize,
+    onGestureStart,
+    onGestureEnd,
+    onEdgeNavigate: onNavigate ? direction => onNavigate(addDays(date, direction)) : undefined,
+    validateDrop,
+    workingCalendarFor,
+    onAnnounce
+  });
+
+  // Where the dragged task would land, if that covers this day
+  const previewSegment = useMemo(
+    () => preview
+      ? calculateTaskSegments({ ...preview.task, start: preview.start, end: preview.end }, dayRows)[0]
+      : undefined,
+    [preview, dayRows]
+  );
+
+  // Range selections extend into the day shown after hovering at the grid's edge
+  useEffect(() => {
+    if (!selection.isSelecting || !onNavigate) return;
+
+    let direction: -1 | 0 | 1 = 0;
+    let timer: number | null = null;
+    const handlePointerMove = (e: PointerEvent) => {
+      const grid = gridRef.current;
+      if (!grid || e.buttons !== 1) return;
+
+      const rect = grid.getBoundingClientRect();
+      const next = e.clientX < rect.left + EDGE_SIZE ? -1 : e.clientX > rect.right - EDGE_SIZE ? 1 : 0;
+      if (next === direction) return;
+
+      direction = next;
+      if (timer !== null) window.clearTimeout(timer);
+      timer = direction === 0 ? null : window.setTimeout(() => {
+        const target = addDays(date, direction);
+        onNavigate(target);
+        onSelectionUpdate(format(target, 'yyyy-MM-dd'));
+      }, EDGE_DWELL_MS);
+    };
+
+    document.addEventListener('pointermove', handlePointerMove);
+    return () => {
+      document.removeEventListener('pointermove', handlePointerMove);
+      if (timer !== null) window.clearTimeout(timer);
+    };
+  }, [selection.isSelecting, date, onNavigate, onSelectionUpdate]);
+
+  const visibleRange = { start: day.isoDate, end: day.isoDate };
+  const { focusedDate, handleCellFocus, handleKeyDown, handleBlur } = useGridKeyboard({
+    gridRef,
+    visibleRange,
+    defaultDate: day.isoDate,
+    weekStartsOn: settings.weekStartsOn,
+    selection,
+    onSelectionStart,
+    onSelectionUpdate,
+    onSelectionEnd,
+    onSelectionCancel,
+    onNavigate,
+    onAnnounce
+  });
+
+  const selectionRange = selection.start && selection.end
+    ? normalizeDateRange(selection.start, selection.end)
+    : null;
+
+  return (
+    <div className={styles.day}>
+      <div className={styles.dayHeader}>
+        {format(day.date, 'EEEE, MMMM d')}
+      </div>
+
+      <div
+        ref={gridRef}
+        className={styles.grid}
+        data-calendar-grid
+        role="grid"
+        aria-label={format(day.date, 'EEEE, MMMM d, yyyy')}
+        onKeyDown={handleKeyDown}
+        onBlur={handleBlur}
+      >
+        <div
+          className={styles.dayRow}
+          role="row"
+          style={{ minHeight: `${Math.max(DAY_MIN_HEIGHT, DAY_HEADER_HEIGHT + segments.length * DAY_LANE_HEIGHT + DAY_BAR_HEIGHT)}px` }}
+        >
+          <div className={styles.dayCellWrapper} data-column={0} data-date={day.isoDate}>
+            <DayCell
+              day={day}
+              isSelected={selection.start === day.isoDate}
+              isInSelectionRange={!!selectionRange && day.isoDate >= selectionRange.start && day.isoDate <= selectionRange.end}
+              isFocused={day.isoDate === focusedDate}
+              isLocked={isDateLocked(settings.lockedPeriods, day.isoDate)}
+              isNonWorking={!isWorkingDay(settings.workingCalendar, day.isoDate)}
+              dayTasks={dayTasks}
+              categories={categories}
+              onPointerDown={onSelectionStart}
+              onPointerEnter={onSelectionUpdate}
+              onFocus={handleCellFocus}
+            />
+          </div>
+          <div className={styles.taskBarsContainer}>
+            {segments.map(segment => (
+              <TaskBar
+                key={segment.task.id}
+                segment={segment}
+                category={getCategory(categories, segment.task.category)}
+                assignee={segment.task.assignee ? getTeamMember(team, segment.task.assignee) : undefined}
+                cellWidth={cellWidth}
+                barHeight={DAY_BAR_HEIGHT}
+                isDependencyViolated={violatedTaskIds.has(segment.task.id)}
+                isDragging={draggingTaskId === segment.task.id}
+                isSelected={selectedTaskIdSet.has(segment.task.id)}
+                onSelect={onTaskSelect}
+                onDragStart={startDrag}
+                onMove={onTaskMove}
+                onResize={onTaskResize}
+                validateDrop={validateDrop}
+                workingCalendarFor={workingCalendarFor}
+                onGestureStart={onGestureStart}
+                onGestureEnd={onGestureEnd}
+                onEdit={onTaskEdit}
+                onDelete={onTaskDelete}
+                onPinToggle={onTaskPinToggle}
+                onAnnounce={onAnnounce}
+              />
+            ))}
+            {dayTasks.length === 0 && (
+              <div className={styles.empty}>No tasks on this day. Click here to add one.</div>
+            )}
+          </div>
+          {preview && previewSegment && (
+            <DragGhost
+              preview={preview}
+              segment={previewSegment}
+              category={getCategory(categories, preview.task.category)}
+              cellWidth={cellWidth}
+              showLabel
+            />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
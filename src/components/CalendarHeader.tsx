@@ -0,0 +1,181 @@
+import React, { useMemo, useState } from 'react';
+import { formatPeriodTitle, getPeriodRange, shiftPeriod, dateRangesOverlap } from '../lib/dates';
+import { categoryColorStyle } from '../lib/categories';
+import type { Task, CalendarView, CategoryDefinition, WeekStartDay } from '../types';
+import { DatePickerModal } from './DatePickerModal';
+import styles from './CalendarHeader.module.css';
+
+interface CalendarHeaderProps {
+  view: CalendarView;
+  currentDate: Date;
+  tasks: Task[];
+  categories: CategoryDefinition[];
+  weekStartsOn: WeekStartDay;
+  canUndo?: boolean;
+  canRedo?: boolean;
+  onUndo?: () => void;
+  onRedo?: () => void;
+  onViewChange: (view: CalendarView) => void;
+  onDateChange: (date: Date) => void;
+}
+
+const VIEW_OPTIONS: { view: CalendarView; label: string }[] = [
+  { view: 'month', label: 'Month' },
+  { view: 'week', label: 'Week' },
+  { view: 'day', label: 'Day' },
+  { view: 'timeline', label: 'Timeline' },
+  { view: 'board', label: 'Board' }
+];
+
+export const CalendarHeader: React.FC<CalendarHeaderProps> = ({
+  view,
+  currentDate,
+  tasks,
+  categories,
+  weekStartsOn,
+  canUndo = false,
+  canRedo = false,
+  onUndo,
+  onRedo,
+  onViewChange,
+  onDateChange
+}) => {
+  const [isDatePickerOpen, setIsDatePickerOpen] = useState(false);
+
+  // Calculate task statistics for the displayed period
+  const taskStats = useMemo(() => {
+    const range = getPeriodRange(view, currentDate, weekStartsOn);
+    const periodTasks = view === 'board'
+      ? tasks
+      : tasks.filter(task => dateRangesOverlap(task, range));
+
+    const byCategory = categories
+      .map(category => ({
+        category,
+        count: periodTasks.filter(task => task.category === category.id).length
+      }))
+      .filter(stat => stat.count > 0);
+
+    return {
+      total: periodTasks.length,
+      byCategory
+    };
+  }, [tasks, categories, view, currentDate, weekStartsOn]);
+
+  const periodLabel = view === 'timeline' ? 'quarter' : view;
+  const hasPeriod = view !== 'board';
+
+  return (
+    <>
+      <div className={styles.header}>
+        <div className={styles.navigationSection}>
+          {hasPeriod && (
+            <button 
+              className={styles.navButton} 
+              onClick={() => onDateChange(shiftPeriod(view, currentDate, -1))}
+              aria-label={`Previous ${periodLabel}`}
+            >
+              ←
+            </button>
+          )}
+          <div className={styles.monthInfo}>
+            <div className={styles.monthTitle}>
+              {formatPeriodTitle(view, currentDate, weekStartsOn)}
+            </div>
+            {taskStats.total > 0 && (
+              <div className={styles.taskStats}>
+                {taskStats.total} task{taskStats.total !== 1 ? 's' : ''}
+                {taskStats.byCategory.map(({ category, count }) => (
+                  <span
+                    key={category.id}
+                    className={styles.statBadge}
+                    style={categoryColorStyle(category)}
+                    title={category.isDone ? 'Counts as done' : undefined}
+                  >
+                    {count} {category.name.toLowerCase()}
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+          {hasPeriod && (
+            <button 
+              className={styles.navButton} 
+              onClick={() => onDateChange(shiftPeriod(view, currentDate, 1))}
+              aria-label={`Next ${periodLabel}`}
+            >
+              →
+            </button>
+          )}
+        </div>
+        
+        <div className={styles.actionSection}>
+          <div className={styles.viewSwitcher} role="group" aria-label="Calendar view">
+            {VIEW_OPTIONS.map(option => (
+              <button
+                key={option.view}
+                className={`${styles.viewButton} ${view === option.view ? styles.viewButtonActive : ''}`}
+                onClick={() => onViewChange(option.view)}
+                aria-pressed={view === option.view}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          {onUndo && (
+            <button
+              className={styles.historyButton}
+              onClick={onUndo}
+              disabled={!canUndo}
+              aria-label="Undo"
+              title="Undo (Ctrl+Z)"
+            >
+              ↶
+            </button>
+          )}
+          {onRedo && (
+            <button
+              className={styles.historyButton}
+              onClick={onRedo}
+              disabled={!canRedo}
+              aria-label="Redo"
+              title="Redo (Ctrl+Shift+Z)"
+            >
+              ↷
+            </button>
+          )}
+          {hasPeriod && (
+            <>
+              <button 
+                className={styles.datePickerButton} 
+                onClick={() => setIsDatePickerOpen(true)}
+                aria-label="Open date picker"
+              >
+                📅
+              </button>
+              <button 
+                className={styles.todayButton} 
+                onClick={() => onDateChange(new Date())}
+                aria-label="Go to today"
+              >
+                Today
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      <div className={styles.helpText}>
+        Click ✏️ to edit tasks • Click + button to add new tasks
+      </div>
+
+      <DatePickerModal
+        isOpen={isDatePickerOpen}
+        currentDate={currentDate}
+        weekStartsOn={weekStartsOn}
+        onDateSelect={onDateChange}
+        onClose={() => setIsDatePickerOpen(false)}
+      />
+    </>
+  );
+};
@@ -1,49 +1,89 @@
 import React, { useRef, useEffect, useState, useMemo } from 'react';
-import { generateMonthGrid, normalizeDateRange, type WeekRow } from '../lib/dates';
-import { calculateTaskSegments, groupSegmentsByWeek, type TaskSegment } from '../lib/taskSegments';
-import { parseISO, format, addMonths, subMonths, startOfMonth, endOfMonth } from 'date-fns';
-import type { Task, SelectionState } from '../types';
+import { generateMonthGrid, getMonthGridRange, normalizeDateRange, getWeekdayLabels, getWeekNumberLabel, type WeekRow } from '../lib/dates';
+import { calculateTaskSegments, limitVisibleLanes } from '../lib/taskSegments';
+import { getDependencyLinks } from '../lib/dependencies';
+import { addMonths, format, isSameMonth, parseISO, startOfMonth } from 'date-fns';
+import type { Task, SelectionState, CategoryDefinition, CalendarSettings, TeamMember } from '../types';
+import type { TaskSelectMode } from '../lib/selection';
+import { isDateLocked, type DropValidator } from '../lib/dropValidation';
+import { isWorkingDay, type WorkingCalendarResolver } from '../lib/workingDays';
+import { getCategory } from '../lib/categories';
+import { getTeamMember } from '../lib/team';
+import { useGridKeyboard } from '../hooks/useGridKeyboard';
+import { useTaskDrag } from '../hooks/useTaskDrag';
+import { useLasso } from '../hooks/useLasso';
+import { useTaskLayout } from '../hooks/useTaskLayout';
 import { DayCell } from './DayCell';
 import { TaskBar } from './TaskBar';
-import { DatePickerModal } from './DatePickerModal';
+import { TaskOverflow } from './TaskOverflow';
+import { DragGhost } from './DragGhost';
+import { DependencyConnectors } from './DependencyConnectors';
 import styles from './CalendarMonth.module.css';
 
+const BAR_HEIGHT = 28;
+const LANE_HEIGHT = BAR_HEIGHT + 2; // matches TaskBar's stacking margin
+
 interface CalendarMonthProps {
   month: Date;
   tasks: Task[];
+  categories: CategoryDefinition[];
+  team?: TeamMember[];
+  settings: CalendarSettings;
   selection: SelectionState;
   cellWidth: number;
   onSelectionStart: (isoDate: string) => void;
   onSelectionUpdate: (isoDate: string) => void;
-  onSelectionEnd: () => void;
+  onSelectionEnd?: () => void;
+  onSelectionCancel?: () => void;
+  onNavigate?: (date: Date) => void;
+  onAnnounce?: (message: string) => void;
   onTaskMove: (taskId: string, newStartDate: string) => void;
   onTaskResize: (taskId: string, newStart: string, newEnd: string) => void;
+  onGestureStart?: () => void;
+  onGestureEnd?: () => void;
+  validateDrop?: DropValidator;
+  workingCalendarFor?: WorkingCalendarResolver; // set in working-day mode
   onTaskEdit?: (taskId: string) => void;
   onTaskDelete?: (taskId: string) => void;
-  onMonthChange: (newMonth: Date) => void;
+  onTaskPinToggle?: (taskId: string) => void;
+  selectedTaskIds?: string[];
+  onTaskSelect?: (taskId: string, mode: TaskSelectMode) => void;
+  onTaskSelectionChange?: (taskIds: string[]) => void;
 }
 
 export const CalendarMonth: React.FC<CalendarMonthProps> = ({
   month,
   tasks,
+  categories,
+  team = [],
+  settings,
   selection,
   cellWidth,
   onSelectionStart,
   onSelectionUpdate,
   onSelectionEnd,
+  onSelectionCancel,
+  onNavigate,
+  onAnnounce,
   onTaskMove,
   onTaskResize,
+  onGestureStart,
+  onGestureEnd,
+  validateDrop,
+  workingCalendarFor,
   onTaskEdit,
   onTaskDelete,
-  onMonthChange
+  onTaskPinToggle,
+  selectedTaskIds = [],
+  onTaskSelect,
+  onTaskSelectionChange
 }) => {
   const [weekRows, setWeekRows] = useState<WeekRow[]>([]);
   const gridRef = useRef<HTMLDivElement>(null);
   const [cellWidthState, setCellWidthState] = useState(cellWidth);
-  const [isDatePickerOpen, setIsDatePickerOpen] = useState(false);
 
   useEffect(() => {
-    const rows = generateMonthGrid(month);
+    const rows = generateMonthGrid(month, settings.weekStartsOn);
     setWeekRows(rows);
 
     // Calculate cell width based on container
@@ -52,30 +92,23 @@ export const CalendarMonth: React.FC<CalendarMonthProps> = ({
       const calculatedWidth = containerWidth / 7;
       setCellWidthState(calculatedWidth);
     }
-  }, [month]);
-
-  useEffect(() => {
-    const handleGlobalPointerUp = () => {
-      if (selection.isSelecting) {
-        onSelectionEnd();
-      }
-    };
+  }, [month, settings.weekStartsOn]);
 
-    document.addEventListener('pointerup', handleGlobalPointerUp);
-    return () => {
-      document.removeEventListener('pointerup', handleGlobalPointerUp);
-    };
-  }, [selection.isSelecting, onSelectionEnd]);
+  const categoryOrder = useMemo(() => categories.map(category => category.id), [categories]);
 
-  // Calculate task segments
-  const taskSegments: TaskSegment[] = [];
-  tasks.forEach(task => {
-    const segments = calculateTaskSegments(task, weekRows);
-    taskSegments.push(...segments);
-  });
+  // Task segments stacked in lanes per week, reused for weeks whose tasks didn't change
+  const weekLayouts = useTaskLayout(tasks, weekRows, settings.laneMode, categoryOrder);
+  const layoutsByWeek = useMemo(
+    () => weekLayouts.map(layout => limitVisibleLanes(layout.segments, settings.maxVisibleLanes)),
+    [weekLayouts, settings.maxVisibleLanes]
+  );
 
-  // Group segments by week and calculate row indices for stacking
-  const segmentsByWeek = groupSegmentsByWeek(taskSegments, weekRows);
+  // Dependencies between visible tasks, and successors currently starting too early
+  const dependencyLinks = useMemo(() => getDependencyLinks(tasks), [tasks]);
+  const violatedTaskIds = useMemo(
+    () => new Set(dependencyLinks.filter(link => link.isViolated).map(link => link.successorId)),
+    [dependencyLinks]
+  );
 
   // Helper to check if a date is in selection range
   const isDateInSelectionRange = (isoDate: string): boolean => {
@@ -91,139 +124,58 @@ export const CalendarMonth: React.FC<CalendarMonthProps> = ({
     return selection.start === isoDate;
   };
 
-  // Calculate task statistics for current month
-  const currentMonthTasks = useMemo(() => {
-    const monthStart = format(startOfMonth(month), 'yyyy-MM-dd');
-    const monthEnd = format(endOfMonth(month), 'yyyy-MM-dd');
-    
-    return tasks.filter(task => {
-      const taskStart = parseISO(task.start);
-      const taskEnd = parseISO(task.end);
-      const monthStartDate = parseISO(monthStart);
-      const monthEndDate = parseISO(monthEnd);
-      
-      // Task overlaps with current month
-      return taskStart <= monthEndDate && taskEnd >= monthStartDate;
-    });
-  }, [tasks, month]);
-
-  const taskStats = useMemo(() => {
-    const stats = {
-      total: currentMonthTasks.length,
-      completed: 0,
-      inProgress: 0,
-      todo: 0,
-      review: 0
-    };
-    
-    currentMonthTasks.forEach((task: Task) => {
-      switch (task.category) {
-        case 'Completed':
-          stats.completed++;
-          break;
-        case 'In Progress':
-          stats.inProgress++;
-          break;
-        case 'To Do':
-          stats.todo++;
-          break;
-        case 'Review':
-          stats.review++;
-          break;
-      }
-    });
-    
-    return stats;
-  }, [currentMonthTasks]);
-
-  const weekDayHeaders = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
-
-  const handlePreviousMonth = () => {
-    onMonthChange(subMonths(month, 1));
-  };
-
-  const handleNextMonth = () => {
-    onMonthChange(addMonths(month, 1));
-  };
+  const today = new Date();
+  const selectedTaskIdSet = useMemo(() => new Set(selectedTaskIds), [selectedTaskIds]);
+  const { lassoRect, handlePointerDownCapture } = useLasso({
+    gridRef,
+    selectedTaskIds,
+    onSelectionChange: onTaskSelectionChange
+  });
 
-  const handleRandomDate = () => {
-    setIsDatePickerOpen(true);
-  };
+  const { draggingTaskId, preview, startDrag } = useTaskDrag({
+    gridRef,
+    edgeAxis: 'vertical',
+    onMove: onTaskMove,
+    onResize: onTaskResize,
+    onGestureStart,
+    onGestureEnd,
+    onEdgeNavigate: onNavigate ? direction => onNavigate(addMonths(month, direction)) : undefined,
+    validateDrop,
+    workingCalendarFor,
+    onAnnounce
+  });
 
-  const handleDatePickerClose = () => {
-    setIsDatePickerOpen(false);
-  };
+  // Where the dragged task would land, per week row
+  const previewSegments = useMemo(() => {
+    if (!preview) return [];
+    const previewTask = { ...preview.task, start: preview.start, end: preview.end };
+    return weekRows.map(weekRow => calculateTaskSegments(previewTask, [weekRow])[0]);
+  }, [preview, weekRows]);
+  const firstPreviewWeek = previewSegments.findIndex(Boolean);
 
-  const handleDateSelect = (selectedDate: Date) => {
-    onMonthChange(selectedDate);
-  };
+  const { focusedDate, handleCellFocus, handleKeyDown, handleBlur } = useGridKeyboard({
+    gridRef,
+    visibleRange: getMonthGridRange(month, settings.weekStartsOn),
+    defaultDate: format(isSameMonth(today, month) ? today : startOfMonth(month), 'yyyy-MM-dd'),
+    weekStartsOn: settings.weekStartsOn,
+    selection,
+    onSelectionStart,
+    onSelectionUpdate,
+    onSelectionEnd,
+    onSelectionCancel,
+    onNavigate,
+    onAnnounce
+  });
 
-  const handleTodayClick = () => {
-    onMonthChange(new Date());
-  };
+  const weekDayHeaders = getWeekdayLabels(settings.weekStartsOn);
+  const showWeekNumbers = settings.weekNumbers !== 'none';
+  const weekNumbers = useMemo(
+    () => weekRows.map(weekRow => getWeekNumberLabel(weekRow, settings)),
+    [weekRows, settings]
+  );
 
   return (
-    <div className={styles.calendarContainer}>
-      <div className={styles.header}>
-        <div className={styles.navigationSection}>
-          <button 
-            className={styles.navButton} 
-            onClick={handlePreviousMonth}
-            aria-label="Previous month"
-          >
-            ←
-          </button>
-          <div className={styles.monthInfo}>
-            <div className={styles.monthTitle}>
-              {format(month, 'MMMM yyyy')}
-            </div>
-            {taskStats.total > 0 && (
-              <div className={styles.taskStats}>
-                {taskStats.total} task{taskStats.total !== 1 ? 's' : ''}
-                {taskStats.completed > 0 && (
-                  <span className={styles.statBadge} data-category="completed">
-                    {taskStats.completed} done
-                  </span>
-                )}
-                {taskStats.inProgress > 0 && (
-                  <span className={styles.statBadge} data-category="progress">
-                    {taskStats.inProgress} in progress
-                  </span>
-                )}
-              </div>
-            )}
-          </div>
-          <button 
-            className={styles.navButton} 
-            onClick={handleNextMonth}
-            aria-label="Next month"
-          >
-            →
-          </button>
-        </div>
-        
-        <div className={styles.actionSection}>
-          <button 
-            className={styles.datePickerButton} 
-            onClick={handleRandomDate}
-            aria-label="Open date picker"
-          >
-            📅
-          </button>
-          <button 
-            className={styles.todayButton} 
-            onClick={handleTodayClick}
-            aria-label="Go to today"
-          >
-            Today
-          </button>
-        </div>
-      </div>
-
-      <div className={styles.helpText}>
-        Click ✏️ to edit tasks • Click + button to add new tasks
-      </div>
-
+    <div className={`${styles.month} ${showWeekNumbers ? styles.withWeekNumbers : ''}`}>
       <div className={styles.weekHeaders}>
         {weekDayHeaders.map(day => (
           <div key={day} className={styles.weekHeader}>
@@ -232,9 +184,25 @@ export const CalendarMonth: React.FC<CalendarMonthProps> = ({
         ))}
       </div>
 
-      <div ref={gridRef} className={styles.grid} data-calendar-grid>
+      <div
+        ref={gridRef}
+        className={styles.grid}
+        style={{ '--visible-lanes': settings.maxVisibleLanes } as React.CSSProperties}
+        data-calendar-grid
+        role="grid"
+        aria-label={format(month, 'MMMM yyyy')}
+        aria-multiselectable
+        onKeyDown={handleKeyDown}
+        onBlur={handleBlur}
+        onPointerDownCapture={handlePointerDownCapture}
+      >
         {weekRows.map((weekRow, weekIndex) => (
-          <div key={weekIndex} className={styles.weekRow}>
+          <div key={weekIndex} className={styles.weekRow} role="row">
+            {weekNumbers[weekIndex] && (
+              <div className={styles.weekNumber} title={weekNumbers[weekIndex]?.title} role="rowheader">
+                {weekNumbers[weekIndex]?.label}
+              </div>
+            )}
             {weekRow.days.map((day, dayIndex) => (
               <div
                 key={day.isoDate}
@@ -247,36 +215,83 @@ export const CalendarMonth: React.FC<CalendarMonthProps> = ({
                   day={day}
                   isSelected={isDateSelected(day.isoDate)}
                   isInSelectionRange={isDateInSelectionRange(day.isoDate)}
-                  tasks={tasks}
+                  isFocused={day.isoDate === focusedDate}
+                  isLocked={isDateLocked(settings.lockedPeriods, day.isoDate)}
+                  isNonWorking={!isWorkingDay(settings.workingCalendar, day.isoDate)}
+                  dayTasks={weekLayouts[weekIndex].tasksByDay[dayIndex]}
+                  categories={categories}
                   onPointerDown={onSelectionStart}
                   onPointerEnter={onSelectionUpdate}
+                  onFocus={handleCellFocus}
                 />
               </div>
             ))}
             {/* Render task bars for this week row */}
             <div className={styles.taskBarsContainer}>
-              {segmentsByWeek.get(weekIndex)?.map(segment => (
+              {layoutsByWeek[weekIndex].visible.map(segment => (
                 <TaskBar
                   key={`${segment.task.id}-${weekIndex}-${segment.startDate}-${segment.endDate}`}
                   segment={segment}
+                  category={getCategory(categories, segment.task.category)}
+                  assignee={segment.task.assignee ? getTeamMember(team, segment.task.assignee) : undefined}
                   cellWidth={cellWidthState}
+                  barHeight={BAR_HEIGHT}
+                  isDependencyViolated={violatedTaskIds.has(segment.task.id)}
+                  isDragging={draggingTaskId === segment.task.id}
+                  isSelected={selectedTaskIdSet.has(segment.task.id)}
+                  onSelect={onTaskSelect}
+                  onDragStart={startDrag}
                   onMove={onTaskMove}
                   onResize={onTaskResize}
+                  validateDrop={validateDrop}
+                  workingCalendarFor={workingCalendarFor}
+                  onGestureStart={onGestureStart}
+                  onGestureEnd={onGestureEnd}
                   onEdit={onTaskEdit}
                   onDelete={onTaskDelete}
+                  onPinToggle={onTaskPinToggle}
+                  onAnnounce={onAnnounce}
                 />
               ))}
+              <TaskOverflow
+                days={weekRow.days}
+                hiddenByColumn={layoutsByWeek[weekIndex].hiddenByColumn}
+                categories={categories}
+                cellWidth={cellWidthState}
+                top={2 + (settings.maxVisibleLanes - 1) * LANE_HEIGHT}
+                height={BAR_HEIGHT}
+                onDragStart={startDrag}
+                onEdit={onTaskEdit}
+              />
             </div>
+            {preview && previewSegments[weekIndex] && (
+              <DragGhost
+                preview={preview}
+                segment={previewSegments[weekIndex]}
+                category={getCategory(categories, preview.task.category)}
+                cellWidth={cellWidthState}
+                showLabel={weekIndex === firstPreviewWeek}
+              />
+            )}
           </div>
         ))}
+        <DependencyConnectors
+          gridRef={gridRef}
+          links={dependencyLinks}
+          tasks={tasks}
+        />
+        {lassoRect && (
+          <div
+            className={styles.lasso}
+            style={{
+              left: `${lassoRect.left}px`,
+              top: `${lassoRect.top}px`,
+              width: `${lassoRect.width}px`,
+              height: `${lassoRect.height}px`
+            }}
+          />
+        )}
       </div>
-
-      <DatePickerModal
-        isOpen={isDatePickerOpen}
-        currentDate={month}
-        onDateSelect={handleDateSelect}
-        onClose={handleDatePickerClose}
-      />
     </div>
   );
 };
@@ -0,0 +1,341 @@
+import React, { useRef, useState } from 'react';
+import { format } from 'date-fns';
+import type { CalendarSettings, DurationMode, Holiday, LaneMode, LockedPeriod, WeekNumbering, WeekStartDay } from '../types';
+import { formatDateDisplay, getWeekdayLabels, shiftIsoDate } from '../lib/dates';
+import { MIN_VISIBLE_LANES, MAX_VISIBLE_LANES } from '../lib/settings';
+import { mergeHolidays } from '../lib/workingDays';
+import { importHolidaysFromIcs } from '../lib/ics';
+import { WorkingDaysPicker } from './WorkingDaysPicker';
+import styles from './CalendarSettingsSection.module.css';
+
+interface CalendarSettingsSectionProps {
+  settings: CalendarSettings;
+  onSettingsChange: (settings: CalendarSettings) => void;
+}
+
+const WEEK_NUMBERING_OPTIONS: { value: WeekNumbering; label: string }[] = [
+  { value: 'none', label: 'Hidden' },
+  { value: 'iso', label: 'ISO 8601' },
+  { value: 'fiscal-445', label: 'Fiscal (4-4-5)' }
+];
+
+const LANE_MODE_OPTIONS: { value: LaneMode; label: string }[] = [
+  { value: 'compact', label: 'Compact each week' },
+  { value: 'stable', label: 'Keep tasks in one row across weeks' }
+];
+
+const DURATION_MODE_OPTIONS: { value: DurationMode; label: string }[] = [
+  { value: 'calendar', label: 'Calendar days' },
+  { value: 'working', label: 'Working days' }
+];
+
+// Weekday names starting from Sunday, indexed by WeekStartDay
+const WEEKDAY_NAMES = getWeekdayLabels(0, 'EEEE');
+const MONTH_NAMES = Array.from({ length: 12 }, (_, month) => format(new Date(2000, month, 1), 'MMMM'));
+const LANE_OPTIONS = Array.from({ length: MAX_VISIBLE_LANES - MIN_VISIBLE_LANES + 1 }, (_, i) => MIN_VISIBLE_LANES + i);
+
+export const CalendarSettingsSection: React.FC<CalendarSettingsSectionProps> = ({
+  settings,
+  onSettingsChange
+}) => {
+  const [holidayImportMessages, setHolidayImportMessages] = useState<string[]>([]);
+  const holidayInputRef = useRef<HTMLInputElement>(null);
+
+  const setHolidays = (holidays: Holiday[]) => {
+    onSettingsChange({
+      ...settings,
+      workingCalendar: { ...settings.workingCalendar, holidays }
+    });
+  };
+
+  const addHoliday = () => {
+    // Default to the day after the last holiday so each new one gets its own date
+    const { holidays } = settings.workingCalendar;
+    const date = holidays.length > 0
+      ? shiftIsoDate(holidays[holidays.length - 1].date, 1)
+      : format(new Date(), 'yyyy-MM-dd');
+    setHolidays(mergeHolidays(holidays, [{ date, name: 'Holiday' }]));
+  };
+
+  const updateHoliday = (date: string, changes: Partial<Holiday>) => {
+    const holidays = settings.workingCalendar.holidays;
+    const holiday = holidays.find(h => h.date === date);
+    if (!holiday) return;
+    setHolidays(mergeHolidays(holidays.filter(h => h !== holiday), [{ ...holiday, ...changes }]));
+  };
+
+  const handleHolidayFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // allow re-importing the same file
+    if (!file) return;
+
+    try {
+      const result = importHolidaysFromIcs(await file.text());
+      if (result.holidays.length > 0) {
+        setHolidays(mergeHolidays(settings.workingCalendar.holidays, result.holidays));
+      }
+      setHolidayImportMessages([
+        `${result.holidays.length} holiday${result.holidays.length !== 1 ? 's' : ''} imported from ${file.name}`,
+        ...result.warnings
+      ]);
+    } catch (err) {
+      setHolidayImportMessages([`Could not read ${file.name}: ${err instanceof Error ? err.message : String(err)}`]);
+    }
+  };
+
+  const updateLockedPeriod = (id: string, changes: Partial<LockedPeriod>) => {
+    onSettingsChange({
+      ...settings,
+      lockedPeriods: settings.lockedPeriods.map(period => {
+        if (period.id !== id) return period;
+        const next = { ...period, ...changes };
+        // Keep the range valid by moving the other end along
+        if (next.start > next.end) {
+          return changes.start ? { ...next, end: next.start } : { ...next, start: next.end };
+        }
+        return next;
+      })
+    });
+  };
+
+  const addLockedPeriod = () => {
+    const start = format(new Date(), 'yyyy-MM-dd');
+    onSettingsChange({
+      ...settings,
+      lockedPeriods: [
+        ...settings.lockedPeriods,
+        { id: `locked-${Date.now()}-${Math.random()}`, name: 'Locked', start, end: shiftIsoDate(start, 6) }
+      ]
+    });
+  };
+
+  const removeLockedPeriod = (id: string) => {
+    onSettingsChange({
+      ...settings,
+      lockedPeriods: settings.lockedPeriods.filter(period => period.id !== id)
+    });
+  };
+
+  return (
+    <div className={styles.section}>
+      <label className={styles.label}>Calendar</label>
+
+      <label className={styles.field}>
+        <span>Week starts on</span>
+        <select
+          className={styles.select}
+          value={settings.weekStartsOn}
+          onChange={(e) => onSettingsChange({
+            ...settings,
+            weekStartsOn: Number(e.target.value) as WeekStartDay
+          })}
+        >
+          {WEEKDAY_NAMES.map((name, weekday) => (
+            <option key={weekday} value={weekday}>{name}</option>
+          ))}
+        </select>
+      </label>
+
+      <label className={styles.field}>
+        <span>Week numbers</span>
+        <select
+          className={styles.select}
+          value={settings.weekNumbers}
+          onChange={(e) => onSettingsChange({
+            ...settings,
+            weekNumbers: e.target.value as WeekNumbering
+          })}
+        >
+          {WEEK_NUMBERING_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </label>
+
+      {settings.weekNumbers === 'fiscal-445' && (
+        <label className={styles.field}>
+          <span>Fiscal year starts in</span>
+          <select
+            className={styles.select}
+            value={settings.fiscalYearStartMonth}
+            onChange={(e) => onSettingsChange({
+              ...settings,
+              fiscalYearStartMonth: Number(e.target.value)
+            })}
+          >
+            {MONTH_NAMES.map((name, month) => (
+              <option key={month} value={month}>{name}</option>
+            ))}
+          </select>
+        </label>
+      )}
+
+      <label className={styles.field}>
+        <span>Task rows per week (month view)</span>
+        <select
+          className={styles.select}
+          value={settings.maxVisibleLanes}
+          onChange={(e) => onSettingsChange({
+            ...settings,
+            maxVisibleLanes: Number(e.target.value)
+          })}
+        >
+          {LANE_OPTIONS.map(lanes => (
+            <option key={lanes} value={lanes}>{lanes}</option>
+          ))}
+        </select>
+      </label>
+
+      <label className={styles.field}>
+        <span>Task row layout</span>
+        <select
+          className={styles.select}
+          value={settings.laneMode}
+          onChange={(e) => onSettingsChange({
+            ...settings,
+            laneMode: e.target.value as LaneMode
+          })}
+        >
+          {LANE_MODE_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </label>
+
+      <label className={styles.field}>
+        <span>Task durations</span>
+        <select
+          className={styles.select}
+          value={settings.durationMode}
+          onChange={(e) => onSettingsChange({
+            ...settings,
+            durationMode: e.target.value as DurationMode
+          })}
+        >
+          {DURATION_MODE_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </label>
+
+      <label className={styles.field}>
+        <span>Complete tasks when every checklist item is checked</span>
+        <input
+          type="checkbox"
+          checked={settings.completeWithChecklist}
+          onChange={(e) => onSettingsChange({
+            ...settings,
+            completeWithChecklist: e.target.checked
+          })}
+        />
+      </label>
+
+      <div className={styles.subsection}>
+        <span className={styles.subsectionLabel}>Working days</span>
+        <p className={styles.hint}>
+          Other days are shaded{settings.durationMode === 'working' ? ', and left out of task durations' : ''}.
+        </p>
+        <WorkingDaysPicker
+          weekendDays={settings.workingCalendar.weekendDays}
+          weekStartsOn={settings.weekStartsOn}
+          label="Working days"
+          onChange={weekendDays => onSettingsChange({
+            ...settings,
+            workingCalendar: { ...settings.workingCalendar, weekendDays }
+          })}
+        />
+      </div>
+
+      <div className={styles.subsection}>
+        <span className={styles.subsectionLabel}>Holidays</span>
+        {settings.workingCalendar.holidays.map(holiday => (
+          <div key={holiday.date} className={styles.holiday}>
+            <input
+              className={styles.input}
+              value={holiday.name}
+              onChange={(e) => updateHoliday(holiday.date, { name: e.target.value })}
+              aria-label={`Holiday on ${formatDateDisplay(holiday.date)}`}
+            />
+            <input
+              type="date"
+              className={styles.input}
+              value={holiday.date}
+              onChange={(e) => e.target.value && updateHoliday(holiday.date, { date: e.target.value })}
+              aria-label={`${holiday.name} date`}
+            />
+            <button
+              className={styles.removeButton}
+              onClick={() => setHolidays(settings.workingCalendar.holidays.filter(h => h.date !== holiday.date))}
+              aria-label={`Remove ${holiday.name}`}
+              title="Remove"
+            >
+              ×
+            </button>
+          </div>
+        ))}
+        <div className={styles.buttonRow}>
+          <button className={styles.addButton} onClick={addHoliday}>
+            + Add holiday
+          </button>
+          <button className={styles.addButton} onClick={() => holidayInputRef.current?.click()}>
+            Import .ics
+          </button>
+          <input
+            ref={holidayInputRef}
+            type="file"
+            accept=".ics,text/calendar"
+            className={styles.fileInput}
+            onChange={handleHolidayFileChange}
+          />
+        </div>
+        {holidayImportMessages.length > 0 && (
+          <ul className={styles.importMessages}>
+            {holidayImportMessages.map((message, index) => (
+              <li key={index}>{message}</li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className={styles.subsection}>
+        <span className={styles.subsectionLabel}>Locked periods</span>
+        <p className={styles.hint}>Tasks can't be dragged into or out of these dates.</p>
+        {settings.lockedPeriods.map(period => (
+          <div key={period.id} className={styles.lockedPeriod}>
+            <input
+              className={styles.input}
+              value={period.name}
+              onChange={(e) => updateLockedPeriod(period.id, { name: e.target.value })}
+              aria-label="Locked period name"
+            />
+            <input
+              type="date"
+              className={styles.input}
+              value={period.start}
+              onChange={(e) => e.target.value && updateLockedPeriod(period.id, { start: e.target.value })}
+              aria-label={`${period.name} start`}
+            />
+            <input
+              type="date"
+              className={styles.input}
+              value={period.end}
+              onChange={(e) => e.target.value && updateLockedPeriod(period.id, { end: e.target.value })}
+              aria-label={`${period.name} end`}
+            />
+            <button
+              className={styles.removeButton}
+              onClick={() => removeLockedPeriod(period.id)}
+              aria-label={`Remove ${period.name}`}
+              title="Remove"
+            >
+              ×
+            </button>
+          </div>
+        ))}
+        <button className={styles.addButton} onClick={addLockedPeriod}>
+          + Add locked period
+        </button>
+      </div>
+    </div>
+  );
+};
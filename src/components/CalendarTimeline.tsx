@@ -0,0 +1,290 @@
+import React, { useCallback, useMemo, useRef, useState } from 'react';
+import { differenceInDays, eachDayOfInterval, format, parseISO } from 'date-fns';
+import { getPeriodRange, dayCountInclusive, shiftIsoDate } from '../lib/dates';
+import { calculateRowIndices, type TaskSegment } from '../lib/taskSegments';
+import { categoryColorStyle, getCategory } from '../lib/categories';
+import type { DropValidator } from '../lib/dropValidation';
+import type { WorkingCalendarResolver } from '../lib/workingDays';
+import type { Task, CategoryDefinition } from '../types';
+import { useTaskDrag } from '../hooks/useTaskDrag';
+import { DragGhost } from './DragGhost';
+import styles from './CalendarTimeline.module.css';
+
+interface CalendarTimelineProps {
+  date: Date;
+  tasks: Task[];
+  categories: CategoryDefinition[];
+  onTaskMove: (taskId: string, newStartDate: string) => void;
+  onTaskResize: (taskId: string, newStart: string, newEnd: string) => void;
+  onGestureStart?: () => void;
+  onGestureEnd?: () => void;
+  validateDrop?: DropValidator;
+  workingCalendarFor?: WorkingCalendarResolver; // set in working-day mode
+  onAnnounce?: (message: string) => void;
+  onTaskEdit?: (taskId: string) => void;
+}
+
+type TimelineScale = 'day' | 'week' | 'month';
+type TimelineGrouping = 'task' | 'category';
+
+// Pixel width of a single day at each zoom level
+const DAY_WIDTH: Record<TimelineScale, number> = {
+  day: 36,
+  week: 12,
+  month: 4
+};
+
+const BAR_HEIGHT = 24;
+const BAR_GAP = 6;
+
+interface Lane {
+  key: string;
+  label: string;
+  segments: TaskSegment[];
+  rowCount: number;
+}
+
+export const CalendarTimeline: React.FC<CalendarTimelineProps> = ({
+  date,
+  tasks,
+  categories,
+  onTaskMove,
+  onTaskResize,
+  onGestureStart,
+  onGestureEnd,
+  validateDrop,
+  workingCalendarFor,
+  onAnnounce,
+  onTaskEdit
+}) => {
+  const [scale, setScale] = useState<TimelineScale>('week');
+  const [grouping, setGrouping] = useState<TimelineGrouping>('task');
+  const scrollerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLDivElement>(null);
+
+  const range = useMemo(() => getPeriodRange('timeline', date), [date]);
+  const rangeStart = parseISO(range.start);
+  const days = useMemo(
+    () => eachDayOfInterval({ start: parseISO(range.start), end: parseISO(range.end) }),
+    [range]
+  );
+  const dayWidth = DAY_WIDTH[scale];
+
+  // Lay a task out as a segment whose columns are days since the range start
+  const toSegment = useCallback((task: Task): TaskSegment => {
+    const start = task.start < range.start ? range.start : task.start;
+    const end = task.end > range.end ? range.end : task.end;
+    return {
+      task,
+      startDate: start,
+      endDate: end,
+      startColumn: differenceInDays(parseISO(start), parseISO(range.start)),
+      widthInColumns: dayCountInclusive(start, end),
+      rowIndex: 0
+    };
+  }, [range]);
+
+  const lanes = useMemo<Lane[]>(() => {
+    const visible = tasks
+      .filter(task => task.start <= range.end && task.end >= range.start)
+      .sort((a, b) => a.start.localeCompare(b.start) || a.name.localeCompare(b.name));
+
+    if (grouping === 'task') {
+      return visible.map(task => ({
+        key: task.id,
+        label: task.name,
+        segments: [toSegment(task)],
+        rowCount: 1
+      }));
+    }
+
+    return categories.map(category => {
+      const segments = calculateRowIndices(
+        visible.filter(task => task.category === category.id).map(toSegment)
+      );
+      return {
+        key: category.id,
+        label: category.name,
+        segments,
+        rowCount: Math.max(1, ...segments.map(s => s.rowIndex + 1))
+      };
+    });
+  }, [tasks, categories, range, grouping, toSegment]);
+
+  // Month labels across the top of the scale
+  const months = useMemo(() => {
+    const result: { label: string; offset: number; width: number }[] = [];
+    days.forEach((day, index) => {
+      if (index === 0 || day.getDate() === 1) {
+        result.push({ label: format(day, 'MMMM yyyy'), offset: index, width: 0 });
+      }
+      result[result.length - 1].width++;
+    });
+    return result;
+  }, [days]);
+
+  // The timeline has no day cells, so the day under the pointer comes from its offset
+  // into the canvas. Points beside the visible part are clamped to its edge.
+  const dateAtPoint = useCallback((clientX: number) => {
+    const scroller = scrollerRef.current;
+    const canvas = canvasRef.current;
+    if (!scroller || !canvas) return null;
+
+    const visible = scroller.getBoundingClientRect();
+    const x = Math.min(Math.max(clientX, visible.left + 1), visible.right - 1);
+    const index = Math.floor((x - canvas.getBoundingClientRect().left) / dayWidth);
+    return shiftIsoDate(range.start, Math.min(Math.max(index, 0), days.length - 1));
+  }, [dayWidth, range, days.length]);
+
+  const { draggingTaskId, preview, startDrag } = useTaskDrag({
+    gridRef: scrollerRef,
+    edgeAxis: 'horizontal',
+    onMove: onTaskMove,
+    onResize: onTaskResize,
+    onGestureStart,
+    onGestureEnd,
+    validateDrop,
+    workingCalendarFor,
+    onAnnounce,
+    dateAtPoint
+  });
+
+  // Where the dragged task would land, if that is in the visible period
+  const previewSegment = useMemo(
+    () => preview && preview.start <= range.end && preview.end >= range.start
+      ? toSegment({ ...preview.task, start: preview.start, end: preview.end })
+      : undefined,
+    [preview, range, toSegment]
+  );
+
+  const todayOffset = differenceInDays(new Date(), rangeStart);
+  const totalWidth = days.length * dayWidth;
+
+  return (
+    <div className={styles.timeline}>
+      <div className={styles.toolbar}>
+        <label className={styles.toolbarField}>
+          Zoom
+          <select value={scale} onChange={(e) => setScale(e.target.value as TimelineScale)}>
+            <option value="day">Days</option>
+            <option value="week">Weeks</option>
+            <option value="month">Months</option>
+          </select>
+        </label>
+        <label className={styles.toolbarField}>
+          Lanes
+          <select value={grouping} onChange={(e) => setGrouping(e.target.value as TimelineGrouping)}>
+            <option value="task">One per task</option>
+            <option value="category">One per category</option>
+          </select>
+        </label>
+      </div>
+
+      <div className={styles.body}>
+        <div className={styles.labels}>
+          <div className={styles.scaleSpacer} />
+          {lanes.map(lane => (
+            <div
+              key={lane.key}
+              className={styles.laneLabel}
+              style={{ height: `${lane.rowCount * (BAR_HEIGHT + BAR_GAP) + BAR_GAP}px` }}
+              title={lane.label}
+            >
+              {lane.label}
+            </div>
+          ))}
+        </div>
+
+        <div ref={scrollerRef} className={styles.scroller}>
+          <div ref={canvasRef} className={styles.canvas} style={{ width: `${totalWidth}px` }}>
+            <div className={styles.scale}>
+              <div className={styles.scaleRow}>
+                {months.map(month => (
+                  <div
+                    key={month.label}
+                    className={styles.scaleMonth}
+                    style={{ left: `${month.offset * dayWidth}px`, width: `${month.width * dayWidth}px` }}
+                  >
+                    {month.label}
+                  </div>
+                ))}
+              </div>
+              {scale !== 'month' && (
+                <div className={styles.scaleRow}>
+                  {days.map((day, index) => {
+                    const showTick = scale === 'day' || day.getDay() === 1;
+                    if (!showTick) return null;
+                    return (
+                      <div
+                        key={index}
+                        className={styles.scaleTick}
+                        style={{ left: `${index * dayWidth}px`, width: `${(scale === 'day' ? 1 : 7) * dayWidth}px` }}
+                      >
+                        {format(day, 'd')}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+
+            {todayOffset >= 0 && todayOffset < days.length && (
+              <div className={styles.todayLine} style={{ left: `${todayOffset * dayWidth + dayWidth / 2}px` }} />
+            )}
+
+            {lanes.map(lane => (
+              <div
+                key={lane.key}
+                className={styles.lane}
+                style={{ height: `${lane.rowCount * (BAR_HEIGHT + BAR_GAP) + BAR_GAP}px` }}
+              >
+                {lane.segments.map(segment => (
+                  <div
+                    key={segment.task.id}
+                    className={`${styles.bar} ${draggingTaskId === segment.task.id ? styles.dragging : ''}`}
+                    data-category={segment.task.category}
+                    style={{
+                      ...categoryColorStyle(getCategory(categories, segment.task.category)),
+                      left: `${segment.startColumn * dayWidth}px`,
+                      width: `${Math.max(segment.widthInColumns * dayWidth - 2, 4)}px`,
+                      top: `${BAR_GAP + segment.rowIndex * (BAR_HEIGHT + BAR_GAP)}px`,
+                      height: `${BAR_HEIGHT}px`
+                    }}
+                    title={`${segment.task.name} (${segment.task.start} – ${segment.task.end})`}
+                    onPointerDown={e => startDrag(segment.task, 'move', e)}
+                    onDoubleClick={() => onTaskEdit?.(segment.task.id)}
+                  >
+                    <div className={styles.handle} onPointerDown={e => startDrag(segment.task, 'resize-start', e)} />
+                    <span className={styles.barLabel}>{segment.task.name}</span>
+                    <div className={styles.handle} onPointerDown={e => startDrag(segment.task, 'resize-end', e)} />
+                  </div>
+                ))}
+                {preview && previewSegment && lane.segments
+                  .filter(segment => segment.task.id === preview.task.id)
+                  .map(segment => (
+                    <div
+                      key="ghost"
+                      className={styles.ghostRow}
+                      style={{ top: `${BAR_GAP + segment.rowIndex * (BAR_HEIGHT + BAR_GAP)}px`, height: `${BAR_HEIGHT}px` }}
+                    >
+                      <DragGhost
+                        preview={preview}
+                        segment={previewSegment}
+                        category={getCategory(categories, preview.task.category)}
+                        cellWidth={dayWidth}
+                        showLabel
+                      />
+                    </div>
+                  ))}
+              </div>
+            ))}
+
+            {lanes.length === 0 && (
+              <div className={styles.empty}>No tasks in this period</div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
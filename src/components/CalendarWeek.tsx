@@ -0,0 +1,267 @@
+import React, { useRef, useEffect, useState, useMemo } from 'react';
+import { addWeeks, format } from 'date-fns';
+import { generateWeekRow, normalizeDateRange, getWeekNumberLabel } from '../lib/dates';
+import { calculateTaskSegments, limitVisibleLanes } from '../lib/taskSegments';
+import { getDependencyLinks } from '../lib/dependencies';
+import type { Task, SelectionState, CategoryDefinition, CalendarSettings, TeamMember } from '../types';
+import type { TaskSelectMode } from '../lib/selection';
+import { isDateLocked, type DropValidator } from '../lib/dropValidation';
+import { isWorkingDay, type WorkingCalendarResolver } from '../lib/workingDays';
+import { getCategory } from '../lib/categories';
+import { getTeamMember } from '../lib/team';
+import { useGridKeyboard } from '../hooks/useGridKeyboard';
+import { useTaskDrag } from '../hooks/useTaskDrag';
+import { useLasso } from '../hooks/useLasso';
+import { useTaskLayout } from '../hooks/useTaskLayout';
+import { DayCell } from './DayCell';
+import { TaskBar } from './TaskBar';
+import { TaskOverflow } from './TaskOverflow';
+import { DragGhost } from './DragGhost';
+import { DependencyConnectors } from './DependencyConnectors';
+import styles from './CalendarWeek.module.css';
+
+interface CalendarWeekProps {
+  date: Date;
+  tasks: Task[];
+  categories: CategoryDefinition[];
+  team?: TeamMember[];
+  settings: CalendarSettings;
+  selection: SelectionState;
+  onSelectionStart: (isoDate: string) => void;
+  onSelectionUpdate: (isoDate: string) => void;
+  onSelectionEnd?: () => void;
+  onSelectionCancel?: () => void;
+  onNavigate?: (date: Date) => void;
+  onAnnounce?: (message: string) => void;
+  onTaskMove: (taskId: string, newStartDate: string) => void;
+  onTaskResize: (taskId: string, newStart: string, newEnd: string) => void;
+  onGestureStart?: () => void;
+  onGestureEnd?: () => void;
+  validateDrop?: DropValidator;
+  workingCalendarFor?: WorkingCalendarResolver; // set in working-day mode
+  onTaskEdit?: (taskId: string) => void;
+  onTaskDelete?: (taskId: string) => void;
+  onTaskPinToggle?: (taskId: string) => void;
+  selectedTaskIds?: string[];
+  onTaskSelect?: (taskId: string, mode: TaskSelectMode) => void;
+  onTaskSelectionChange?: (taskIds: string[]) => void;
+}
+
+const WEEK_BAR_HEIGHT = 40;
+const WEEK_LANE_HEIGHT = WEEK_BAR_HEIGHT + 2; // matches TaskBar's stacking margin
+const WEEK_MAX_LANES = 10; // lanes that fit the minimum week row height
+
+export const CalendarWeek: React.FC<CalendarWeekProps> = ({
+  date,
+  tasks,
+  categories,
+  team = [],
+  settings,
+  selection,
+  onSelectionStart,
+  onSelectionUpdate,
+  onSelectionEnd,
+  onSelectionCancel,
+  onNavigate,
+  onAnnounce,
+  onTaskMove,
+  onTaskResize,
+  onGestureStart,
+  onGestureEnd,
+  validateDrop,
+  workingCalendarFor,
+  onTaskEdit,
+  onTaskDelete,
+  onTaskPinToggle,
+  selectedTaskIds = [],
+  onTaskSelect,
+  onTaskSelectionChange
+}) => {
+  const gridRef = useRef<HTMLDivElement>(null);
+  const [cellWidth, setCellWidth] = useState(150);
+
+  const weekRow = useMemo(() => generateWeekRow(date, settings.weekStartsOn), [date, settings.weekStartsOn]);
+  const weekNumber = getWeekNumberLabel(weekRow, settings);
+
+  useEffect(() => {
+    // Calculate cell width based on container
+    if (gridRef.current) {
+      setCellWidth(gridRef.current.offsetWidth / 7);
+    }
+  }, [weekRow]);
+
+  const categoryOrder = useMemo(() => categories.map(category => category.id), [categories]);
+  const weekRows = useMemo(() => [weekRow], [weekRow]);
+  const [weekLayout] = useTaskLayout(tasks, weekRows, settings.laneMode, categoryOrder);
+  const layout = useMemo(() => limitVisibleLanes(weekLayout.segments, WEEK_MAX_LANES), [weekLayout]);
+
+  const dependencyLinks = useMemo(() => getDependencyLinks(tasks), [tasks]);
+  const violatedTaskIds = useMemo(
+    () => new Set(dependencyLinks.filter(link => link.isViolated).map(link => link.successorId)),
+    [dependencyLinks]
+  );
+
+  const todayIso = format(new Date(), 'yyyy-MM-dd');
+  const visibleRange = { start: weekRow.days[0].isoDate, end: weekRow.days[6].isoDate };
+  const selectedTaskIdSet = useMemo(() => new Set(selectedTaskIds), [selectedTaskIds]);
+  const { lassoRect, handlePointerDownCapture } = useLasso({
+    gridRef,
+    selectedTaskIds,
+    onSelectionChange: onTaskSelectionChange
+  });
+
+  const { draggingTaskId, preview, startDrag } = useTaskDrag({
+    gridRef,
+    edgeAxis: 'horizontal',
+    onMove: onTaskMove,
+    onResize: onTaskResize,
+    onGestureStart,
+    onGestureEnd,
+    onEdgeNavigate: onNavigate ? direction => onNavigate(addWeeks(date, direction)) : undefined,
+    validateDrop,
+    workingCalendarFor,
+    onAnnounce
+  });
+
+  // Where the dragged task would land, if that is in this week
+  const previewSegment = useMemo(
+    () => preview
+      ? calculateTaskSegments({ ...preview.task, start: preview.start, end: preview.end }, weekRows)[0]
+      : undefined,
+    [preview, weekRows]
+  );
+
+  const { focusedDate, handleCellFocus, handleKeyDown, handleBlur } = useGridKeyboard({
+    gridRef,
+    visibleRange,
+    defaultDate: todayIso >= visibleRange.start && todayIso <= visibleRange.end ? todayIso : visibleRange.start,
+    weekStartsOn: settings.weekStartsOn,
+    selection,
+    onSelectionStart,
+    onSelectionUpdate,
+    onSelectionEnd,
+    onSelectionCancel,
+    onNavigate,
+    onAnnounce
+  });
+
+  const selectionRange = selection.start && selection.end
+    ? normalizeDateRange(selection.start, selection.end)
+    : null;
+
+  return (
+    <div className={`${styles.week} ${weekNumber ? styles.withWeekNumbers : ''}`}>
+      <div className={styles.weekHeaders}>
+        {weekRow.days.map(day => (
+          <div key={day.isoDate} className={styles.weekHeader}>
+            {format(day.date, 'EEE d')}
+          </div>
+        ))}
+      </div>
+
+      <div
+        ref={gridRef}
+        className={styles.grid}
+        data-calendar-grid
+        role="grid"
+        aria-label={`Week of ${format(weekRow.startDate, 'MMMM d, yyyy')}`}
+        aria-multiselectable
+        onKeyDown={handleKeyDown}
+        onBlur={handleBlur}
+        onPointerDownCapture={handlePointerDownCapture}
+      >
+        <div className={styles.weekRow} role="row">
+          {weekNumber && (
+            <div className={styles.weekNumber} title={weekNumber.title} role="rowheader">
+              {weekNumber.label}
+            </div>
+          )}
+          {weekRow.days.map((day, dayIndex) => (
+            <div
+              key={day.isoDate}
+              className={styles.dayCellWrapper}
+              data-column={dayIndex}
+              data-date={day.isoDate}
+            >
+              <DayCell
+                day={day}
+                isSelected={selection.start === day.isoDate}
+                isInSelectionRange={!!selectionRange && day.isoDate >= selectionRange.start && day.isoDate <= selectionRange.end}
+                isFocused={day.isoDate === focusedDate}
+                isLocked={isDateLocked(settings.lockedPeriods, day.isoDate)}
+                isNonWorking={!isWorkingDay(settings.workingCalendar, day.isoDate)}
+                dayTasks={weekLayout.tasksByDay[dayIndex]}
+                categories={categories}
+                onPointerDown={onSelectionStart}
+                onPointerEnter={onSelectionUpdate}
+                onFocus={handleCellFocus}
+              />
+            </div>
+          ))}
+          <div className={styles.taskBarsContainer}>
+            {layout.visible.map(segment => (
+              <TaskBar
+                key={`${segment.task.id}-${segment.startDate}-${segment.endDate}`}
+                segment={segment}
+                category={getCategory(categories, segment.task.category)}
+                assignee={segment.task.assignee ? getTeamMember(team, segment.task.assignee) : undefined}
+                cellWidth={cellWidth}
+                barHeight={WEEK_BAR_HEIGHT}
+                isDependencyViolated={violatedTaskIds.has(segment.task.id)}
+                isDragging={draggingTaskId === segment.task.id}
+                isSelected={selectedTaskIdSet.has(segment.task.id)}
+                onSelect={onTaskSelect}
+                onDragStart={startDrag}
+                onMove={onTaskMove}
+                onResize={onTaskResize}
+                validateDrop={validateDrop}
+                workingCalendarFor={workingCalendarFor}
+                onGestureStart={onGestureStart}
+                onGestureEnd={onGestureEnd}
+                onEdit={onTaskEdit}
+                onDelete={onTaskDelete}
+                onPinToggle={onTaskPinToggle}
+                onAnnounce={onAnnounce}
+              />
+            ))}
+            <TaskOverflow
+              days={weekRow.days}
+              hiddenByColumn={layout.hiddenByColumn}
+              categories={categories}
+              cellWidth={cellWidth}
+              top={2 + (WEEK_MAX_LANES - 1) * WEEK_LANE_HEIGHT}
+              height={WEEK_BAR_HEIGHT}
+              onDragStart={startDrag}
+              onEdit={onTaskEdit}
+            />
+          </div>
+          {preview && previewSegment && (
+            <DragGhost
+              preview={preview}
+              segment={previewSegment}
+              category={getCategory(categories, preview.task.category)}
+              cellWidth={cellWidth}
+              showLabel
+            />
+          )}
+        </div>
+        <DependencyConnectors
+          gridRef={gridRef}
+          links={dependencyLinks}
+          tasks={tasks}
+        />
+        {lassoRect && (
+          <div
+            className={styles.lasso}
+            style={{
+              left: `${lassoRect.left}px`,
+              top: `${lassoRect.top}px`,
+              width: `${lassoRect.width}px`,
+              height: `${lassoRect.height}px`
+            }}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,174 @@
+import React, { useMemo, useState } from 'react';
+import type { CategoryDefinition } from '../types';
+import { createCategoryId } from '../lib/categories';
+import styles from './CategorySettingsModal.module.css';
+
+interface CategorySettingsModalProps {
+  categories: CategoryDefinition[];
+  usage: Map<string, number>; // task count per category id
+  onSave: (categories: CategoryDefinition[]) => void;
+  onClose: () => void;
+}
+
+const NEW_CATEGORY_COLOR = '#607d8b';
+
+/**
+ * Describe the first problem with the edited categories, or null if they can be saved
+ */
+function validateDraft(draft: CategoryDefinition[]): string | null {
+  if (draft.length === 0) {
+    return 'At least one category is required';
+  }
+
+  const seenNames = new Set<string>();
+  for (const category of draft) {
+    const name = category.name.trim().toLowerCase();
+    if (!name) return 'Every category needs a name';
+    if (seenNames.has(name)) return `"${category.name.trim()}" is used more than once`;
+    seenNames.add(name);
+  }
+
+  return null;
+}
+
+export const CategorySettingsModal: React.FC<CategorySettingsModalProps> = ({
+  categories,
+  usage,
+  onSave,
+  onClose
+}) => {
+  const [draft, setDraft] = useState<CategoryDefinition[]>(categories);
+  const error = useMemo(() => validateDraft(draft), [draft]);
+
+  const updateCategory = (id: string, changes: Partial<CategoryDefinition>) => {
+    setDraft(prev => prev.map(category => (category.id === id ? { ...category, ...changes } : category)));
+  };
+
+  const moveCategory = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= draft.length) return;
+    const reordered = [...draft];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setDraft(reordered);
+  };
+
+  const handleAdd = () => {
+    const name = 'New category';
+    setDraft(prev => [
+      ...prev,
+      { id: createCategoryId(name, [...categories, ...prev]), name, color: NEW_CATEGORY_COLOR, isDone: false }
+    ]);
+  };
+
+  const handleRemove = (id: string) => {
+    setDraft(prev => prev.filter(category => category.id !== id));
+  };
+
+  const handleSave = () => {
+    if (error) return;
+    onSave(draft.map(category => ({ ...category, name: category.name.trim() })));
+    onClose();
+  };
+
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget) {
+      onClose();
+    }
+  };
+
+  return (
+    <div className={styles.backdrop} onClick={handleBackdropClick}>
+      <div className={styles.modal} role="dialog" aria-modal="true" aria-labelledby="category-settings-title">
+        <h2 id="category-settings-title" className={styles.title}>Categories</h2>
+        <div className={styles.subtitle}>
+          Order here is the order of board columns and filters. Tasks in a “done” category count as finished.
+        </div>
+
+        <ul className={styles.list}>
+          {draft.map((category, index) => {
+            const taskCount = usage.get(category.id) ?? 0;
+            return (
+              <li key={category.id} className={styles.row}>
+                <input
+                  type="color"
+                  className={styles.colorInput}
+                  value={category.color}
+                  onChange={(e) => updateCategory(category.id, { color: e.target.value })}
+                  aria-label={`Color for ${category.name}`}
+                />
+                <input
+                  type="text"
+                  className={styles.nameInput}
+                  value={category.name}
+                  onChange={(e) => updateCategory(category.id, { name: e.target.value })}
+                  aria-label="Category name"
+                />
+                <label className={styles.doneLabel}>
+                  <input
+                    type="checkbox"
+                    checked={category.isDone}
+                    onChange={() => updateCategory(category.id, { isDone: !category.isDone })}
+                  />
+                  <span>Done</span>
+                </label>
+                <span className={styles.usage}>
+                  {taskCount} task{taskCount !== 1 ? 's' : ''}
+                </span>
+                <div className={styles.rowActions}>
+                  <button
+                    type="button"
+                    className={styles.iconButton}
+                    onClick={() => moveCategory(index, -1)}
+                    disabled={index === 0}
+                    aria-label={`Move ${category.name} up`}
+                  >
+                    ↑
+                  </button>
+                  <button
+                    type="button"
+                    className={styles.iconButton}
+                    onClick={() => moveCategory(index, 1)}
+                    disabled={index === draft.length - 1}
+                    aria-label={`Move ${category.name} down`}
+                  >
+                    ↓
+                  </button>
+                  <button
+                    type="button"
+                    className={styles.iconButton}
+                    onClick={() => handleRemove(category.id)}
+                    disabled={taskCount > 0}
+                    aria-label={`Delete ${category.name}`}
+                    title={taskCount > 0 ? 'Still used by tasks, move them to another category first' : 'Delete category'}
+                  >
+                    ×
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+
+        <button type="button" className={styles.addButton} onClick={handleAdd}>
+          + Add category
+        </button>
+
+        {error && <div className={styles.error} role="alert">{error}</div>}
+
+        <div className={styles.actions}>
+          <button type="button" className={styles.cancelButton} onClick={onClose}>
+            Cancel
+          </button>
+          <button
+            type="button"
+            className={styles.submitButton}
+            onClick={handleSave}
+            disabled={!!error}
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
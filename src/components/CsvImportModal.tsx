@@ -0,0 +1,178 @@
+import React, { useMemo, useState } from 'react';
+import type { Task, CategoryDefinition } from '../types';
+import { getCategory } from '../lib/categories';
+import {
+  CSV_COLUMNS,
+  CSV_DATE_FORMATS,
+  buildCsvPreview,
+  guessColumnMapping,
+  type CsvColumnMapping,
+  type CsvField
+} from '../lib/csv';
+import styles from './CsvImportModal.module.css';
+
+interface CsvImportModalProps {
+  fileName: string;
+  rows: string[][];
+  existingTasks: Task[];
+  categories: CategoryDefinition[];
+  onImport: (tasks: Task[]) => void;
+  onClose: () => void;
+}
+
+const FIELD_LABELS: Record<CsvField, string> = {
+  id: 'ID (optional)',
+  name: 'Name',
+  category: 'Category',
+  start: 'Start date',
+  end: 'End date'
+};
+
+export const CsvImportModal: React.FC<CsvImportModalProps> = ({
+  fileName,
+  rows,
+  existingTasks,
+  categories,
+  onImport,
+  onClose
+}) => {
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<CsvColumnMapping>(() => guessColumnMapping(rows[0] ?? []));
+  const [dateFormat, setDateFormat] = useState<string>(CSV_DATE_FORMATS[0]);
+
+  const columnCount = rows.reduce((max, row) => Math.max(max, row.length), 0);
+  const columnNames = Array.from({ length: columnCount }, (_, index) =>
+    hasHeader && rows[0]?.[index] ? rows[0][index] : `Column ${index + 1}`
+  );
+
+  const dataRows = useMemo(() => (hasHeader ? rows.slice(1) : rows), [rows, hasHeader]);
+
+  const preview = useMemo(
+    () => buildCsvPreview(dataRows, mapping, dateFormat, existingTasks, categories, hasHeader ? 2 : 1),
+    [dataRows, mapping, dateFormat, existingTasks, categories, hasHeader]
+  );
+
+  const validRows = preview.filter(row => row.task);
+  const createCount = preview.filter(row => row.status === 'create').length;
+  const updateCount = preview.filter(row => row.status === 'update').length;
+  const errorCount = preview.filter(row => row.status === 'error').length;
+
+  const handleMappingChange = (field: CsvField, columnIndex: number) => {
+    setMapping({ ...mapping, [field]: columnIndex });
+  };
+
+  const handleImport = () => {
+    onImport(validRows.map(row => row.task!));
+    onClose();
+  };
+
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget) {
+      onClose();
+    }
+  };
+
+  return (
+    <div className={styles.backdrop} onClick={handleBackdropClick}>
+      <div className={styles.modal}>
+        <h2 className={styles.title}>Import CSV</h2>
+        <div className={styles.fileName}>{fileName}</div>
+
+        <div className={styles.options}>
+          <label className={styles.checkboxLabel}>
+            <input
+              type="checkbox"
+              checked={hasHeader}
+              onChange={() => setHasHeader(!hasHeader)}
+            />
+            <span>First row is a header</span>
+          </label>
+
+          <label className={styles.field}>
+            <span className={styles.label}>Date format</span>
+            <select
+              className={styles.select}
+              value={dateFormat}
+              onChange={(e) => setDateFormat(e.target.value)}
+            >
+              {CSV_DATE_FORMATS.map(fmt => (
+                <option key={fmt} value={fmt}>{fmt}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <div className={styles.mapping}>
+          {CSV_COLUMNS.map(field => (
+            <label key={field} className={styles.field}>
+              <span className={styles.label}>{FIELD_LABELS[field]}</span>
+              <select
+                className={styles.select}
+                value={mapping[field]}
+                onChange={(e) => handleMappingChange(field, Number(e.target.value))}
+              >
+                <option value={-1}>— Not mapped —</option>
+                {columnNames.map((columnName, index) => (
+                  <option key={index} value={index}>{columnName}</option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+
+        <div className={styles.summary}>
+          {createCount} to create • {updateCount} to update • {errorCount} with errors
+        </div>
+
+        <div className={styles.previewWrapper}>
+          <table className={styles.preview}>
+            <thead>
+              <tr>
+                <th>Row</th>
+                <th>Action</th>
+                <th>Name</th>
+                <th>Category</th>
+                <th>Start</th>
+                <th>End</th>
+              </tr>
+            </thead>
+            <tbody>
+              {preview.map(row => (
+                <tr key={row.rowNumber} data-status={row.status}>
+                  <td>{row.rowNumber}</td>
+                  <td className={styles.status}>{row.status}</td>
+                  {row.task ? (
+                    <>
+                      <td>{row.task.name}</td>
+                      <td>{getCategory(categories, row.task.category).name}</td>
+                      <td>{row.task.start}</td>
+                      <td>{row.task.end}</td>
+                    </>
+                  ) : (
+                    <td colSpan={4} className={styles.errors}>
+                      {row.errors.join('; ')}
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className={styles.actions}>
+          <button type="button" className={styles.cancelButton} onClick={onClose}>
+            Cancel
+          </button>
+          <button
+            type="button"
+            className={styles.submitButton}
+            onClick={handleImport}
+            disabled={validRows.length === 0}
+          >
+            Import {validRows.length} task{validRows.length !== 1 ? 's' : ''}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
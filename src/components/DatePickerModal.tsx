@@ -1,10 +1,13 @@
 import React, { useState } from 'react';
 import { format, addMonths, subMonths, startOfMonth, endOfMonth, startOfWeek, endOfWeek, eachDayOfInterval, isSameMonth, isToday } from 'date-fns';
+import { DEFAULT_WEEK_START, getWeekdayLabels } from '../lib/dates';
+import type { WeekStartDay } from '../types';
 import styles from './DatePickerModal.module.css';
 
 interface DatePickerModalProps {
   isOpen: boolean;
   currentDate: Date;
+  weekStartsOn?: WeekStartDay;
   onDateSelect: (date: Date) => void;
   onClose: () => void;
 }
@@ -12,6 +15,7 @@ interface DatePickerModalProps {
 export const DatePickerModal: React.FC<DatePickerModalProps> = ({
   isOpen,
   currentDate,
+  weekStartsOn = DEFAULT_WEEK_START,
   onDateSelect,
   onClose
 }) => {
@@ -21,8 +25,8 @@ export const DatePickerModal: React.FC<DatePickerModalProps> = ({
 
   const monthStart = startOfMonth(viewMonth);
   const monthEnd = endOfMonth(viewMonth);
-  const calendarStart = startOfWeek(monthStart, { weekStartsOn: 0 });
-  const calendarEnd = endOfWeek(monthEnd, { weekStartsOn: 0 });
+  const calendarStart = startOfWeek(monthStart, { weekStartsOn });
+  const calendarEnd = endOfWeek(monthEnd, { weekStartsOn });
   
   const days = eachDayOfInterval({ start: calendarStart, end: calendarEnd });
 
@@ -61,7 +65,7 @@ export const DatePickerModal: React.FC<DatePickerModalProps> = ({
         </div>
         
         <div className={styles.weekHeaders}>
-          {['S', 'M', 'T', 'W', 'T', 'F', 'S'].map((day, index) => (
+          {getWeekdayLabels(weekStartsOn, 'EEEEE').map((day, index) => (
             <div key={index} className={styles.weekHeader}>
               {day}
             </div>
@@ -1,24 +1,37 @@
 import React from 'react';
+import { format } from 'date-fns';
 import type { CalendarDay } from '../lib/dates';
-import type { Task } from '../types';
+import type { Task, CategoryDefinition } from '../types';
+import { categoryColorStyle } from '../lib/categories';
 import styles from './DayCell.module.css';
 
 interface DayCellProps {
   day: CalendarDay;
   isSelected: boolean;
   isInSelectionRange: boolean;
-  tasks?: Task[];
+  isFocused?: boolean; // the grid's single tab stop
+  isLocked?: boolean; // inside a locked period, where drops are rejected
+  isNonWorking?: boolean; // a weekend day or holiday of the working calendar
+  dayTasks?: Task[]; // tasks covering this day
+  categories: CategoryDefinition[];
   onPointerDown: (isoDate: string) => void;
   onPointerEnter: (isoDate: string) => void;
+  onFocus?: (isoDate: string) => void;
 }
 
-export const DayCell: React.FC<DayCellProps> = ({
+// Memoized: a grid re-renders on every drag step, but most days don't change
+export const DayCell = React.memo<DayCellProps>(({
   day,
   isSelected,
   isInSelectionRange,
-  tasks = [],
+  isFocused = false,
+  isLocked = false,
+  isNonWorking = false,
+  dayTasks = [],
+  categories,
   onPointerDown,
-  onPointerEnter
+  onPointerEnter,
+  onFocus
 }) => {
   const handlePointerDown = (e: React.PointerEvent) => {
     e.preventDefault();
@@ -32,14 +45,11 @@ export const DayCell: React.FC<DayCellProps> = ({
     }
   };
 
-  // Count tasks that include this day
-  const dayTasks = tasks.filter(task => {
-    return task.start <= day.isoDate && task.end >= day.isoDate;
-  });
-
   const taskCount = dayTasks.length;
-  const hasCompletedTasks = dayTasks.some(task => task.category === 'Completed');
-  const hasInProgressTasks = dayTasks.some(task => task.category === 'In Progress');
+  // One indicator per category present on this day, in category order
+  const dayCategories = categories.filter(category =>
+    dayTasks.some(task => task.category === category.id)
+  );
 
   return (
     <div
@@ -50,25 +60,35 @@ export const DayCell: React.FC<DayCellProps> = ({
         ${isSelected ? styles.selected : ''}
         ${isInSelectionRange ? styles.inRange : ''}
         ${taskCount > 0 ? styles.hasTasks : ''}
+        ${isLocked ? styles.locked : ''}
+        ${isNonWorking ? styles.nonWorking : ''}
       `}
       data-date={day.isoDate}
+      role="gridcell"
+      tabIndex={isFocused ? 0 : -1}
+      aria-selected={isInSelectionRange}
+      aria-label={`${format(day.date, 'EEEE, MMMM d, yyyy')}${isNonWorking ? ', non-working day' : ''}${isLocked ? ', locked' : ''}${taskCount > 0 ? `, ${taskCount} task${taskCount !== 1 ? 's' : ''}` : ''}`}
       onPointerDown={handlePointerDown}
       onPointerEnter={handlePointerEnter}
+      onFocus={() => onFocus?.(day.isoDate)}
       title={taskCount > 0 ? `${taskCount} task${taskCount !== 1 ? 's' : ''}` : undefined}
     >
       <div className={styles.dayHeader}>
         <span className={styles.dayNumber}>{day.dayNumber}</span>
+        {isLocked && <span className={styles.lockIcon} aria-hidden>🔒</span>}
         {taskCount > 0 && (
           <div className={styles.taskIndicators}>
-            {hasCompletedTasks && <div className={styles.indicator} data-status="completed" />}
-            {hasInProgressTasks && <div className={styles.indicator} data-status="progress" />}
-            {taskCount > 2 && (
-              <span className={styles.taskCount}>+{taskCount - 2}</span>
-            )}
+            {dayCategories.map(category => (
+              <div
+                key={category.id}
+                className={styles.indicator}
+                style={categoryColorStyle(category)}
+                title={category.name}
+              />
+            ))}
           </div>
         )}
       </div>
     </div>
   );
-};
-
+});
@@ -0,0 +1,107 @@
+import React, { useLayoutEffect, useState } from 'react';
+import type { DependencyLink } from '../lib/dependencies';
+import type { Task } from '../types';
+import styles from './DependencyConnectors.module.css';
+
+interface DependencyConnectorsProps {
+  gridRef: React.RefObject<HTMLDivElement>;
+  links: DependencyLink[];
+  tasks: Task[];
+}
+
+interface ConnectorPath {
+  key: string;
+  d: string;
+  isViolated: boolean;
+}
+
+/**
+ * SVG overlay drawing finish-to-start connectors between task bars.
+ * Bar positions are measured from the DOM after layout.
+ */
+export const DependencyConnectors: React.FC<DependencyConnectorsProps> = ({
+  gridRef,
+  links,
+  tasks
+}) => {
+  const [paths, setPaths] = useState<ConnectorPath[]>([]);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  useLayoutEffect(() => {
+    const grid = gridRef.current;
+    if (!grid) return;
+
+    const measure = () => {
+      const gridRect = grid.getBoundingClientRect();
+      const byId = new Map(tasks.map(t => [t.id, t]));
+
+      const findBar = (taskId: string, edge: 'start' | 'end', isoDate: string) =>
+        grid.querySelector<HTMLElement>(
+          `[data-task-id="${CSS.escape(taskId)}"][data-segment-${edge}="${isoDate}"]`
+        );
+
+      const nextPaths: ConnectorPath[] = [];
+      links.forEach(link => {
+        const predecessor = byId.get(link.predecessorId);
+        const successor = byId.get(link.successorId);
+        if (!predecessor || !successor) return;
+
+        // Connect the end of the predecessor's last segment to the start of the successor's first
+        const fromBar = findBar(predecessor.id, 'end', predecessor.end);
+        const toBar = findBar(successor.id, 'start', successor.start);
+        if (!fromBar || !toBar) return;
+
+        const from = fromBar.getBoundingClientRect();
+        const to = toBar.getBoundingClientRect();
+        const x1 = from.right - gridRect.left;
+        const y1 = from.top + from.height / 2 - gridRect.top;
+        const x2 = to.left - gridRect.left;
+        const y2 = to.top + to.height / 2 - gridRect.top;
+        const bend = Math.max(16, Math.abs(x2 - x1) / 2);
+
+        nextPaths.push({
+          key: `${link.predecessorId}->${link.successorId}`,
+          d: `M ${x1} ${y1} C ${x1 + bend} ${y1}, ${x2 - bend} ${y2}, ${x2} ${y2}`,
+          isViolated: link.isViolated
+        });
+      });
+
+      setSize({ width: grid.scrollWidth, height: grid.scrollHeight });
+      setPaths(nextPaths);
+    };
+
+    measure();
+
+    const observer = new ResizeObserver(measure);
+    observer.observe(grid);
+    return () => observer.disconnect();
+  }, [gridRef, links, tasks]);
+
+  if (paths.length === 0) return null;
+
+  return (
+    <svg
+      className={styles.layer}
+      width={size.width}
+      height={size.height}
+      aria-hidden="true"
+    >
+      <defs>
+        <marker id="dependency-arrow" viewBox="0 0 8 8" refX="7" refY="4" markerWidth="8" markerHeight="8" orient="auto">
+          <path d="M 0 0 L 8 4 L 0 8 z" className={styles.arrow} />
+        </marker>
+        <marker id="dependency-arrow-violated" viewBox="0 0 8 8" refX="7" refY="4" markerWidth="8" markerHeight="8" orient="auto">
+          <path d="M 0 0 L 8 4 L 0 8 z" className={styles.arrowViolated} />
+        </marker>
+      </defs>
+      {paths.map(path => (
+        <path
+          key={path.key}
+          d={path.d}
+          className={path.isViolated ? styles.connectorViolated : styles.connector}
+          markerEnd={`url(#${path.isViolated ? 'dependency-arrow-violated' : 'dependency-arrow'})`}
+        />
+      ))}
+    </svg>
+  );
+};
@@ -0,0 +1,44 @@
+import React from 'react';
+import type { TaskSegment } from '../lib/taskSegments';
+import type { CategoryDefinition } from '../types';
+import type { DragPreview } from '../hooks/useTaskDrag';
+import { categoryColorStyle } from '../lib/categories';
+import { formatDateRangeDisplay } from '../lib/dates';
+import styles from './DragGhost.module.css';
+
+interface DragGhostProps {
+  preview: DragPreview;
+  segment: TaskSegment; // the preview's part in one week row
+  category: CategoryDefinition;
+  cellWidth: number;
+  showLabel: boolean; // label only the first segment
+}
+
+/**
+ * Outline of the days a dragged task would cover if released now
+ */
+export const DragGhost: React.FC<DragGhostProps> = ({
+  preview,
+  segment,
+  category,
+  cellWidth,
+  showLabel
+}) => {
+  const label = preview.isOutside
+    ? 'Release to cancel'
+    : preview.error ?? `${preview.task.name}: ${formatDateRangeDisplay(preview.start, preview.end)}`;
+
+  return (
+    <div
+      className={`${styles.ghost} ${preview.error ? styles.invalid : ''} ${preview.isOutside ? styles.outside : ''}`}
+      style={{
+        ...categoryColorStyle(category),
+        left: `${segment.startColumn * cellWidth}px`,
+        width: `${segment.widthInColumns * cellWidth - 4}px`
+      }}
+      aria-hidden
+    >
+      {showLabel && <span className={styles.label}>{label}</span>}
+    </div>
+  );
+};
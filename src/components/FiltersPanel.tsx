@@ -1,26 +1,109 @@
-import React from 'react';
-import type { Category, FilterState } from '../types';
+import React, { useMemo, useRef, useState } from 'react';
+import type { CategoryDefinition, FilterState, TaskPriority, TeamMember, TimeRange, WeekStartDay } from '../types';
+import { categoryColorStyle } from '../lib/categories';
+import { memberColorStyle } from '../lib/team';
+import { TASK_PRIORITIES } from '../lib/taskDetails';
+import { DEFAULT_WEEK_START, formatDateRangeDisplay } from '../lib/dates';
+import { ALL_TIME, RELATIVE_RANGE_PRESETS, isRelativeRangePreset, resolveTimeRange } from '../lib/timeRange';
+import { compileTaskQuery, getQuerySuggestions, type QuerySuggestion } from '../lib/query';
 import styles from './FiltersPanel.module.css';
 
 interface FiltersPanelProps {
   filters: FilterState;
+  categories: CategoryDefinition[];
+  team?: TeamMember[];
+  tags?: string[]; // every tag in use
+  weekStartsOn?: WeekStartDay;
+  matchingCount?: number; // tasks that pass the current filters
   onFiltersChange: (filters: FilterState) => void;
+  onManageCategories?: () => void;
+  onSelectAllMatching?: () => void;
+  children?: React.ReactNode;
 }
 
-const CATEGORIES: Category[] = ["To Do", "In Progress", "Review", "Completed"];
-
 export const FiltersPanel: React.FC<FiltersPanelProps> = ({
   filters,
-  onFiltersChange
+  categories,
+  team = [],
+  tags = [],
+  weekStartsOn = DEFAULT_WEEK_START,
+  matchingCount,
+  onFiltersChange,
+  onManageCategories,
+  onSelectAllMatching,
+  children
 }) => {
+  const searchInputRef = useRef<HTMLInputElement>(null);
+  const [caret, setCaret] = useState<number | null>(null);
+  const [activeSuggestion, setActiveSuggestion] = useState(0);
+
+  const queryError = useMemo(
+    () => compileTaskQuery(filters.search, { categories, team, today: new Date() }).error,
+    [filters.search, categories, team]
+  );
+
+  // Only suggest while the input has focus, caret is null otherwise
+  const suggestions = useMemo(
+    () => caret === null ? null : getQuerySuggestions(filters.search, caret, categories, team, tags),
+    [filters.search, caret, categories, team, tags]
+  );
+
   const handleSearchChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setCaret(e.target.selectionStart);
+    setActiveSuggestion(0);
     onFiltersChange({
       ...filters,
       search: e.target.value
     });
   };
 
-  const handleCategoryToggle = (category: Category) => {
+  const handleSuggestionApply = (suggestion: QuerySuggestion) => {
+    if (!suggestions) return;
+
+    const { from, to } = suggestions;
+    const before = filters.search.slice(0, from) + suggestion.insertText;
+    // Values complete the term, so move past the following space; field names still need a value
+    const completesTerm = !suggestion.insertText.endsWith(':');
+    const separator = completesTerm && filters.search[to] !== ' ' ? ' ' : '';
+    const nextCaret = before.length + (completesTerm ? 1 : 0);
+
+    onFiltersChange({
+      ...filters,
+      search: before + separator + filters.search.slice(to)
+    });
+    setCaret(nextCaret);
+    setActiveSuggestion(0);
+
+    requestAnimationFrame(() => {
+      searchInputRef.current?.setSelectionRange(nextCaret, nextCaret);
+    });
+  };
+
+  const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!suggestions) return;
+    const count = suggestions.items.length;
+
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setActiveSuggestion(index => (index + 1) % count);
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setActiveSuggestion(index => (index - 1 + count) % count);
+        break;
+      case 'Enter':
+      case 'Tab':
+        e.preventDefault();
+        handleSuggestionApply(suggestions.items[Math.min(activeSuggestion, count - 1)]);
+        break;
+      case 'Escape':
+        setCaret(null);
+        break;
+    }
+  };
+
+  const handleCategoryToggle = (category: string) => {
     const newCategories = filters.categories.includes(category)
       ? filters.categories.filter(c => c !== category)
       : [...filters.categories, category];
@@ -31,93 +114,258 @@ export const FiltersPanel: React.FC<FiltersPanelProps> = ({
     });
   };
 
-  const handleTimeRangeChange = (weeks: 0 | 1 | 2 | 3) => {
+  const toggle = <T,>(values: T[], value: T): T[] =>
+    values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+  const handleAssigneeToggle = (memberId: string) => {
+    onFiltersChange({ ...filters, assignees: toggle(filters.assignees, memberId) });
+  };
+
+  const handlePriorityToggle = (priority: TaskPriority) => {
+    onFiltersChange({ ...filters, priorities: toggle(filters.priorities, priority) });
+  };
+
+  const handleTagToggle = (tag: string) => {
+    onFiltersChange({ ...filters, tags: toggle(filters.tags, tag) });
+  };
+
+  // Tags picked in the filters stay listed even if no task uses them any more
+  const tagOptions = [...new Set([...tags, ...filters.tags])].sort();
+
+  const today = new Date();
+  const resolvedRange = resolveTimeRange(filters.timeRange, today, weekStartsOn);
+
+  const handleTimeRangeChange = (value: string) => {
+    let timeRange: TimeRange = ALL_TIME;
+    if (value === 'overdue') {
+      timeRange = { mode: 'overdue' };
+    } else if (value === 'custom') {
+      // Start from the dates currently shown, so a preset can be adjusted
+      timeRange = { mode: 'custom', start: resolvedRange?.start ?? '', end: resolvedRange?.end ?? '' };
+    } else if (isRelativeRangePreset(value)) {
+      timeRange = { mode: 'relative', preset: value };
+    }
+
+    onFiltersChange({
+      ...filters,
+      timeRange
+    });
+  };
+
+  const handleCustomRangeChange = (field: 'start' | 'end', value: string) => {
+    if (filters.timeRange.mode !== 'custom') return;
+
     onFiltersChange({
       ...filters,
-      timeRangeWeeks: weeks
+      timeRange: { ...filters.timeRange, [field]: value }
     });
   };
 
+  let timeRangeHint = 'All dates shown';
+  if (resolvedRange) {
+    timeRangeHint = formatDateRangeDisplay(resolvedRange.start, resolvedRange.end);
+  } else if (filters.timeRange.mode === 'overdue') {
+    timeRangeHint = 'Ended before today and not done';
+  } else if (filters.timeRange.mode === 'custom') {
+    timeRangeHint = 'Pick both dates to apply the range';
+  }
+
   return (
     <div className={styles.panel}>
       <h2 className={styles.title}>Filters</h2>
       
       <div className={styles.section}>
-        <label className={styles.label}>Search by Name</label>
-        <input
-          type="text"
-          className={styles.searchInput}
-          placeholder="Search tasks..."
-          value={filters.search}
-          onChange={handleSearchChange}
-        />
+        <label className={styles.label} htmlFor="filters-search">Search</label>
+        <div className={styles.searchField}>
+          <input
+            ref={searchInputRef}
+            id="filters-search"
+            type="text"
+            className={`${styles.searchInput} ${queryError ? styles.searchInputInvalid : ''}`}
+            placeholder='e.g. cat:review ends<today+7'
+            value={filters.search}
+            onChange={handleSearchChange}
+            onKeyDown={handleSearchKeyDown}
+            onSelect={e => setCaret(e.currentTarget.selectionStart)}
+            onBlur={() => setCaret(null)}
+            role="combobox"
+            aria-autocomplete="list"
+            aria-expanded={!!suggestions}
+            aria-controls="filters-search-suggestions"
+            aria-invalid={!!queryError}
+            aria-describedby={queryError ? 'filters-search-error' : undefined}
+            autoComplete="off"
+            spellCheck={false}
+          />
+          {suggestions && (
+            <ul id="filters-search-suggestions" className={styles.suggestions} role="listbox">
+              {suggestions.items.map((suggestion, index) => (
+                <li
+                  key={suggestion.insertText}
+                  role="option"
+                  aria-selected={index === activeSuggestion}
+                  className={`${styles.suggestion} ${index === activeSuggestion ? styles.suggestionActive : ''}`}
+                  // Keep focus in the input so the caret survives the click
+                  onMouseDown={e => {
+                    e.preventDefault();
+                    handleSuggestionApply(suggestion);
+                  }}
+                >
+                  <span>{suggestion.label}</span>
+                  {suggestion.detail && (
+                    <span className={styles.suggestionDetail}>{suggestion.detail}</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+        {queryError ? (
+          <div id="filters-search-error" className={styles.error} role="alert">
+            {queryError.message} (at character {queryError.position + 1})
+          </div>
+        ) : (
+          <div className={styles.hint}>
+            Fields: cat, name, starts, ends, duration, is, assignee, priority, tag. Combine with OR, NOT or -, group with ( ).
+          </div>
+        )}
       </div>
 
       <div className={styles.section}>
         <label className={styles.label}>Categories</label>
         <div className={styles.checkboxGroup}>
-          {CATEGORIES.map(category => (
-            <label key={category} className={styles.checkboxLabel}>
+          {categories.map(category => (
+            <label key={category.id} className={styles.checkboxLabel}>
               <input
                 type="checkbox"
-                checked={filters.categories.includes(category)}
-                onChange={() => handleCategoryToggle(category)}
+                checked={filters.categories.includes(category.id)}
+                onChange={() => handleCategoryToggle(category.id)}
                 className={styles.checkbox}
               />
-              <span>{category}</span>
+              <span className={styles.swatch} style={categoryColorStyle(category)} />
+              <span>{category.name}</span>
             </label>
           ))}
         </div>
         {filters.categories.length === 0 && (
           <div className={styles.hint}>All categories shown</div>
         )}
+        {onManageCategories && (
+          <button className={styles.linkButton} onClick={onManageCategories}>
+            Manage categories…
+          </button>
+        )}
       </div>
 
+      {team.length > 0 && (
+        <div className={styles.section}>
+          <label className={styles.label}>Assignee</label>
+          <div className={styles.checkboxGroup}>
+            {team.map(member => (
+              <label key={member.id} className={styles.checkboxLabel}>
+                <input
+                  type="checkbox"
+                  checked={filters.assignees.includes(member.id)}
+                  onChange={() => handleAssigneeToggle(member.id)}
+                  className={styles.checkbox}
+                />
+                <span className={styles.memberSwatch} style={memberColorStyle(member)} />
+                <span>{member.name}</span>
+              </label>
+            ))}
+          </div>
+          {filters.assignees.length === 0 && (
+            <div className={styles.hint}>Everyone's tasks shown</div>
+          )}
+        </div>
+      )}
+
       <div className={styles.section}>
-        <label className={styles.label}>Time Range</label>
-        <div className={styles.radioGroup}>
-          <label className={styles.radioLabel}>
-            <input
-              type="radio"
-              name="timeRange"
-              checked={filters.timeRangeWeeks === 0}
-              onChange={() => handleTimeRangeChange(0)}
-              className={styles.radio}
-            />
-            <span>All</span>
-          </label>
-          <label className={styles.radioLabel}>
-            <input
-              type="radio"
-              name="timeRange"
-              checked={filters.timeRangeWeeks === 1}
-              onChange={() => handleTimeRangeChange(1)}
-              className={styles.radio}
-            />
-            <span>Within 1 week</span>
-          </label>
-          <label className={styles.radioLabel}>
-            <input
-              type="radio"
-              name="timeRange"
-              checked={filters.timeRangeWeeks === 2}
-              onChange={() => handleTimeRangeChange(2)}
-              className={styles.radio}
-            />
-            <span>Within 2 weeks</span>
-          </label>
-          <label className={styles.radioLabel}>
-            <input
-              type="radio"
-              name="timeRange"
-              checked={filters.timeRangeWeeks === 3}
-              onChange={() => handleTimeRangeChange(3)}
-              className={styles.radio}
-            />
-            <span>Within 3 weeks</span>
-          </label>
+        <label className={styles.label}>Priority</label>
+        <div className={styles.chips}>
+          {TASK_PRIORITIES.map(({ value, name }) => (
+            <button
+              key={value}
+              className={`${styles.chip} ${filters.priorities.includes(value) ? styles.chipActive : ''}`}
+              onClick={() => handlePriorityToggle(value)}
+              aria-pressed={filters.priorities.includes(value)}
+              title={name}
+            >
+              {value}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {tagOptions.length > 0 && (
+        <div className={styles.section}>
+          <label className={styles.label}>Tags</label>
+          <div className={styles.chips}>
+            {tagOptions.map(tag => (
+              <button
+                key={tag}
+                className={`${styles.chip} ${filters.tags.includes(tag) ? styles.chipActive : ''}`}
+                onClick={() => handleTagToggle(tag)}
+                aria-pressed={filters.tags.includes(tag)}
+              >
+                #{tag}
+              </button>
+            ))}
+          </div>
         </div>
+      )}
+
+      <div className={styles.section}>
+        <label className={styles.label} htmlFor="filters-time-range">Time Range</label>
+        <select
+          id="filters-time-range"
+          className={styles.select}
+          value={filters.timeRange.mode === 'relative' ? filters.timeRange.preset : filters.timeRange.mode}
+          onChange={e => handleTimeRangeChange(e.target.value)}
+        >
+          <option value="all">All</option>
+          <optgroup label="Relative to today">
+            {RELATIVE_RANGE_PRESETS.map(({ preset, label }) => (
+              <option key={preset} value={preset}>{label}</option>
+            ))}
+          </optgroup>
+          <option value="overdue">Overdue</option>
+          <option value="custom">Custom range…</option>
+        </select>
+        {filters.timeRange.mode === 'custom' && (
+          <div className={styles.dateRange}>
+            <label className={styles.dateField}>
+              <span>From</span>
+              <input
+                type="date"
+                className={styles.dateInput}
+                value={filters.timeRange.start}
+                onChange={e => handleCustomRangeChange('start', e.target.value)}
+              />
+            </label>
+            <label className={styles.dateField}>
+              <span>To</span>
+              <input
+                type="date"
+                className={styles.dateInput}
+                value={filters.timeRange.end}
+                onChange={e => handleCustomRangeChange('end', e.target.value)}
+              />
+            </label>
+          </div>
+        )}
+        <div className={styles.hint}>{timeRangeHint}</div>
       </div>
+
+      {onSelectAllMatching && matchingCount !== undefined && matchingCount > 0 && (
+        <div className={styles.section}>
+          <button className={styles.linkButton} onClick={onSelectAllMatching}>
+            Select all {matchingCount} matching task{matchingCount !== 1 ? 's' : ''}
+          </button>
+        </div>
+      )}
+
+      {children}
     </div>
   );
 };
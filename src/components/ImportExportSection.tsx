@@ -0,0 +1,178 @@
+import React, { useRef, useState } from 'react';
+import { format } from 'date-fns';
+import type { Task, CategoryDefinition } from '../types';
+import { exportTasksToIcs, importTasksFromIcs } from '../lib/ics';
+import { exportTasksToCsv, parseCsv } from '../lib/csv';
+import { downloadFile } from '../lib/download';
+import { CsvImportModal } from './CsvImportModal';
+import styles from './ImportExportSection.module.css';
+
+interface ImportExportSectionProps {
+  tasks: Task[];
+  filteredTasks: Task[];
+  categories: CategoryDefinition[];
+  onImport: (tasks: Task[]) => void;
+}
+
+interface ImportSummary {
+  created: number;
+  updated: number;
+  warnings: string[];
+}
+
+export const ImportExportSection: React.FC<ImportExportSectionProps> = ({
+  tasks,
+  filteredTasks,
+  categories,
+  onImport
+}) => {
+  const [filteredOnly, setFilteredOnly] = useState(false);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+  const [csvImport, setCsvImport] = useState<{ fileName: string; rows: string[][] } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const csvInputRef = useRef<HTMLInputElement>(null);
+
+  const exportedTasks = filteredOnly ? filteredTasks : tasks;
+
+  const handleExportCsv = () => {
+    downloadFile(
+      `tasks-${format(new Date(), 'yyyy-MM-dd')}.csv`,
+      exportTasksToCsv(exportedTasks, categories),
+      'text/csv;charset=utf-8'
+    );
+  };
+
+  const handleCsvFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const rows = parseCsv(await file.text());
+    if (rows.length === 0) {
+      setSummary({ created: 0, updated: 0, warnings: [`${file.name} has no rows`] });
+      return;
+    }
+    setSummary(null);
+    setCsvImport({ fileName: file.name, rows });
+  };
+
+  const handleCsvImport = (imported: Task[]) => {
+    const existingById = new Map(tasks.map(t => [t.id, t]));
+    const updated = imported.filter(t => existingById.has(t.id)).length;
+    // CSV has no repeat rule column, so an updated series keeps its recurrence
+    onImport(imported.map(task => {
+      const recurrence = existingById.get(task.id)?.recurrence;
+      return recurrence ? { ...task, recurrence } : task;
+    }));
+    setSummary({ created: imported.length - updated, updated, warnings: [] });
+  };
+
+  const handleExportIcs = () => {
+    downloadFile(
+      `tasks-${format(new Date(), 'yyyy-MM-dd')}.ics`,
+      exportTasksToIcs(exportedTasks, categories),
+      'text/calendar;charset=utf-8'
+    );
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // allow re-importing the same file
+    if (!file) return;
+
+    try {
+      const result = importTasksFromIcs(await file.text(), categories);
+      const existingIds = new Set(tasks.map(t => t.id));
+      const updated = result.tasks.filter(t => existingIds.has(t.id)).length;
+
+      if (result.tasks.length > 0) {
+        onImport(result.tasks);
+      }
+      setSummary({
+        created: result.tasks.length - updated,
+        updated,
+        warnings: result.warnings
+      });
+    } catch (err) {
+      setSummary({
+        created: 0,
+        updated: 0,
+        warnings: [`Could not read ${file.name}: ${err instanceof Error ? err.message : String(err)}`]
+      });
+    }
+  };
+
+  return (
+    <div className={styles.section}>
+      <label className={styles.label}>Import / Export</label>
+
+      <label className={styles.checkboxLabel}>
+        <input
+          type="checkbox"
+          checked={filteredOnly}
+          onChange={() => setFilteredOnly(!filteredOnly)}
+          className={styles.checkbox}
+        />
+        <span>Export filtered tasks only</span>
+      </label>
+
+      <div className={styles.buttonRow}>
+        <button className={styles.button} onClick={handleExportIcs}>
+          Export .ics
+        </button>
+        <button className={styles.button} onClick={() => fileInputRef.current?.click()}>
+          Import .ics
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".ics,text/calendar"
+          className={styles.fileInput}
+          onChange={handleFileChange}
+        />
+      </div>
+
+      <div className={styles.buttonRow}>
+        <button className={styles.button} onClick={handleExportCsv}>
+          Export .csv
+        </button>
+        <button className={styles.button} onClick={() => csvInputRef.current?.click()}>
+          Import .csv
+        </button>
+        <input
+          ref={csvInputRef}
+          type="file"
+          accept=".csv,text/csv"
+          className={styles.fileInput}
+          onChange={handleCsvFileChange}
+        />
+      </div>
+
+      {summary && (
+        <div className={styles.summary}>
+          <div>
+            {summary.created} created, {summary.updated} updated
+          </div>
+          {summary.warnings.length > 0 && (
+            <ul className={styles.warnings}>
+              {summary.warnings.map((warning, index) => (
+                <li key={index}>{warning}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {csvImport && (
+        <CsvImportModal
+          fileName={csvImport.fileName}
+          rows={csvImport.rows}
+          existingTasks={tasks}
+          categories={categories}
+          onImport={handleCsvImport}
+          onClose={() => setCsvImport(null)}
+        />
+      )}
+    </div>
+  );
+};
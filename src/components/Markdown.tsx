@@ -0,0 +1,60 @@
+import React, { useMemo } from 'react';
+import { parseMarkdown, type MarkdownInline } from '../lib/markdown';
+import styles from './Markdown.module.css';
+
+interface MarkdownProps {
+  text: string;
+}
+
+function renderInline(nodes: MarkdownInline[]): React.ReactNode[] {
+  return nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return node.text;
+      case 'strong':
+        return <strong key={index}>{renderInline(node.children)}</strong>;
+      case 'em':
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case 'code':
+        return <code key={index} className={styles.inlineCode}>{node.text}</code>;
+      case 'link':
+        return (
+          <a key={index} href={node.href} target="_blank" rel="noopener noreferrer">
+            {renderInline(node.children)}
+          </a>
+        );
+    }
+  });
+}
+
+/**
+ * Rendered task description; see lib/markdown for the supported syntax
+ */
+export const Markdown: React.FC<MarkdownProps> = ({ text }) => {
+  const blocks = useMemo(() => parseMarkdown(text), [text]);
+
+  return (
+    <div className={styles.markdown}>
+      {blocks.map((block, index) => {
+        switch (block.type) {
+          case 'heading': {
+            const Heading = `h${block.level + 2}` as 'h3' | 'h4' | 'h5'; // below the modal title
+            return <Heading key={index}>{renderInline(block.children)}</Heading>;
+          }
+          case 'paragraph':
+            return <p key={index}>{renderInline(block.children)}</p>;
+          case 'list': {
+            const List = block.ordered ? 'ol' : 'ul';
+            return (
+              <List key={index}>
+                {block.items.map((item, itemIndex) => <li key={itemIndex}>{renderInline(item)}</li>)}
+              </List>
+            );
+          }
+          case 'code':
+            return <pre key={index} className={styles.codeBlock}><code>{block.text}</code></pre>;
+        }
+      })}
+    </div>
+  );
+};
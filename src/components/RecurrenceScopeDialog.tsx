@@ -0,0 +1,61 @@
+import React from 'react';
+import type { RecurrenceScope } from '../types';
+import type { OccurrenceChange } from '../lib/recurrence';
+import styles from './RecurrenceScopeDialog.module.css';
+
+interface RecurrenceScopeDialogProps {
+  action: OccurrenceChange['type'];
+  onSelect: (scope: RecurrenceScope) => void;
+  onCancel: () => void;
+}
+
+const ACTION_TITLES: Record<OccurrenceChange['type'], string> = {
+  move: 'Move recurring task',
+  resize: 'Resize recurring task',
+  update: 'Edit recurring task',
+  delete: 'Delete recurring task'
+};
+
+const SCOPE_OPTIONS: { scope: RecurrenceScope; label: string }[] = [
+  { scope: 'this', label: 'This occurrence' },
+  { scope: 'following', label: 'This and following occurrences' },
+  { scope: 'all', label: 'All occurrences' }
+];
+
+export const RecurrenceScopeDialog: React.FC<RecurrenceScopeDialogProps> = ({
+  action,
+  onSelect,
+  onCancel
+}) => {
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget) {
+      onCancel();
+    }
+  };
+
+  return (
+    <div className={styles.backdrop} onClick={handleBackdropClick}>
+      <div className={styles.dialog} role="dialog" aria-modal="true" aria-labelledby="recurrence-scope-title">
+        <h3 id="recurrence-scope-title" className={styles.title}>
+          {ACTION_TITLES[action]}
+        </h3>
+        <div className={styles.options}>
+          {SCOPE_OPTIONS.map(option => (
+            <button
+              key={option.scope}
+              className={styles.optionButton}
+              onClick={() => onSelect(option.scope)}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <div className={styles.footer}>
+          <button className={styles.cancelButton} onClick={onCancel}>
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,92 @@
+import React, { useEffect, useState } from 'react';
+import type { CategoryDefinition } from '../types';
+import styles from './SelectionToolbar.module.css';
+
+interface SelectionToolbarProps {
+  count: number;
+  categories: CategoryDefinition[];
+  onMove: (days: number) => void;
+  onCategoryChange: (category: string) => void;
+  onDelete: () => void;
+  onExport: (format: 'ics' | 'csv') => void;
+  onClear: () => void;
+}
+
+export const SelectionToolbar: React.FC<SelectionToolbarProps> = ({
+  count,
+  categories,
+  onMove,
+  onCategoryChange,
+  onDelete,
+  onExport,
+  onClear
+}) => {
+  const [days, setDays] = useState(7);
+
+  // Escape clears the selection unless something else already handled it
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && !e.defaultPrevented) {
+        onClear();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [onClear]);
+
+  const validDays = Number.isInteger(days) && days > 0;
+
+  return (
+    <div className={styles.toolbar} role="toolbar" aria-label="Selected tasks">
+      <span className={styles.count}>
+        {count} task{count !== 1 ? 's' : ''} selected
+      </span>
+
+      <div className={styles.group}>
+        <button className={styles.button} disabled={!validDays} onClick={() => onMove(-days)} title={`Move ${days} days earlier`}>
+          ◀
+        </button>
+        <input
+          type="number"
+          className={styles.daysInput}
+          min={1}
+          value={Number.isNaN(days) ? '' : days}
+          onChange={e => setDays(e.target.valueAsNumber)}
+          aria-label="Days to move"
+        />
+        <span className={styles.unit}>days</span>
+        <button className={styles.button} disabled={!validDays} onClick={() => onMove(days)} title={`Move ${days} days later`}>
+          ▶
+        </button>
+      </div>
+
+      <select
+        className={styles.select}
+        value=""
+        onChange={e => e.target.value && onCategoryChange(e.target.value)}
+        aria-label="Change category"
+      >
+        <option value="">Set category…</option>
+        {categories.map(category => (
+          <option key={category.id} value={category.id}>{category.name}</option>
+        ))}
+      </select>
+
+      <div className={styles.group}>
+        <button className={styles.button} onClick={() => onExport('ics')}>Export .ics</button>
+        <button className={styles.button} onClick={() => onExport('csv')}>Export .csv</button>
+      </div>
+
+      <button className={`${styles.button} ${styles.danger}`} onClick={onDelete}>
+        Delete
+      </button>
+
+      <button className={styles.clearButton} onClick={onClear} title="Clear selection (Esc)">
+        ✕
+      </button>
+    </div>
+  );
+};
@@ -1,190 +1,170 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState } from 'react';
 import type { TaskSegment } from '../lib/taskSegments';
-import { parseISO, format, differenceInDays } from 'date-fns';
+import type { CategoryDefinition, Task, TeamMember } from '../types';
+import type { TaskDragMode } from '../hooks/useTaskDrag';
+import type { TaskSelectMode } from '../lib/selection';
+import type { DropValidator } from '../lib/dropValidation';
+import { categoryColorStyle } from '../lib/categories';
+import { getInitials, memberColorStyle } from '../lib/team';
+import { getChecklistProgress } from '../lib/subtasks';
+import { formatDateDisplay, formatDateRangeDisplay, shiftIsoDate } from '../lib/dates';
+import { getTaskDuration, moveTaskRange, snapToWorkingDay, type WorkingCalendarResolver } from '../lib/workingDays';
 import styles from './TaskBar.module.css';
 
+const MIN_TAGS_WIDTH = 160; // px below which tag chips are left out for the name
+const MAX_VISIBLE_TAGS = 2;
+
+// Days moved per arrow key; up and down move by a week row
+const KEYBOARD_STEPS: Record<string, number> = {
+  ArrowLeft: -1,
+  ArrowRight: 1,
+  ArrowUp: -7,
+  ArrowDown: 7
+};
+
 interface TaskBarProps {
   segment: TaskSegment;
+  category: CategoryDefinition;
+  assignee?: TeamMember;
   cellWidth: number;
+  barHeight?: number;
+  isDependencyViolated?: boolean;
+  isDragging?: boolean;
+  isSelected?: boolean;
+  onSelect?: (taskId: string, mode: TaskSelectMode) => void;
+  onDragStart?: (task: Task, mode: TaskDragMode, e: React.PointerEvent) => void;
   onMove: (taskId: string, newStartDate: string) => void;
   onResize: (taskId: string, newStart: string, newEnd: string) => void;
+  validateDrop?: DropValidator; // keyboard moves are checked like pointer drops
+  workingCalendarFor?: WorkingCalendarResolver; // durations and moves in working days
+  onGestureStart?: () => void;
+  onGestureEnd?: () => void;
   onEdit?: (taskId: string) => void;
   onDelete?: (taskId: string) => void;
+  onPinToggle?: (taskId: string) => void;
+  onAnnounce?: (message: string) => void;
 }
 
-export const TaskBar: React.FC<TaskBarProps> = ({
+// Memoized: while dragging, only the bars of the moved task change
+export const TaskBar = React.memo<TaskBarProps>(({
   segment,
+  category,
+  assignee,
   cellWidth,
+  barHeight = 28,
+  isDependencyViolated = false,
+  isDragging = false,
+  isSelected = false,
+  onSelect,
+  onDragStart,
   onMove,
   onResize,
+  validateDrop,
+  workingCalendarFor,
+  onGestureStart,
+  onGestureEnd,
   onEdit,
-  onDelete
+  onDelete,
+  onPinToggle,
+  onAnnounce
 }) => {
-  const [isDragging, setIsDragging] = useState(false);
-  const [isResizing, setIsResizing] = useState<'left' | 'right' | null>(null);
   const [showActions, setShowActions] = useState(false);
-  const barRef = useRef<HTMLDivElement>(null);
-  const dragStartRef = useRef<{ x: number; y: number; date: string } | null>(null);
 
   const task = segment.task;
   const left = segment.startColumn * cellWidth;
   const width = segment.widthInColumns * cellWidth - 4; // 4px margin
-  const TASK_BAR_HEIGHT = 28;
   const TASK_BAR_MARGIN = 2;
-  const top = 2 + segment.rowIndex * (TASK_BAR_HEIGHT + TASK_BAR_MARGIN);
+  const top = 2 + segment.rowIndex * (barHeight + TASK_BAR_MARGIN);
   
-  // Calculate task duration
-  const duration = differenceInDays(parseISO(task.end), parseISO(task.start)) + 1;
-  const isCompleted = task.category === 'Completed';
-
-  useEffect(() => {
-    const handlePointerMove = (e: PointerEvent) => {
-      if (!isDragging && !isResizing) return;
+  const calendar = workingCalendarFor?.(task);
+  const duration = getTaskDuration(task, calendar);
+  const durationUnit = `${calendar ? 'working ' : ''}day${duration !== 1 ? 's' : ''}`;
+  const isCompleted = category.isDone;
+  const progress = getChecklistProgress(task.subtasks);
 
-      const calendarGrid = document.querySelector('[data-calendar-grid]');
-      if (!calendarGrid) return;
+  // Ctrl/Cmd-click toggles the task in the selection, Shift-click selects a range
+  const handleSelectPointerDown = (e: React.PointerEvent): boolean => {
+    if (!onSelect || !(e.ctrlKey || e.metaKey || e.shiftKey)) return false;
 
-      if (isResizing) {
-        handleResizeMove(e);
-      } else if (isDragging) {
-        handleDragMove(e);
-      }
-    };
-
-    const handlePointerUp = () => {
-      if (isDragging || isResizing) {
-        setIsDragging(false);
-        setIsResizing(null);
-        dragStartRef.current = null;
-        document.body.style.userSelect = '';
-        document.body.style.cursor = '';
-      }
-    };
-
-    if (isDragging || isResizing) {
-      document.addEventListener('pointermove', handlePointerMove);
-      document.addEventListener('pointerup', handlePointerUp);
-      document.body.style.userSelect = 'none';
-      document.body.style.cursor = 'grabbing';
+    e.preventDefault();
+    e.stopPropagation();
+    onSelect(task.id, e.shiftKey ? 'range' : 'toggle');
+    return true;
+  };
 
-      return () => {
-        document.removeEventListener('pointermove', handlePointerMove);
-        document.removeEventListener('pointerup', handlePointerUp);
-        document.body.style.userSelect = '';
-        document.body.style.cursor = '';
-      };
+  const handleBarPointerDown = (e: React.PointerEvent) => {
+    if (e.target !== e.currentTarget && (e.target as HTMLElement).classList.contains(styles.resizeHandle)) {
+      return; // Don't start drag if clicking resize handle
     }
-  }, [isDragging, isResizing, cellWidth]);
+    if (handleSelectPointerDown(e)) return;
+    onDragStart?.(task, 'move', e);
+  };
 
-  const findDateAtX = (x: number): string | null => {
-    const calendarGrid = document.querySelector('[data-calendar-grid]');
-    if (!calendarGrid) return null;
+  const handleResizePointerDown = (side: 'left' | 'right') => (e: React.PointerEvent) => {
+    if (handleSelectPointerDown(e)) return;
+    onDragStart?.(task, side === 'left' ? 'resize-start' : 'resize-end', e);
+  };
 
-    const columnIndex = Math.max(0, Math.min(6, Math.floor(x / cellWidth)));
+  // Arrows move the task, Shift+arrows move its end date. Each key press is a
+  // complete gesture, so it becomes one undo step.
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.target !== e.currentTarget) return;
 
-    // Find the week row containing this task bar
-    if (barRef.current) {
-      let parent = barRef.current.parentElement;
-      while (parent && parent !== calendarGrid) {
-        // Check if this is a week row (has 7 day cells)
-        const dayCells = parent.querySelectorAll('[data-date]');
-        if (dayCells.length === 7) {
-          // This is a week row
-          if (dayCells[columnIndex]) {
-            return (dayCells[columnIndex] as HTMLElement).dataset.date || null;
-          }
-        }
-        parent = parent.parentElement;
-      }
+    if (e.key === 'Enter' && onEdit) {
+      e.preventDefault();
+      onEdit(task.id);
+      return;
     }
-
-    // Fallback: find by column index in any week row
-    const allWeekRows = Array.from(calendarGrid.children);
-    for (const weekRow of allWeekRows) {
-      const dayCells = weekRow.querySelectorAll('[data-date]');
-      if (dayCells.length === 7 && dayCells[columnIndex]) {
-        return (dayCells[columnIndex] as HTMLElement).dataset.date || null;
-      }
+    if (e.key === ' ' && onSelect) {
+      e.preventDefault();
+      onSelect(task.id, 'toggle');
+      onAnnounce?.(`${task.name} ${isSelected ? 'removed from' : 'added to'} selection`);
+      return;
     }
-
-    return null;
-  };
-
-  const handleResizeMove = (e: PointerEvent) => {
-    if (!dragStartRef.current) return;
-
-    const calendarGrid = document.querySelector('[data-calendar-grid]');
-    if (!calendarGrid) return;
-
-    const gridRect = calendarGrid.getBoundingClientRect();
-    const x = e.clientX - gridRect.left;
-    const targetDate = findDateAtX(x);
-    if (!targetDate) return;
-
-    const taskStart = parseISO(task.start);
-    const taskEnd = parseISO(task.end);
-    const targetDateObj = parseISO(targetDate);
-
-    if (isResizing === 'left') {
-      // Resizing left handle (start date)
-      if (targetDateObj > taskEnd) {
-        // Clamp to end date
-        onResize(task.id, format(taskEnd, 'yyyy-MM-dd'), format(taskEnd, 'yyyy-MM-dd'));
-      } else {
-        onResize(task.id, targetDate, format(taskEnd, 'yyyy-MM-dd'));
-      }
-    } else if (isResizing === 'right') {
-      // Resizing right handle (end date)
-      if (targetDateObj < taskStart) {
-        // Clamp to start date
-        onResize(task.id, format(taskStart, 'yyyy-MM-dd'), format(taskStart, 'yyyy-MM-dd'));
-      } else {
-        onResize(task.id, format(taskStart, 'yyyy-MM-dd'), targetDate);
-      }
+    if ((e.key === 'Delete' || e.key === 'Backspace') && onDelete) {
+      e.preventDefault();
+      // Announced once the task is actually deleted; the confirmation can still be cancelled
+      onDelete(task.id);
+      return;
     }
-  };
-
-  const handleDragMove = (e: PointerEvent) => {
-    const calendarGrid = document.querySelector('[data-calendar-grid]');
-    if (!calendarGrid) return;
-
-    const gridRect = calendarGrid.getBoundingClientRect();
-    const x = e.clientX - gridRect.left;
-    const targetDate = findDateAtX(x);
-    if (!targetDate) return;
 
-    // Calculate new start date based on target
-    const newStart = targetDate;
+    const days = KEYBOARD_STEPS[e.key];
+    if (days === undefined) return;
+    e.preventDefault();
 
-    if (newStart !== task.start) {
-      onMove(task.id, newStart);
+    // With a working calendar, moves keep the working days and a moved end skips days off
+    let newStart = task.start;
+    let newEnd = shiftIsoDate(task.end, days);
+    if (e.shiftKey) {
+      if (calendar) newEnd = snapToWorkingDay(calendar, newEnd, days < 0 ? -1 : 1);
+    } else {
+      ({ start: newStart, end: newEnd } = moveTaskRange(task, shiftIsoDate(task.start, days), calendar));
     }
-  };
-
-  const handleBarPointerDown = (e: React.PointerEvent) => {
-    if (e.target !== e.currentTarget && (e.target as HTMLElement).classList.contains(styles.resizeHandle)) {
-      return; // Don't start drag if clicking resize handle
+    if (newEnd < newStart) {
+      onAnnounce?.(`${task.name} can't be shorter than one day`);
+      return;
+    }
+    const error = validateDrop?.(task, { start: newStart, end: newEnd });
+    if (error) {
+      onAnnounce?.(`Can't move ${task.name}: ${error}`);
+      return;
     }
 
-    e.preventDefault();
-    e.stopPropagation();
-    setIsDragging(true);
-    dragStartRef.current = {
-      x: e.clientX,
-      y: e.clientY,
-      date: task.start
-    };
-  };
+    onGestureStart?.();
+    if (e.shiftKey) {
+      onResize(task.id, newStart, newEnd);
+      const length = getTaskDuration({ start: newStart, end: newEnd }, calendar);
+      onAnnounce?.(`${task.name} now ends ${formatDateDisplay(newEnd)}, ${length} ${calendar ? 'working ' : ''}day${length === 1 ? '' : 's'}`);
+    } else {
+      onMove(task.id, newStart);
+      onAnnounce?.(`Moved ${task.name} to ${formatDateRangeDisplay(newStart, newEnd)}`);
+    }
+    onGestureEnd?.();
 
-  const handleResizePointerDown = (side: 'left' | 'right') => (e: React.PointerEvent) => {
-    e.preventDefault();
-    e.stopPropagation();
-    setIsResizing(side);
-    dragStartRef.current = {
-      x: e.clientX,
-      y: e.clientY,
-      date: side === 'left' ? task.start : task.end
-    };
+    // The bar is re-rendered for its new dates, possibly in another week row
+    requestAnimationFrame(() => {
+      document.querySelector<HTMLElement>(`[data-task-id="${CSS.escape(task.id)}"]`)?.focus();
+    });
   };
 
   const handleContextMenu = (e: React.MouseEvent) => {
@@ -194,17 +174,35 @@ export const TaskBar: React.FC<TaskBarProps> = ({
 
   return (
     <div
-      ref={barRef}
-      className={`${styles.bar} ${isCompleted ? styles.completed : ''} ${isDragging ? styles.dragging : ''}`}
+      className={`${styles.bar} ${isCompleted ? styles.completed : ''} ${isDragging ? styles.dragging : ''} ${isSelected ? styles.selected : ''} ${isDependencyViolated ? styles.violated : ''}`}
       style={{
+        ...categoryColorStyle(category),
         left: `${left}px`,
         top: `${top}px`,
         width: `${width}px`,
+        height: `${barHeight}px`,
       }}
       data-category={task.category}
+      data-task-id={task.id}
+      data-segment-start={segment.startDate}
+      data-segment-end={segment.endDate}
       onPointerDown={handleBarPointerDown}
+      onKeyDown={handleKeyDown}
       onContextMenu={handleContextMenu}
-      title={`${task.name} (${duration} day${duration > 1 ? 's' : ''}) - Click ✏️ to edit`}
+      tabIndex={0}
+      role="button"
+      aria-pressed={onSelect ? isSelected : undefined}
+      aria-label={[
+        task.name,
+        task.priority,
+        category.name,
+        formatDateRangeDisplay(task.start, task.end),
+        assignee && `assigned to ${assignee.name}`,
+        task.tags && task.tags.length > 0 && `tagged ${task.tags.join(', ')}`,
+        progress && `${progress.done} of ${progress.total} subtasks done`
+      ].filter(Boolean).join(', ')}
+      aria-keyshortcuts="ArrowLeft ArrowRight ArrowUp ArrowDown Shift+ArrowLeft Shift+ArrowRight Shift+ArrowUp Shift+ArrowDown Enter Delete Space"
+      title={`${task.name} (${duration} ${durationUnit})${isDependencyViolated ? ' - Starts before a dependency finishes' : ''} - Click ✏️ to edit`}
     >
       <div
         className={`${styles.resizeHandle} ${styles.leftHandle}`}
@@ -214,12 +212,41 @@ export const TaskBar: React.FC<TaskBarProps> = ({
       
       <div className={styles.barContent}>
         <div className={styles.taskInfo}>
+          {task.recurrence && (
+            <span className={styles.recurringIcon} aria-label="Recurring">↻</span>
+          )}
+          {task.pinned && (
+            <span className={styles.pinnedIcon} aria-label="Pinned">📌</span>
+          )}
+          {task.priority && (
+            <span className={styles.priority} data-priority={task.priority}>{task.priority}</span>
+          )}
           <span className={styles.taskName}>{task.name}</span>
+          {task.tags && task.tags.length > 0 && width >= MIN_TAGS_WIDTH && (
+            <span className={styles.tags}>
+              {task.tags.slice(0, MAX_VISIBLE_TAGS).map(tag => (
+                <span key={tag} className={styles.tag}>#{tag}</span>
+              ))}
+              {task.tags.length > MAX_VISIBLE_TAGS && (
+                <span className={styles.tag}>+{task.tags.length - MAX_VISIBLE_TAGS}</span>
+              )}
+            </span>
+          )}
           {duration > 1 && (
             <span className={styles.duration}>{duration}d</span>
           )}
+          {progress && (
+            <span className={styles.progress} title={`${progress.done}/${progress.total} subtasks done`}>
+              <span className={styles.progressFill} style={{ width: `${(progress.done / progress.total) * 100}%` }} />
+            </span>
+          )}
         </div>
         <div className={styles.taskActions}>
+          {assignee && (
+            <span className={styles.avatar} style={memberColorStyle(assignee)} title={assignee.name}>
+              {getInitials(assignee.name)}
+            </span>
+          )}
           {onEdit && (
             <button 
               className={styles.editButton}
@@ -256,6 +283,17 @@ export const TaskBar: React.FC<TaskBarProps> = ({
               ✏️ Edit
             </button>
           )}
+          {onPinToggle && (
+            <button 
+              className={styles.actionButton}
+              onClick={() => {
+                onPinToggle(task.id);
+                setShowActions(false);
+              }}
+            >
+              📌 {task.pinned ? 'Unpin' : 'Pin'}
+            </button>
+          )}
           {onDelete && (
             <button 
               className={styles.actionButton}
@@ -271,5 +309,4 @@ export const TaskBar: React.FC<TaskBarProps> = ({
       )}
     </div>
   );
-};
-
+});
@@ -1,53 +1,234 @@
 import React, { useEffect, useRef } from 'react';
-import type { Category, DateRange } from '../types';
+import type { CategoryDefinition, DateRange, Recurrence, RecurrenceFrequency, Subtask, Task, TaskDetails, TaskPriority, TeamMember, WeekStartDay } from '../types';
+import { describeRecurrence } from '../lib/recurrence';
+import { TASK_PRIORITIES, normalizeTag, parseTags } from '../lib/taskDetails';
+import { createSubtask, getChecklistProgress, getCompletionCategory, isChecklistComplete, moveSubtask } from '../lib/subtasks';
+import { Markdown } from './Markdown';
 import styles from './TaskModal.module.css';
 
+export interface TaskFormValues {
+  name: string;
+  category: string;
+  recurrence?: Recurrence;
+  dependsOn?: string[];
+  details: TaskDetails;
+  promotedSubtasks?: string[]; // names of checklist items to create as tasks of their own
+}
+
 interface TaskModalProps {
   isOpen: boolean;
   draftRange?: DateRange;
   initialName?: string;
-  initialCategory?: Category;
+  initialCategory?: string;
+  categories: CategoryDefinition[];
+  weekStartsOn?: WeekStartDay;
+  initialRecurrence?: Recurrence;
   isEditing?: boolean;
+  isOccurrence?: boolean;
+  initialDependsOn?: string[];
+  dependencyOptions?: Task[];
+  validateDependencies?: (dependsOn: string[]) => string | null;
+  initialDescription?: string;
+  initialAssignee?: string;
+  initialPriority?: TaskPriority;
+  initialTags?: string[];
+  team?: TeamMember[];
+  knownTags?: string[]; // suggested while typing a tag
+  initialSubtasks?: Subtask[];
+  completeWithChecklist?: boolean; // checking off the last item selects the done category
   onClose: () => void;
-  onSubmit: (name: string, category: Category) => void;
+  onSubmit: (values: TaskFormValues) => void;
 }
 
-const CATEGORIES: Category[] = ["To Do", "In Progress", "Review", "Completed"];
+const FREQUENCIES: { value: RecurrenceFrequency | 'none'; label: string }[] = [
+  { value: 'none', label: 'Does not repeat' },
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'yearly', label: 'Yearly' }
+];
+const WEEKDAY_LABELS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+type RecurrenceEnd = 'never' | 'count' | 'until';
 
 export const TaskModal: React.FC<TaskModalProps> = ({
   isOpen,
   draftRange,
   initialName = '',
-  initialCategory = "To Do",
+  initialCategory,
+  categories,
+  weekStartsOn = 0,
+  initialRecurrence,
   isEditing = false,
+  isOccurrence = false,
+  initialDependsOn,
+  dependencyOptions = [],
+  validateDependencies,
+  initialDescription,
+  initialAssignee,
+  initialPriority,
+  initialTags,
+  team = [],
+  knownTags = [],
+  initialSubtasks,
+  completeWithChecklist = false,
   onClose,
   onSubmit
 }) => {
   const [name, setName] = React.useState(initialName);
-  const [category, setCategory] = React.useState<Category>(initialCategory);
+  const defaultCategory = initialCategory ?? categories[0]?.id ?? '';
+  const [category, setCategory] = React.useState(defaultCategory);
+  const [frequency, setFrequency] = React.useState<RecurrenceFrequency | 'none'>('none');
+  const [repeatInterval, setRepeatInterval] = React.useState(1);
+  const [byWeekday, setByWeekday] = React.useState<number[]>([]);
+  const [endMode, setEndMode] = React.useState<RecurrenceEnd>('never');
+  const [count, setCount] = React.useState(10);
+  const [until, setUntil] = React.useState('');
+  const [dependsOn, setDependsOn] = React.useState<string[]>([]);
+  const [description, setDescription] = React.useState('');
+  const [isPreviewingDescription, setIsPreviewingDescription] = React.useState(false);
+  const [assignee, setAssignee] = React.useState('');
+  const [priority, setPriority] = React.useState<TaskPriority | ''>('');
+  const [tags, setTags] = React.useState<string[]>([]);
+  const [tagInput, setTagInput] = React.useState('');
+  const [subtasks, setSubtasks] = React.useState<Subtask[]>([]);
+  const [subtaskInput, setSubtaskInput] = React.useState('');
+  const [promotedSubtasks, setPromotedSubtasks] = React.useState<string[]>([]);
   const nameInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     if (isOpen) {
       setName(initialName);
-      setCategory(initialCategory);
+      setCategory(defaultCategory);
+      setFrequency(initialRecurrence?.frequency ?? 'none');
+      setRepeatInterval(initialRecurrence?.interval ?? 1);
+      setByWeekday(initialRecurrence?.byWeekday ?? []);
+      setEndMode(
+        initialRecurrence?.count !== undefined ? 'count' : initialRecurrence?.until ? 'until' : 'never'
+      );
+      setCount(initialRecurrence?.count ?? 10);
+      setUntil(initialRecurrence?.until ?? draftRange?.end ?? '');
+      setDependsOn(initialDependsOn ?? []);
+      setDescription(initialDescription ?? '');
+      setIsPreviewingDescription(false);
+      setAssignee(initialAssignee ?? '');
+      setPriority(initialPriority ?? '');
+      setTags(initialTags ?? []);
+      setTagInput('');
+      setSubtasks(initialSubtasks ?? []);
+      setSubtaskInput('');
+      setPromotedSubtasks([]);
       // Focus input after modal opens
       setTimeout(() => {
         nameInputRef.current?.focus();
       }, 100);
     }
-  }, [isOpen, initialName, initialCategory]);
+  }, [
+    isOpen, initialName, defaultCategory, initialRecurrence, initialDependsOn, draftRange?.end,
+    initialDescription, initialAssignee, initialPriority, initialTags, initialSubtasks
+  ]);
 
   if (!isOpen) return null;
 
+  const buildRecurrence = (): Recurrence | undefined => {
+    if (frequency === 'none') return undefined;
+
+    return {
+      frequency,
+      interval: Math.max(1, repeatInterval),
+      byWeekday: frequency === 'weekly' && byWeekday.length > 0 ? byWeekday : undefined,
+      count: endMode === 'count' ? Math.max(1, count) : undefined,
+      until: endMode === 'until' && until ? until : undefined,
+      // Skipped occurrences are kept while the rule itself is unchanged
+      exceptions: initialRecurrence?.exceptions
+    };
+  };
+
+  const handleWeekdayToggle = (weekday: number) => {
+    setByWeekday(byWeekday.includes(weekday)
+      ? byWeekday.filter(d => d !== weekday)
+      : [...byWeekday, weekday]);
+  };
+
+  const handleDependencyToggle = (taskId: string) => {
+    setDependsOn(dependsOn.includes(taskId)
+      ? dependsOn.filter(id => id !== taskId)
+      : [...dependsOn, taskId]);
+  };
+
+  // Tags are added on Enter or comma; a half-typed tag is kept when submitting
+  const addTags = (text: string) => {
+    const added = parseTags(text).filter(tag => !tags.includes(tag));
+    if (added.length > 0) setTags([...tags, ...added]);
+    setTagInput('');
+  };
+
+  const handleTagKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addTags(tagInput);
+    } else if (e.key === 'Backspace' && !tagInput && tags.length > 0) {
+      setTags(tags.slice(0, -1));
+    }
+  };
+
+  const completionCategory = completeWithChecklist ? getCompletionCategory(categories) : null;
+
+  const updateSubtask = (id: string, changes: Partial<Subtask>) => {
+    setSubtasks(subtasks.map(subtask => subtask.id === id ? { ...subtask, ...changes } : subtask));
+  };
+
+  const handleSubtaskToggle = (id: string) => {
+    const next = subtasks.map(subtask => subtask.id === id ? { ...subtask, done: !subtask.done } : subtask);
+    setSubtasks(next);
+    if (completionCategory && isChecklistComplete(next)) {
+      setCategory(completionCategory.id);
+    }
+  };
+
+  const addSubtask = () => {
+    if (!subtaskInput.trim()) return;
+    setSubtasks([...subtasks, createSubtask(subtaskInput)]);
+    setSubtaskInput('');
+  };
+
+  // The item becomes a task with this task's dates once the form is submitted
+  const handleSubtaskPromote = (subtask: Subtask) => {
+    setSubtasks(subtasks.filter(item => item.id !== subtask.id));
+    setPromotedSubtasks([...promotedSubtasks, subtask.name.trim()]);
+  };
+
+  const progress = getChecklistProgress(subtasks);
+
+  const tagSuggestions = knownTags.filter(tag => !tags.includes(tag));
+
+  const dependencyError = validateDependencies ? validateDependencies(dependsOn) : null;
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (name.trim()) {
-      onSubmit(name.trim(), category);
+    if (name.trim() && !dependencyError) {
+      onSubmit({
+        name: name.trim(),
+        category,
+        recurrence: buildRecurrence(),
+        dependsOn: dependsOn.length > 0 ? dependsOn : undefined,
+        details: {
+          description: description.trim() ? description : undefined,
+          assignee: assignee || undefined,
+          priority: priority || undefined,
+          tags: [...tags, ...parseTags(tagInput).filter(tag => !tags.includes(tag))],
+          subtasks: subtasks
+            .filter(subtask => subtask.name.trim())
+            .map(subtask => ({ ...subtask, name: subtask.name.trim() }))
+        },
+        promotedSubtasks: promotedSubtasks.length > 0 ? promotedSubtasks : undefined
+      });
       onClose();
     }
   };
 
+  const recurrence = buildRecurrence();
+
   const handleBackdropClick = (e: React.MouseEvent) => {
     if (e.target === e.currentTarget) {
       onClose();
@@ -96,15 +277,351 @@ export const TaskModal: React.FC<TaskModalProps> = ({
               id="task-category"
               className={styles.select}
               value={category}
-              onChange={(e) => setCategory(e.target.value as Category)}
+              onChange={(e) => setCategory(e.target.value)}
               required
             >
-              {CATEGORIES.map(cat => (
-                <option key={cat} value={cat}>{cat}</option>
+              {categories.map(cat => (
+                <option key={cat.id} value={cat.id}>{cat.name}</option>
               ))}
             </select>
           </div>
 
+          <div className={styles.row}>
+            <div className={styles.field}>
+              <label htmlFor="task-assignee" className={styles.label}>
+                Assignee
+              </label>
+              <select
+                id="task-assignee"
+                className={styles.select}
+                value={assignee}
+                onChange={(e) => setAssignee(e.target.value)}
+                disabled={team.length === 0 && !assignee}
+                title={team.length === 0 ? 'Add team members in the sidebar' : undefined}
+              >
+                <option value="">Unassigned</option>
+                {team.map(member => (
+                  <option key={member.id} value={member.id}>{member.name}</option>
+                ))}
+                {assignee && !team.some(member => member.id === assignee) && (
+                  <option value={assignee}>{assignee} (not on the team)</option>
+                )}
+              </select>
+            </div>
+
+            <div className={styles.field}>
+              <label htmlFor="task-priority" className={styles.label}>
+                Priority
+              </label>
+              <select
+                id="task-priority"
+                className={styles.select}
+                value={priority}
+                onChange={(e) => setPriority(e.target.value as TaskPriority | '')}
+              >
+                <option value="">None</option>
+                {TASK_PRIORITIES.map(option => (
+                  <option key={option.value} value={option.value}>{option.value} · {option.name}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className={styles.field}>
+            <label htmlFor="task-tags" className={styles.label}>
+              Tags
+            </label>
+            <div className={styles.tagInput}>
+              {tags.map(tag => (
+                <span key={tag} className={styles.tag}>
+                  #{tag}
+                  <button
+                    type="button"
+                    className={styles.tagRemove}
+                    onClick={() => setTags(tags.filter(t => t !== tag))}
+                    aria-label={`Remove tag ${tag}`}
+                  >
+                    ×
+                  </button>
+                </span>
+              ))}
+              <input
+                id="task-tags"
+                className={styles.tagTextInput}
+                value={tagInput}
+                onChange={(e) => setTagInput(e.target.value)}
+                onKeyDown={handleTagKeyDown}
+                onBlur={() => addTags(tagInput)}
+                placeholder={tags.length === 0 ? 'e.g. backend, release' : ''}
+                list="task-tag-suggestions"
+                autoComplete="off"
+              />
+            </div>
+            <datalist id="task-tag-suggestions">
+              {tagSuggestions
+                .filter(tag => tag.startsWith(normalizeTag(tagInput)))
+                .map(tag => <option key={tag} value={tag} />)}
+            </datalist>
+          </div>
+
+          <div className={styles.field}>
+            <div className={styles.labelRow}>
+              <label htmlFor="task-description" className={styles.label}>
+                Description
+              </label>
+              <div className={styles.tabs} role="tablist">
+                <button
+                  type="button"
+                  role="tab"
+                  aria-selected={!isPreviewingDescription}
+                  className={`${styles.tab} ${!isPreviewingDescription ? styles.tabActive : ''}`}
+                  onClick={() => setIsPreviewingDescription(false)}
+                >
+                  Write
+                </button>
+                <button
+                  type="button"
+                  role="tab"
+                  aria-selected={isPreviewingDescription}
+                  className={`${styles.tab} ${isPreviewingDescription ? styles.tabActive : ''}`}
+                  onClick={() => setIsPreviewingDescription(true)}
+                >
+                  Preview
+                </button>
+              </div>
+            </div>
+            {isPreviewingDescription ? (
+              <div className={styles.descriptionPreview}>
+                {description.trim()
+                  ? <Markdown text={description} />
+                  : <span className={styles.recurrenceSummary}>Nothing to preview</span>}
+              </div>
+            ) : (
+              <textarea
+                id="task-description"
+                className={`${styles.input} ${styles.textarea}`}
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="Notes, links, steps… Markdown is supported."
+                rows={4}
+              />
+            )}
+          </div>
+
+          <div className={styles.field}>
+            <div className={styles.labelRow}>
+              <label htmlFor="task-subtask-new" className={styles.label}>
+                Checklist
+              </label>
+              {progress && (
+                <span className={styles.recurrenceSummary}>{progress.done}/{progress.total} done</span>
+              )}
+            </div>
+            {subtasks.length > 0 && (
+              <ol className={styles.checklist}>
+                {subtasks.map((subtask, index) => (
+                  <li key={subtask.id} className={styles.checklistItem}>
+                    <input
+                      type="checkbox"
+                      checked={subtask.done}
+                      onChange={() => handleSubtaskToggle(subtask.id)}
+                      aria-label={`${subtask.name || 'Item'} done`}
+                    />
+                    <input
+                      className={`${styles.checklistName} ${subtask.done ? styles.checklistDone : ''}`}
+                      value={subtask.name}
+                      onChange={(e) => updateSubtask(subtask.id, { name: e.target.value })}
+                      onKeyDown={(e) => e.key === 'Enter' && e.preventDefault()}
+                      aria-label={`Item ${index + 1}`}
+                    />
+                    <button
+                      type="button"
+                      className={styles.checklistButton}
+                      onClick={() => setSubtasks(moveSubtask(subtasks, index, -1))}
+                      disabled={index === 0}
+                      aria-label={`Move ${subtask.name} up`}
+                      title="Move up"
+                    >
+                      ↑
+                    </button>
+                    <button
+                      type="button"
+                      className={styles.checklistButton}
+                      onClick={() => setSubtasks(moveSubtask(subtasks, index, 1))}
+                      disabled={index === subtasks.length - 1}
+                      aria-label={`Move ${subtask.name} down`}
+                      title="Move down"
+                    >
+                      ↓
+                    </button>
+                    {!isOccurrence && (
+                      <button
+                        type="button"
+                        className={styles.checklistButton}
+                        onClick={() => handleSubtaskPromote(subtask)}
+                        disabled={!subtask.name.trim()}
+                        aria-label={`Promote ${subtask.name} to a task`}
+                        title="Promote to a task"
+                      >
+                        ↗
+                      </button>
+                    )}
+                    <button
+                      type="button"
+                      className={styles.checklistButton}
+                      onClick={() => setSubtasks(subtasks.filter(item => item.id !== subtask.id))}
+                      aria-label={`Remove ${subtask.name}`}
+                      title="Remove"
+                    >
+                      ×
+                    </button>
+                  </li>
+                ))}
+              </ol>
+            )}
+            <input
+              id="task-subtask-new"
+              className={styles.input}
+              value={subtaskInput}
+              onChange={(e) => setSubtaskInput(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  addSubtask();
+                }
+              }}
+              onBlur={addSubtask}
+              placeholder="Add an item and press Enter"
+            />
+            {promotedSubtasks.length > 0 && (
+              <div className={styles.recurrenceSummary}>
+                Saving also creates {promotedSubtasks.length === 1 ? 'a task' : 'tasks'} for: {promotedSubtasks.join(', ')}
+              </div>
+            )}
+            {completionCategory && (
+              <div className={styles.recurrenceSummary}>
+                Checking off every item moves the task to {completionCategory.name}.
+              </div>
+            )}
+          </div>
+
+          <div className={styles.field}>
+            <label htmlFor="task-repeat" className={styles.label}>
+              Repeat
+            </label>
+            <select
+              id="task-repeat"
+              className={styles.select}
+              value={frequency}
+              onChange={(e) => setFrequency(e.target.value as RecurrenceFrequency | 'none')}
+            >
+              {FREQUENCIES.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+
+            {frequency !== 'none' && (
+              <div className={styles.recurrenceOptions}>
+                <label className={styles.inlineField}>
+                  Every
+                  <input
+                    type="number"
+                    min={1}
+                    className={styles.numberInput}
+                    value={repeatInterval}
+                    onChange={(e) => setRepeatInterval(Number(e.target.value) || 1)}
+                  />
+                  {frequency === 'daily' ? 'day(s)' : frequency === 'weekly' ? 'week(s)' : frequency === 'monthly' ? 'month(s)' : 'year(s)'}
+                </label>
+
+                {frequency === 'weekly' && (
+                  <div className={styles.weekdays}>
+                    {WEEKDAY_LABELS.map((_, offset) => {
+                      // Buttons follow the display week start, values stay 0 = Sunday
+                      const weekday = (weekStartsOn + offset) % 7;
+                      return (
+                        <button
+                          key={weekday}
+                          type="button"
+                          className={`${styles.weekdayButton} ${byWeekday.includes(weekday) ? styles.weekdayActive : ''}`}
+                          onClick={() => handleWeekdayToggle(weekday)}
+                          aria-pressed={byWeekday.includes(weekday)}
+                        >
+                          {WEEKDAY_LABELS[weekday]}
+                        </button>
+                      );
+                    })}
+                  </div>
+                )}
+
+                <label className={styles.inlineField}>
+                  Ends
+                  <select
+                    className={styles.select}
+                    value={endMode}
+                    onChange={(e) => setEndMode(e.target.value as RecurrenceEnd)}
+                  >
+                    <option value="never">Never</option>
+                    <option value="count">After</option>
+                    <option value="until">On date</option>
+                  </select>
+                  {endMode === 'count' && (
+                    <>
+                      <input
+                        type="number"
+                        min={1}
+                        className={styles.numberInput}
+                        value={count}
+                        onChange={(e) => setCount(Number(e.target.value) || 1)}
+                      />
+                      times
+                    </>
+                  )}
+                  {endMode === 'until' && (
+                    <input
+                      type="date"
+                      className={styles.input}
+                      value={until}
+                      onChange={(e) => setUntil(e.target.value)}
+                    />
+                  )}
+                </label>
+
+                {recurrence && (
+                  <div className={styles.recurrenceSummary}>{describeRecurrence(recurrence)}</div>
+                )}
+              </div>
+            )}
+
+            {isOccurrence && (
+              <div className={styles.recurrenceSummary}>
+                This task is part of a recurring series. You'll be asked which occurrences to change.
+              </div>
+            )}
+          </div>
+
+          {dependencyOptions.length > 0 && (
+            <div className={styles.field}>
+              <span className={styles.label}>Depends on</span>
+              <div className={styles.dependencyList}>
+                {dependencyOptions.map(option => (
+                  <label key={option.id} className={styles.dependencyOption}>
+                    <input
+                      type="checkbox"
+                      checked={dependsOn.includes(option.id)}
+                      onChange={() => handleDependencyToggle(option.id)}
+                    />
+                    <span className={styles.dependencyName}>{option.name}</span>
+                    <span className={styles.dependencyDates}>{option.start} – {option.end}</span>
+                  </label>
+                ))}
+              </div>
+              {dependencyError && (
+                <div className={styles.fieldError}>{dependencyError}</div>
+              )}
+            </div>
+          )}
+
           <div className={styles.actions}>
             <button
               type="button"
@@ -116,7 +633,7 @@ export const TaskModal: React.FC<TaskModalProps> = ({
             <button
               type="submit"
               className={styles.submitButton}
-              disabled={!name.trim()}
+              disabled={!name.trim() || !!dependencyError}
             >
               {isEditing ? 'Update' : 'Create'}
             </button>
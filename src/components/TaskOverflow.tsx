@@ -0,0 +1,190 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { format } from 'date-fns';
+import type { CalendarDay } from '../lib/dates';
+import type { TaskSegment } from '../lib/taskSegments';
+import type { CategoryDefinition, Task } from '../types';
+import type { TaskDragMode } from '../hooks/useTaskDrag';
+import { categoryColorStyle, getCategory } from '../lib/categories';
+import { formatDateRangeDisplay } from '../lib/dates';
+import styles from './TaskOverflow.module.css';
+
+interface TaskOverflowProps {
+  days: CalendarDay[]; // the week row's days, one per column
+  hiddenByColumn: TaskSegment[][];
+  categories: CategoryDefinition[];
+  cellWidth: number;
+  top: number; // px offset of the last visible lane
+  height: number;
+  onDragStart?: (task: Task, mode: TaskDragMode, e: React.PointerEvent, grabDate?: string) => void;
+  onEdit?: (taskId: string) => void;
+}
+
+/**
+ * "+N more" controls for the days of a week row whose tasks don't fit in the
+ * visible lanes. Each opens a popover listing that day's hidden tasks, which
+ * can be edited or dragged like their task bars.
+ */
+export const TaskOverflow: React.FC<TaskOverflowProps> = ({
+  days,
+  hiddenByColumn,
+  categories,
+  cellWidth,
+  top,
+  height,
+  onDragStart,
+  onEdit
+}) => {
+  const [openColumn, setOpenColumn] = useState<number | null>(null);
+  const popoverRef = useRef<HTMLDivElement>(null);
+  const buttonRefs = useRef<(HTMLButtonElement | null)[]>([]);
+
+  const hiddenTasks = openColumn === null ? [] : hiddenByColumn[openColumn] ?? [];
+
+  // Close once the day no longer overflows, e.g. after its tasks were moved away
+  useEffect(() => {
+    if (openColumn !== null && hiddenTasks.length === 0) {
+      setOpenColumn(null);
+    }
+  }, [openColumn, hiddenTasks.length]);
+
+  useEffect(() => {
+    if (openColumn === null) return;
+
+    popoverRef.current?.querySelector<HTMLElement>('[data-overflow-task]')?.focus();
+
+    const handlePointerDown = (e: PointerEvent) => {
+      const target = e.target as Node;
+      if (!popoverRef.current?.contains(target) && !buttonRefs.current[openColumn]?.contains(target)) {
+        setOpenColumn(null);
+      }
+    };
+
+    // Capture phase, since task bars stop pointerdown from bubbling when a drag starts
+    document.addEventListener('pointerdown', handlePointerDown, true);
+    return () => {
+      document.removeEventListener('pointerdown', handlePointerDown, true);
+    };
+  }, [openColumn]);
+
+  const close = (restoreFocus: boolean) => {
+    if (restoreFocus && openColumn !== null) {
+      buttonRefs.current[openColumn]?.focus();
+    }
+    setOpenColumn(null);
+  };
+
+  const handlePopoverKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      // Handled here, so the selection toolbar doesn't also clear the selection
+      e.preventDefault();
+      e.stopPropagation();
+      close(true);
+    }
+  };
+
+  const handleItemKeyDown = (task: Task) => (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && onEdit) {
+      e.preventDefault();
+      e.stopPropagation();
+      close(false);
+      onEdit(task.id);
+    }
+  };
+
+  const handleItemPointerDown = (task: Task, isoDate: string) => (e: React.PointerEvent) => {
+    if (!onDragStart || e.button !== 0) return;
+    onDragStart(task, 'move', e, isoDate);
+    // The dragged task is shown as a bar or in another day's list while it moves
+    close(false);
+  };
+
+  return (
+    <>
+      {hiddenByColumn.map((segments, column) => segments.length > 0 && (
+        <button
+          key={days[column].isoDate}
+          ref={element => { buttonRefs.current[column] = element; }}
+          className={`${styles.moreButton} ${openColumn === column ? styles.moreButtonOpen : ''}`}
+          style={{
+            left: `${column * cellWidth}px`,
+            top: `${top}px`,
+            width: `${cellWidth - 4}px`,
+            height: `${height}px`
+          }}
+          onPointerDown={e => e.stopPropagation()}
+          onClick={() => setOpenColumn(openColumn === column ? null : column)}
+          aria-haspopup="dialog"
+          aria-expanded={openColumn === column}
+          aria-label={`${segments.length} more task${segments.length !== 1 ? 's' : ''} on ${format(days[column].date, 'MMMM d')}`}
+        >
+          +{segments.length} more
+        </button>
+      ))}
+
+      {openColumn !== null && hiddenTasks.length > 0 && (
+        <div
+          ref={popoverRef}
+          className={styles.popover}
+          style={{
+            left: `${Math.min(openColumn, days.length - 2) * cellWidth}px`,
+            top: `${top}px`,
+            minWidth: `${cellWidth * 1.5}px`
+          }}
+          role="dialog"
+          aria-label={`Tasks on ${format(days[openColumn].date, 'EEEE, MMMM d')}`}
+          onKeyDown={handlePopoverKeyDown}
+          onPointerDown={e => e.stopPropagation()}
+        >
+          <div className={styles.popoverHeader}>
+            <span>{format(days[openColumn].date, 'EEE, MMM d')}</span>
+            <button className={styles.closeButton} onClick={() => close(true)} aria-label="Close">
+              ✕
+            </button>
+          </div>
+          <ul className={styles.list}>
+            {hiddenTasks.map(segment => {
+              const task = segment.task;
+              const category = getCategory(categories, task.category);
+              return (
+                <li key={task.id}>
+                  <div
+                    className={`${styles.item} ${category.isDone ? styles.completed : ''}`}
+                    style={categoryColorStyle(category)}
+                    data-overflow-task
+                    tabIndex={0}
+                    role="button"
+                    aria-label={`${task.name}, ${category.name}, ${formatDateRangeDisplay(task.start, task.end)}`}
+                    title="Drag to move, Enter to edit"
+                    onPointerDown={handleItemPointerDown(task, days[openColumn].isoDate)}
+                    onKeyDown={handleItemKeyDown(task)}
+                  >
+                    <span className={styles.swatch} />
+                    <span className={styles.itemName}>
+                      {task.recurrence && <span aria-label="Recurring">↻ </span>}
+                      {task.name}
+                    </span>
+                    <span className={styles.itemDates}>{formatDateRangeDisplay(task.start, task.end)}</span>
+                    {onEdit && (
+                      <button
+                        className={styles.editButton}
+                        onPointerDown={e => e.stopPropagation()}
+                        onClick={() => {
+                          close(false);
+                          onEdit(task.id);
+                        }}
+                        title="Edit task"
+                        tabIndex={-1}
+                      >
+                        ✏️
+                      </button>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </>
+  );
+};
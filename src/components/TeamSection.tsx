@@ -0,0 +1,142 @@
+import React, { useEffect, useState } from 'react';
+import type { TeamMember, WeekStartDay } from '../types';
+import { MEMBER_COLORS, createMemberId, getInitials, memberColorStyle } from '../lib/team';
+import { WorkingDaysPicker } from './WorkingDaysPicker';
+import styles from './TeamSection.module.css';
+
+interface TeamSectionProps {
+  team: TeamMember[];
+  usage: Map<string, number>; // assigned task count per member id
+  defaultWeekendDays: number[]; // the working calendar's weekend, used unless a member has their own
+  weekStartsOn: WeekStartDay;
+  onTeamChange: (team: TeamMember[]) => void;
+}
+
+// Renames are committed on blur, so the field can be cleared while retyping
+const MemberNameInput: React.FC<{ name: string; onRename: (name: string) => void }> = ({ name, onRename }) => {
+  const [value, setValue] = useState(name);
+  useEffect(() => setValue(name), [name]);
+
+  return (
+    <input
+      className={styles.input}
+      value={value}
+      onChange={(e) => setValue(e.target.value)}
+      onBlur={() => value.trim() ? onRename(value.trim()) : setValue(name)}
+      onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+      aria-label="Member name"
+    />
+  );
+};
+
+/**
+ * The local team roster that tasks can be assigned to
+ */
+export const TeamSection: React.FC<TeamSectionProps> = ({
+  team,
+  usage,
+  defaultWeekendDays,
+  weekStartsOn,
+  onTeamChange
+}) => {
+  const [newName, setNewName] = useState('');
+  const [scheduleMemberId, setScheduleMemberId] = useState<string | null>(null);
+
+  const updateMember = (id: string, changes: Partial<TeamMember>) => {
+    onTeamChange(team.map(member => member.id === id ? { ...member, ...changes } : member));
+  };
+
+  const resetWeekend = (id: string) => {
+    onTeamChange(team.map(member => {
+      if (member.id !== id) return member;
+      const { weekendDays, ...rest } = member;
+      return rest;
+    }));
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newName.trim();
+    if (!name) return;
+
+    onTeamChange([
+      ...team,
+      { id: createMemberId(name, team), name, color: MEMBER_COLORS[team.length % MEMBER_COLORS.length] }
+    ]);
+    setNewName('');
+  };
+
+  return (
+    <div className={styles.section}>
+      <label className={styles.label}>Team</label>
+
+      {team.map(member => {
+        const assigned = usage.get(member.id) ?? 0;
+        const isEditingSchedule = scheduleMemberId === member.id;
+        return (
+          <React.Fragment key={member.id}>
+            <div className={styles.member}>
+              <label className={styles.avatar} style={memberColorStyle(member)} title="Change color">
+                {getInitials(member.name)}
+                <input
+                  type="color"
+                  className={styles.colorInput}
+                  value={member.color}
+                  onChange={(e) => updateMember(member.id, { color: e.target.value })}
+                  aria-label={`${member.name} color`}
+                />
+              </label>
+              <MemberNameInput name={member.name} onRename={name => updateMember(member.id, { name })} />
+              <button
+                className={`${styles.scheduleButton} ${member.weekendDays ? styles.scheduleCustom : ''}`}
+                onClick={() => setScheduleMemberId(isEditingSchedule ? null : member.id)}
+                aria-expanded={isEditingSchedule}
+                aria-label={`${member.name} working days`}
+                title={member.weekendDays ? 'Own working days' : 'Working days'}
+              >
+                📅
+              </button>
+              <button
+                className={styles.removeButton}
+                onClick={() => onTeamChange(team.filter(m => m.id !== member.id))}
+                disabled={assigned > 0}
+                aria-label={`Remove ${member.name}`}
+                title={assigned > 0 ? `Assigned to ${assigned} task${assigned !== 1 ? 's' : ''}` : 'Remove'}
+              >
+                ×
+              </button>
+            </div>
+            {isEditingSchedule && (
+              <div className={styles.schedule}>
+                <WorkingDaysPicker
+                  weekendDays={member.weekendDays ?? defaultWeekendDays}
+                  weekStartsOn={weekStartsOn}
+                  label={`${member.name} working days`}
+                  onChange={weekendDays => updateMember(member.id, { weekendDays })}
+                />
+                {member.weekendDays && (
+                  <button className={styles.resetButton} onClick={() => resetWeekend(member.id)}>
+                    Use calendar default
+                  </button>
+                )}
+              </div>
+            )}
+          </React.Fragment>
+        );
+      })}
+
+      <form className={styles.addForm} onSubmit={handleAdd}>
+        <input
+          className={styles.input}
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="Add a team member…"
+          aria-label="New team member name"
+        />
+        <button type="submit" className={styles.addButton} disabled={!newName.trim()}>
+          Add
+        </button>
+      </form>
+    </div>
+  );
+};
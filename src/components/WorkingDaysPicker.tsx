@@ -0,0 +1,50 @@
+import React from 'react';
+import type { WeekStartDay } from '../types';
+import { getWeekdayLabels } from '../lib/dates';
+import styles from './WorkingDaysPicker.module.css';
+
+interface WorkingDaysPickerProps {
+  weekendDays: number[];
+  weekStartsOn: WeekStartDay;
+  label: string; // names the group for screen readers
+  onChange: (weekendDays: number[]) => void;
+}
+
+// Narrow weekday names starting from Sunday
+const WEEKDAY_LETTERS = getWeekdayLabels(0, 'EEEEE');
+const WEEKDAY_NAMES = getWeekdayLabels(0, 'EEEE');
+
+/**
+ * One toggle per weekday, pressed for working days. The last working day
+ * can't be switched off.
+ */
+export const WorkingDaysPicker: React.FC<WorkingDaysPickerProps> = ({
+  weekendDays,
+  weekStartsOn,
+  label,
+  onChange
+}) => (
+  <div className={styles.weekdays} role="group" aria-label={label}>
+    {WEEKDAY_LETTERS.map((_, offset) => {
+      // Buttons follow the display week start, values stay 0 = Sunday
+      const weekday = (weekStartsOn + offset) % 7;
+      const isWorking = !weekendDays.includes(weekday);
+      return (
+        <button
+          key={weekday}
+          type="button"
+          className={`${styles.weekdayButton} ${isWorking ? styles.weekdayActive : ''}`}
+          onClick={() => onChange(isWorking
+            ? [...weekendDays, weekday].sort((a, b) => a - b)
+            : weekendDays.filter(day => day !== weekday))}
+          disabled={isWorking && weekendDays.length === 6}
+          aria-pressed={isWorking}
+          aria-label={WEEKDAY_NAMES[weekday]}
+          title={`${WEEKDAY_NAMES[weekday]}: ${isWorking ? 'working day' : 'day off'}`}
+        >
+          {WEEKDAY_LETTERS[weekday]}
+        </button>
+      );
+    })}
+  </div>
+);
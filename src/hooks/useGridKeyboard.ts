@@ -0,0 +1,117 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { parseISO } from 'date-fns';
+import type { DateRange, SelectionState, WeekStartDay } from '../types';
+import { dayCountInclusive, formatDateRangeDisplay, getKeyboardTargetDate, normalizeDateRange } from '../lib/dates';
+
+interface GridKeyboardOptions {
+  gridRef: React.RefObject<HTMLElement>;
+  visibleRange: DateRange; // first and last date rendered in the grid
+  defaultDate: string; // focused when the grid is first tabbed into
+  weekStartsOn: WeekStartDay;
+  selection: SelectionState;
+  onSelectionStart: (isoDate: string) => void;
+  onSelectionUpdate: (isoDate: string) => void;
+  onSelectionEnd?: () => void;
+  onSelectionCancel?: () => void;
+  onNavigate?: (date: Date) => void; // show the period containing a date outside the grid
+  onAnnounce?: (message: string) => void;
+}
+
+/**
+ * Roving focus and keyboard range selection for a calendar grid. One day
+ * cell is in the tab order at a time; arrows move it, Shift+arrows extend a
+ * selection from the focused day and Enter opens it in the task modal.
+ */
+export function useGridKeyboard({
+  gridRef,
+  visibleRange,
+  defaultDate,
+  weekStartsOn,
+  selection,
+  onSelectionStart,
+  onSelectionUpdate,
+  onSelectionEnd,
+  onSelectionCancel,
+  onNavigate,
+  onAnnounce
+}: GridKeyboardOptions) {
+  const [focusedDate, setFocusedDate] = useState<string | null>(null);
+  // Only move DOM focus after keyboard navigation, never on an unrelated re-render
+  const shouldFocusRef = useRef(false);
+
+  const isVisible = (isoDate: string) => isoDate >= visibleRange.start && isoDate <= visibleRange.end;
+  const activeDate = focusedDate && isVisible(focusedDate) ? focusedDate : defaultDate;
+
+  useEffect(() => {
+    if (!shouldFocusRef.current || !gridRef.current) return;
+
+    const cell = gridRef.current.querySelector<HTMLElement>(`[role="gridcell"][data-date="${activeDate}"]`);
+    if (cell) {
+      shouldFocusRef.current = false;
+      cell.focus();
+    }
+  });
+
+  // Stable, so memoized day cells don't re-render for it
+  const handleCellFocus = useCallback((isoDate: string) => {
+    setFocusedDate(isoDate);
+  }, []);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    // Task bars inside the grid handle their own keys
+    if ((e.target as HTMLElement).getAttribute('role') !== 'gridcell') return;
+
+    if (e.key === 'Enter' || e.key === ' ') {
+      e.preventDefault();
+      if (!selection.isSelecting) {
+        onSelectionStart(activeDate);
+      }
+      onSelectionEnd?.();
+      return;
+    }
+
+    if (e.key === 'Escape' && selection.isSelecting) {
+      e.preventDefault();
+      onSelectionCancel?.();
+      onAnnounce?.('Selection cleared');
+      return;
+    }
+
+    const target = getKeyboardTargetDate(activeDate, e.key, weekStartsOn);
+    if (!target) return;
+    e.preventDefault();
+
+    if (!isVisible(target)) {
+      if (!onNavigate) return;
+      onNavigate(parseISO(target));
+    }
+
+    const extendsSelection = e.shiftKey && e.key.startsWith('Arrow');
+    if (extendsSelection) {
+      const anchor = selection.isSelecting && selection.start ? selection.start : activeDate;
+      if (!selection.isSelecting) {
+        onSelectionStart(anchor);
+      }
+      onSelectionUpdate(target);
+
+      const range = normalizeDateRange(anchor, target);
+      const days = dayCountInclusive(range.start, range.end);
+      onAnnounce?.(`Selected ${formatDateRangeDisplay(range.start, range.end)}, ${days} day${days === 1 ? '' : 's'}. Press Enter to create a task.`);
+    } else if (selection.isSelecting) {
+      onSelectionCancel?.();
+    }
+
+    shouldFocusRef.current = true;
+    setFocusedDate(target);
+  };
+
+  // A keyboard selection is abandoned when focus leaves the grid, so a later
+  // click elsewhere doesn't finish it
+  const handleBlur = (e: React.FocusEvent) => {
+    if (selection.isSelecting && !gridRef.current?.contains(e.relatedTarget as Node | null)) {
+      onSelectionCancel?.();
+    }
+  };
+
+  return { focusedDate: activeDate, handleCellFocus, handleKeyDown, handleBlur };
+}
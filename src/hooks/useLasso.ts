@@ -0,0 +1,128 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+
+const MIN_LASSO_SIZE = 4; // px; anything smaller is a Shift-click, not a lasso
+
+interface LassoOptions {
+  gridRef: React.RefObject<HTMLElement>;
+  selectedTaskIds: string[];
+  onSelectionChange?: (taskIds: string[]) => void;
+}
+
+export interface LassoRect {
+  left: number; // px relative to the grid
+  top: number;
+  width: number;
+  height: number;
+}
+
+interface LassoSession {
+  originX: number;
+  originY: number;
+  currentX: number;
+  currentY: number;
+  additive: boolean;
+}
+
+function toViewportRect(session: LassoSession) {
+  return {
+    left: Math.min(session.originX, session.currentX),
+    right: Math.max(session.originX, session.currentX),
+    top: Math.min(session.originY, session.currentY),
+    bottom: Math.max(session.originY, session.currentY)
+  };
+}
+
+/**
+ * Ids of the task bars in a grid that intersect a viewport rectangle. A task
+ * spanning several week rows has a bar per row, and is returned once.
+ */
+export function findTaskIdsInRect(
+  grid: HTMLElement,
+  rect: { left: number; right: number; top: number; bottom: number }
+): string[] {
+  const ids = new Set<string>();
+  grid.querySelectorAll<HTMLElement>('[data-task-id]').forEach(bar => {
+    const bounds = bar.getBoundingClientRect();
+    const intersects = bounds.left < rect.right && bounds.right > rect.left
+      && bounds.top < rect.bottom && bounds.bottom > rect.top;
+    if (intersects && bar.dataset.taskId) {
+      ids.add(bar.dataset.taskId);
+    }
+  });
+  return [...ids];
+}
+
+/**
+ * Shift+drag on empty grid space draws a rectangle that selects the task bars
+ * it touches. Holding Ctrl/Cmd as well adds them to the current selection.
+ * Shift+pointerdown on a task bar is left to the bar, which selects a range.
+ */
+export function useLasso(options: LassoOptions) {
+  const [lassoRect, setLassoRect] = useState<LassoRect | null>(null);
+  const sessionRef = useRef<LassoSession | null>(null);
+
+  // Document listeners outlive renders, so they read the latest props from here
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const handlePointerMove = useCallback((e: PointerEvent) => {
+    const session = sessionRef.current;
+    const grid = optionsRef.current.gridRef.current;
+    if (!session || !grid) return;
+
+    session.currentX = e.clientX;
+    session.currentY = e.clientY;
+
+    const gridBounds = grid.getBoundingClientRect();
+    const rect = toViewportRect(session);
+    setLassoRect({
+      left: rect.left - gridBounds.left,
+      top: rect.top - gridBounds.top,
+      width: rect.right - rect.left,
+      height: rect.bottom - rect.top
+    });
+  }, []);
+
+  const endLasso = useCallback(() => {
+    const session = sessionRef.current;
+    if (!session) return;
+
+    sessionRef.current = null;
+    document.removeEventListener('pointermove', handlePointerMove);
+    document.removeEventListener('pointerup', endLasso);
+    document.body.style.userSelect = '';
+    setLassoRect(null);
+
+    const { gridRef, selectedTaskIds, onSelectionChange } = optionsRef.current;
+    const rect = toViewportRect(session);
+    if (!gridRef.current || !onSelectionChange) return;
+    if (rect.right - rect.left < MIN_LASSO_SIZE && rect.bottom - rect.top < MIN_LASSO_SIZE) return;
+
+    const hits = findTaskIdsInRect(gridRef.current, rect);
+    onSelectionChange(session.additive ? [...new Set([...selectedTaskIds, ...hits])] : hits);
+  }, [handlePointerMove]);
+
+  useEffect(() => endLasso, [endLasso]);
+
+  // Runs in the capture phase, so day cells don't start a date selection
+  const handlePointerDownCapture = (e: React.PointerEvent) => {
+    if (!options.onSelectionChange || !e.shiftKey || e.button !== 0 || sessionRef.current) return;
+    if ((e.target as HTMLElement).closest('[data-task-id]')) return;
+
+    e.preventDefault();
+    e.stopPropagation();
+
+    sessionRef.current = {
+      originX: e.clientX,
+      originY: e.clientY,
+      currentX: e.clientX,
+      currentY: e.clientY,
+      additive: e.ctrlKey || e.metaKey
+    };
+    document.addEventListener('pointermove', handlePointerMove);
+    document.addEventListener('pointerup', endLasso);
+    document.body.style.userSelect = 'none';
+  };
+
+  return { lassoRect, handlePointerDownCapture };
+}
@@ -0,0 +1,264 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import type { Task } from '../types';
+import type { DropValidator } from '../lib/dropValidation';
+import { moveTaskRange, snapRangeToWorkingDays, type WorkingCalendarResolver } from '../lib/workingDays';
+import { formatDateRangeDisplay, shiftIsoDate } from '../lib/dates';
+
+export type TaskDragMode = 'move' | 'resize-start' | 'resize-end';
+
+export const EDGE_SIZE = 16; // px inside the grid edge that count as hovering the edge
+export const EDGE_DWELL_MS = 600; // hover time at the edge before switching period
+
+interface TaskDragOptions {
+  gridRef: React.RefObject<HTMLElement>;
+  edgeAxis: 'vertical' | 'horizontal'; // month rows stack vertically, a week runs horizontally
+  onMove: (taskId: string, newStartDate: string) => void;
+  onResize: (taskId: string, newStart: string, newEnd: string) => void;
+  onGestureStart?: () => void;
+  onGestureEnd?: () => void;
+  onEdgeNavigate?: (direction: -1 | 1) => void; // show the previous or next period
+  validateDrop?: DropValidator;
+  workingCalendarFor?: WorkingCalendarResolver; // moves keep working days and edges snap to them
+  onAnnounce?: (message: string) => void;
+  dateAtPoint?: (clientX: number, clientY: number) => string | null; // for grids without day cells, e.g. the timeline
+}
+
+/**
+ * Where the dragged task would land if released now
+ */
+export interface DragPreview {
+  task: Task; // the task as it was when the drag began
+  mode: TaskDragMode;
+  start: string;
+  end: string;
+  isOutside: boolean; // the pointer is outside the grid, so releasing cancels
+  error: string | null; // why a drop here would be rejected
+}
+
+interface DragSession {
+  preview: DragPreview;
+  grabOffset: number; // days from the task start to the grabbed day
+  lastDate: string | null;
+  lastPoint: { x: number; y: number };
+  edgeDirection: -1 | 1 | null;
+  edgeTimer: number | null;
+  detach: () => void; // removes the session's document listeners
+}
+
+/**
+ * Date of the day cell under a viewport point. Points outside the grid are
+ * clamped to its edge, so dragging past the last row maps to that row.
+ */
+export function findDateAtPoint(grid: HTMLElement, clientX: number, clientY: number): string | null {
+  const rect = grid.getBoundingClientRect();
+  const x = Math.min(Math.max(clientX, rect.left + 1), rect.right - 1);
+  const y = Math.min(Math.max(clientY, rect.top + 1), rect.bottom - 1);
+
+  // Task bars sit on top of the cells, so look through every element at the point
+  for (const element of document.elementsFromPoint(x, y)) {
+    if (!grid.contains(element)) continue;
+    const date = element.closest<HTMLElement>('[data-date]')?.dataset.date;
+    if (date) return date;
+  }
+  return null;
+}
+
+function isPointInside(element: HTMLElement, x: number, y: number): boolean {
+  const rect = element.getBoundingClientRect();
+  return x >= rect.left && x <= rect.right && y >= rect.top && y <= rect.bottom;
+}
+
+/**
+ * Pointer move and resize of task bars anywhere in a calendar grid. The drag
+ * session lives in the grid rather than the bar, so it survives the bar being
+ * re-rendered in another week row or the grid switching to another period.
+ *
+ * A drag is a transaction: while the pointer moves only the preview changes,
+ * and the task is updated once on release. Escape, or releasing outside the
+ * grid, cancels it, and a drop rejected by validateDrop leaves the task as it was.
+ */
+export function useTaskDrag(options: TaskDragOptions) {
+  const [preview, setPreview] = useState<DragPreview | null>(null);
+  const sessionRef = useRef<DragSession | null>(null);
+
+  // Document listeners outlive renders, so they read the latest props from here
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const updatePreview = (session: DragSession, changes: Partial<DragPreview>) => {
+    const next = { ...session.preview, ...changes };
+    next.error = optionsRef.current.validateDrop?.(next.task, { start: next.start, end: next.end }) ?? null;
+    session.preview = next;
+    setPreview(next);
+  };
+
+  const getDateAtPoint = (grid: HTMLElement, x: number, y: number) => {
+    const { dateAtPoint } = optionsRef.current;
+    return dateAtPoint ? dateAtPoint(x, y) : findDateAtPoint(grid, x, y);
+  };
+
+  const applyPointer = useCallback((x: number, y: number) => {
+    const session = sessionRef.current;
+    const grid = optionsRef.current.gridRef.current;
+    if (!session || !grid) return;
+
+    const isOutside = !isPointInside(grid, x, y);
+    const date = getDateAtPoint(grid, x, y);
+    if (!date || date === session.lastDate) {
+      if (isOutside !== session.preview.isOutside) {
+        updatePreview(session, { isOutside });
+      }
+      return;
+    }
+    session.lastDate = date;
+
+    const { task, mode } = session.preview;
+    const calendar = optionsRef.current.workingCalendarFor?.(task);
+    if (mode === 'move') {
+      updatePreview(session, { ...moveTaskRange(task, shiftIsoDate(date, -session.grabOffset), calendar), isOutside });
+      return;
+    }
+
+    const range = mode === 'resize-start'
+      ? { start: date < task.end ? date : task.end, end: task.end }
+      : { start: task.start, end: date > task.start ? date : task.start };
+    updatePreview(session, { ...(calendar ? snapRangeToWorkingDays(range, calendar) : range), isOutside });
+  }, []);
+
+  const clearEdgeTimer = (session: DragSession) => {
+    if (session.edgeTimer !== null) {
+      window.clearTimeout(session.edgeTimer);
+      session.edgeTimer = null;
+    }
+  };
+
+  const getEdgeDirection = (x: number, y: number): -1 | 1 | null => {
+    const grid = optionsRef.current.gridRef.current;
+    if (!grid) return null;
+
+    const rect = grid.getBoundingClientRect();
+    const [position, low, high] = optionsRef.current.edgeAxis === 'vertical'
+      ? [y, rect.top, rect.bottom]
+      : [x, rect.left, rect.right];
+    if (position < low + EDGE_SIZE) return -1;
+    if (position > high - EDGE_SIZE) return 1;
+    return null;
+  };
+
+  // Switch period after hovering at the edge, and keep switching while the pointer stays there
+  const scheduleEdgeNavigation = (session: DragSession) => {
+    session.edgeTimer = window.setTimeout(() => {
+      if (sessionRef.current !== session || session.edgeDirection === null) return;
+
+      optionsRef.current.onEdgeNavigate?.(session.edgeDirection);
+      session.lastDate = null;
+      // Place the preview in the new period without waiting for the pointer to move
+      requestAnimationFrame(() => applyPointer(session.lastPoint.x, session.lastPoint.y));
+      scheduleEdgeNavigation(session);
+    }, EDGE_DWELL_MS);
+  };
+
+  const handlePointerMove = useCallback((e: PointerEvent) => {
+    const session = sessionRef.current;
+    if (!session) return;
+
+    session.lastPoint = { x: e.clientX, y: e.clientY };
+    applyPointer(e.clientX, e.clientY);
+
+    if (!optionsRef.current.onEdgeNavigate) return;
+    const direction = getEdgeDirection(e.clientX, e.clientY);
+    if (direction !== session.edgeDirection) {
+      clearEdgeTimer(session);
+      session.edgeDirection = direction;
+      if (direction !== null) {
+        scheduleEdgeNavigation(session);
+      }
+    }
+  }, []);
+
+  const finishDrag = useCallback((commit: boolean) => {
+    const session = sessionRef.current;
+    if (!session) return;
+
+    clearEdgeTimer(session);
+    session.detach();
+    sessionRef.current = null;
+    document.body.style.userSelect = '';
+    document.body.style.cursor = '';
+    setPreview(null);
+
+    const { task, mode, start, end, error } = session.preview;
+    const { onMove, onResize, onGestureStart, onGestureEnd, onAnnounce } = optionsRef.current;
+    if (start === task.start && end === task.end) return;
+
+    if (!commit) {
+      onAnnounce?.(`Cancelled moving ${task.name}`);
+      return;
+    }
+    if (error) {
+      onAnnounce?.(`Can't move ${task.name}: ${error}`);
+      return;
+    }
+
+    // The whole drag is one change, and so one undo step
+    onGestureStart?.();
+    if (mode === 'move') {
+      onMove(task.id, start);
+    } else {
+      onResize(task.id, start, end);
+    }
+    onGestureEnd?.();
+    onAnnounce?.(`${mode === 'move' ? 'Moved' : 'Resized'} ${task.name} to ${formatDateRangeDisplay(start, end)}`);
+  }, []);
+
+  // Abandon the drag if the grid goes away mid-drag (e.g. switching view)
+  useEffect(() => () => finishDrag(false), [finishDrag]);
+
+  // grabDate overrides the day under the pointer, for drags that start outside
+  // the bar, e.g. from the "+N more" popover
+  const startDrag = useCallback((task: Task, mode: TaskDragMode, e: React.PointerEvent, grabDate?: string) => {
+    const grid = optionsRef.current.gridRef.current;
+    if (!grid || sessionRef.current) return;
+
+    e.preventDefault();
+    e.stopPropagation();
+
+    const handlePointerUp = (upEvent: PointerEvent) => {
+      const currentGrid = optionsRef.current.gridRef.current;
+      finishDrag(!!currentGrid && isPointInside(currentGrid, upEvent.clientX, upEvent.clientY));
+    };
+    // Captured, so it runs before other Escape handlers such as clearing the task selection
+    const handleKeyDown = (keyEvent: KeyboardEvent) => {
+      if (keyEvent.key !== 'Escape') return;
+      keyEvent.preventDefault();
+      keyEvent.stopPropagation();
+      finishDrag(false);
+    };
+
+    const grabbed = grabDate ?? getDateAtPoint(grid, e.clientX, e.clientY) ?? task.start;
+    const session: DragSession = {
+      preview: { task, mode, start: task.start, end: task.end, isOutside: false, error: null },
+      grabOffset: mode === 'move' ? differenceInCalendarDays(parseISO(grabbed), parseISO(task.start)) : 0,
+      lastDate: grabbed,
+      lastPoint: { x: e.clientX, y: e.clientY },
+      edgeDirection: null,
+      edgeTimer: null,
+      detach: () => {
+        document.removeEventListener('pointermove', handlePointerMove);
+        document.removeEventListener('pointerup', handlePointerUp);
+        document.removeEventListener('keydown', handleKeyDown, true);
+      }
+    };
+    sessionRef.current = session;
+
+    document.addEventListener('pointermove', handlePointerMove);
+    document.addEventListener('pointerup', handlePointerUp);
+    document.addEventListener('keydown', handleKeyDown, true);
+    document.body.style.userSelect = 'none';
+    document.body.style.cursor = mode === 'move' ? 'grabbing' : 'ew-resize';
+    setPreview(session.preview);
+  }, [handlePointerMove, finishDrag]);
+
+  return { draggingTaskId: preview?.task.id ?? null, preview, startDrag };
+}
@@ -0,0 +1,59 @@
+import { useMemo, useRef } from 'react';
+import type { LaneMode, Task } from '../types';
+import type { WeekRow } from '../lib/dates';
+import {
+  createTaskIndex,
+  isLayoutCurrent,
+  layoutWeekRow,
+  queryTaskIndex,
+  updateTaskIndex,
+  type TaskIndex,
+  type WeekLayout
+} from '../lib/layoutEngine';
+
+/**
+ * Layout of task bars for a grid's week rows. The task index is updated
+ * incrementally, and a week row keeps its previous layout (and so its
+ * segment objects) unless the tasks overlapping it or the lanes carried into
+ * it changed, so moving one task only lays out the weeks it affects.
+ */
+export function useTaskLayout(
+  tasks: Task[],
+  weekRows: WeekRow[],
+  laneMode: LaneMode,
+  categoryOrder: string[]
+): WeekLayout[] {
+  const indexRef = useRef<TaskIndex | null>(null);
+  const cacheRef = useRef(new Map<string, WeekLayout>());
+
+  const index = useMemo(() => {
+    indexRef.current = indexRef.current ? updateTaskIndex(indexRef.current, tasks) : createTaskIndex(tasks);
+    return indexRef.current;
+  }, [tasks]);
+
+  return useMemo(() => {
+    const cache = new Map<string, WeekLayout>();
+    // Cached layouts only apply to the lane options they were built with
+    const optionsKey = `${laneMode}\n${categoryOrder.join('\n')}`;
+    let previous: WeekLayout | undefined;
+
+    const layouts = weekRows.map(weekRow => {
+      const start = weekRow.days[0].isoDate;
+      const end = weekRow.days[weekRow.days.length - 1].isoDate;
+      const weekTasks = queryTaskIndex(index, start, end);
+      const options = { laneMode, categoryOrder, previous };
+
+      const cached = cacheRef.current.get(`${optionsKey}\n${start}`);
+      const layout = cached && isLayoutCurrent(cached, weekTasks, weekRow, options)
+        ? cached
+        : layoutWeekRow(weekTasks, weekRow, options);
+      cache.set(`${optionsKey}\n${start}`, layout);
+      previous = layout;
+      return layout;
+    });
+
+    // Only the displayed weeks are kept
+    cacheRef.current = cache;
+    return layouts;
+  }, [index, weekRows, laneMode, categoryOrder]);
+}
@@ -0,0 +1,142 @@
+import type { CSSProperties } from 'react';
+import type { CategoryDefinition, Task } from '../types';
+
+export const CATEGORIES_STORAGE_KEY = 'categories';
+
+const FALLBACK_COLOR = '#757575';
+const HEX_COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+/**
+ * The workflow every new planner starts with
+ */
+export const DEFAULT_CATEGORIES: CategoryDefinition[] = [
+  { id: 'todo', name: 'To Do', color: '#4285f4', isDone: false },
+  { id: 'in-progress', name: 'In Progress', color: '#ff9800', isDone: false },
+  { id: 'review', name: 'Review', color: '#9c27b0', isDone: false },
+  { id: 'completed', name: 'Completed', color: '#4caf50', isDone: true }
+];
+
+/**
+ * Tasks stored before categories were user-defined kept the category name.
+ * Maps those names to the ids of the default categories.
+ */
+export const LEGACY_CATEGORY_IDS: Record<string, string> = {
+  'To Do': 'todo',
+  'In Progress': 'in-progress',
+  'Review': 'review',
+  'Completed': 'completed'
+};
+
+/**
+ * Validate stored category definitions. Returns null if anything is malformed.
+ */
+export function validateCategories(value: unknown): CategoryDefinition[] | null {
+  if (!Array.isArray(value) || value.length === 0) return null;
+
+  const seenIds = new Set<string>();
+  for (const item of value) {
+    if (!item || typeof item !== 'object') return null;
+    const category = item as Record<string, unknown>;
+    if (typeof category.id !== 'string' || !category.id || seenIds.has(category.id)) return null;
+    if (typeof category.name !== 'string' || !category.name.trim()) return null;
+    if (typeof category.color !== 'string' || !HEX_COLOR_PATTERN.test(category.color)) return null;
+    if (typeof category.isDone !== 'boolean') return null;
+    seenIds.add(category.id);
+  }
+
+  return value as CategoryDefinition[];
+}
+
+/**
+ * Load category definitions, falling back to the defaults if none are stored
+ */
+export function loadCategories(storage: Storage = window.localStorage): CategoryDefinition[] {
+  try {
+    const raw = storage.getItem(CATEGORIES_STORAGE_KEY);
+    if (!raw) return DEFAULT_CATEGORIES;
+    return validateCategories(JSON.parse(raw)) ?? DEFAULT_CATEGORIES;
+  } catch (error) {
+    console.error('Failed to load categories from storage:', error);
+    return DEFAULT_CATEGORIES;
+  }
+}
+
+export function saveCategories(categories: CategoryDefinition[], storage: Storage = window.localStorage): void {
+  try {
+    storage.setItem(CATEGORIES_STORAGE_KEY, JSON.stringify(categories));
+  } catch (error) {
+    console.error('Failed to save categories to storage:', error);
+  }
+}
+
+/**
+ * Look up a category by id. Unknown ids get a neutral placeholder so a task
+ * is always renderable.
+ */
+export function getCategory(categories: CategoryDefinition[], id: string): CategoryDefinition {
+  return categories.find(category => category.id === id)
+    ?? { id, name: id, color: FALLBACK_COLOR, isDone: false };
+}
+
+export function isDoneCategory(categories: CategoryDefinition[], id: string): boolean {
+  return getCategory(categories, id).isDone;
+}
+
+/**
+ * Find a category by its display name or id, ignoring case. Used when importing.
+ */
+export function findCategoryByName(categories: CategoryDefinition[], value: string): CategoryDefinition | undefined {
+  const lower = value.trim().toLowerCase();
+  return categories.find(category =>
+    category.name.toLowerCase() === lower || category.id.toLowerCase() === lower
+  );
+}
+
+/**
+ * Append a placeholder definition for every category id used by a task but
+ * not defined. Returns the same array when nothing is missing.
+ */
+export function ensureCategoriesFor(categories: CategoryDefinition[], tasks: Task[]): CategoryDefinition[] {
+  const known = new Set(categories.map(category => category.id));
+  const missing: CategoryDefinition[] = [];
+
+  tasks.forEach(task => {
+    if (known.has(task.category)) return;
+    known.add(task.category);
+    missing.push(getCategory([], task.category));
+  });
+
+  return missing.length > 0 ? [...categories, ...missing] : categories;
+}
+
+/**
+ * Count how many tasks use each category id
+ */
+export function countTasksByCategory(tasks: Task[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  tasks.forEach(task => {
+    counts.set(task.category, (counts.get(task.category) ?? 0) + 1);
+  });
+  return counts;
+}
+
+/**
+ * Derive a unique, readable id for a new category from its name
+ */
+export function createCategoryId(name: string, categories: CategoryDefinition[]): string {
+  const base = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'category';
+  const taken = new Set(categories.map(category => category.id));
+
+  let id = base;
+  for (let suffix = 2; taken.has(id); suffix++) {
+    id = `${base}-${suffix}`;
+  }
+  return id;
+}
+
+/**
+ * Inline style exposing a category's color to CSS as `--category-color`
+ */
+export function categoryColorStyle(category: CategoryDefinition): CSSProperties {
+  return { '--category-color': category.color } as CSSProperties;
+}
@@ -0,0 +1,187 @@
+import { format, isValid, parse } from 'date-fns';
+import type { Task, CategoryDefinition } from '../types';
+import { normalizeDateRange } from './dates';
+import { findCategoryByName, getCategory } from './categories';
+import { standaloneTaskId } from './recurrence';
+
+export const CSV_COLUMNS = ['id', 'name', 'category', 'start', 'end'] as const;
+export type CsvField = typeof CSV_COLUMNS[number];
+
+/**
+ * Maps each task field to a column index in the CSV (-1 = not mapped)
+ */
+export type CsvColumnMapping = Record<CsvField, number>;
+
+export const CSV_DATE_FORMATS = [
+  'yyyy-MM-dd',
+  'MM/dd/yyyy',
+  'dd/MM/yyyy',
+  'dd.MM.yyyy',
+  'M/d/yyyy',
+  'd/M/yyyy'
+] as const;
+
+export interface CsvPreviewRow {
+  rowNumber: number; // 1-based row in the source file
+  status: 'create' | 'update' | 'error';
+  task?: Task;
+  errors: string[];
+}
+
+function escapeCsvValue(value: string): string {
+  if (/[",\r\n]/.test(value)) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
+
+/**
+ * Export tasks as CSV with an id,name,category,start,end header.
+ * An expanded occurrence is written under an id of its own.
+ */
+export function exportTasksToCsv(tasks: Task[], categories: CategoryDefinition[]): string {
+  const lines = [CSV_COLUMNS.join(',')];
+
+  tasks.forEach(task => {
+    lines.push(
+      [standaloneTaskId(task.id), task.name, getCategory(categories, task.category).name, task.start, task.end]
+        .map(escapeCsvValue)
+        .join(',')
+    );
+  });
+
+  return lines.join('\r\n') + '\r\n';
+}
+
+/**
+ * Parse CSV text into rows of cells (RFC 4180: quoted fields, escaped quotes, embedded newlines)
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter(r => r.some(value => value.trim() !== ''));
+}
+
+/**
+ * Guess a column mapping from header names
+ */
+export function guessColumnMapping(headers: string[]): CsvColumnMapping {
+  const normalized = headers.map(h => h.trim().toLowerCase());
+  const find = (...names: string[]) => normalized.findIndex(h => names.includes(h));
+
+  return {
+    id: find('id', 'uid'),
+    name: find('name', 'task', 'title', 'summary'),
+    category: find('category', 'status'),
+    start: find('start', 'start date', 'from', 'begin'),
+    end: find('end', 'end date', 'to', 'due', 'finish')
+  };
+}
+
+function parseDate(value: string, dateFormat: string): string | null {
+  const parsed = parse(value.trim(), dateFormat, new Date());
+  return isValid(parsed) ? format(parsed, 'yyyy-MM-dd') : null;
+}
+
+/**
+ * Validate mapped CSV rows and work out what each one would do.
+ * Rows whose id matches an existing task become updates; the rest are created.
+ */
+export function buildCsvPreview(
+  rows: string[][],
+  mapping: CsvColumnMapping,
+  dateFormat: string,
+  existingTasks: Task[],
+  categories: CategoryDefinition[],
+  firstRowNumber = 1
+): CsvPreviewRow[] {
+  const existingIds = new Set(existingTasks.map(t => t.id));
+  const seenIds = new Set<string>();
+
+  return rows.map((row, index) => {
+    const rowNumber = firstRowNumber + index;
+    const errors: string[] = [];
+    const cell = (field: CsvField) => (mapping[field] >= 0 ? row[mapping[field]] ?? '' : '');
+
+    const name = cell('name').trim();
+    if (!name) errors.push('Name is required');
+
+    const categoryValue = cell('category');
+    const category = categoryValue.trim() ? findCategoryByName(categories, categoryValue) : undefined;
+    if (!category) {
+      errors.push(categoryValue.trim()
+        ? `Unknown category "${categoryValue.trim()}"`
+        : 'Category is required');
+    }
+
+    const startValue = cell('start');
+    const start = parseDate(startValue, dateFormat);
+    if (!start) errors.push(`Invalid start date "${startValue}" (expected ${dateFormat})`);
+
+    // A missing end date means a single-day task
+    const endValue = cell('end');
+    const end = endValue.trim() ? parseDate(endValue, dateFormat) : start;
+    if (!end && endValue.trim()) errors.push(`Invalid end date "${endValue}" (expected ${dateFormat})`);
+
+    let id = standaloneTaskId(cell('id').trim());
+    if (id && seenIds.has(id)) errors.push(`Duplicate id "${id}"`);
+    if (id) seenIds.add(id);
+
+    if (errors.length > 0 || !category || !start || !end) {
+      return { rowNumber, status: 'error', errors };
+    }
+
+    const isUpdate = id !== '' && existingIds.has(id);
+    if (!id) {
+      id = `task-${Date.now()}-${Math.random()}`;
+    }
+
+    const range = normalizeDateRange(start, end);
+    return {
+      rowNumber,
+      status: isUpdate ? 'update' : 'create',
+      task: { id, name, category: category.id, start: range.start, end: range.end },
+      errors
+    };
+  });
+}
@@ -7,12 +7,18 @@ import {
   format,
   parseISO,
   addDays,
+  addMonths,
+  addWeeks,
   differenceInDays,
-  isToday
+  differenceInCalendarDays,
+  getISOWeek,
+  isToday,
+  startOfDay
 } from 'date-fns';
-import type { DateRange } from '../types';
+import type { CalendarView, CalendarSettings, DateRange, WeekStartDay } from '../types';
 
-export const WEEK_START_DAY = 0; // Sunday
+export const DEFAULT_WEEK_START: WeekStartDay = 0; // Sunday
+export const TIMELINE_MONTHS = 3; // months shown at once by the timeline view
 
 export interface CalendarDay {
   date: Date;
@@ -31,12 +37,12 @@ export interface WeekRow {
 /**
  * Generate calendar grid for a given month
  */
-export function generateMonthGrid(month: Date): WeekRow[] {
+export function generateMonthGrid(month: Date, weekStartsOn: WeekStartDay = DEFAULT_WEEK_START): WeekRow[] {
   const monthStart = startOfMonth(month);
   const monthEnd = endOfMonth(month);
   
-  const calendarStart = startOfWeek(monthStart, { weekStartsOn: WEEK_START_DAY });
-  const calendarEnd = endOfWeek(monthEnd, { weekStartsOn: WEEK_START_DAY });
+  const calendarStart = startOfWeek(monthStart, { weekStartsOn });
+  const calendarEnd = endOfWeek(monthEnd, { weekStartsOn });
   
   const allDays = eachDayOfInterval({ start: calendarStart, end: calendarEnd });
   
@@ -68,6 +74,136 @@ export function generateMonthGrid(month: Date): WeekRow[] {
   return weeks;
 }
 
+/**
+ * Generate the single week row containing a date (used by the week view)
+ */
+export function generateWeekRow(date: Date, weekStartsOn: WeekStartDay = DEFAULT_WEEK_START): WeekRow {
+  const weekStart = startOfWeek(date, { weekStartsOn });
+  const weekEnd = endOfWeek(date, { weekStartsOn });
+
+  const days = eachDayOfInterval({ start: weekStart, end: weekEnd }).map((day: Date) => ({
+    date: day,
+    isCurrentMonth: true,
+    isoDate: format(day, 'yyyy-MM-dd'),
+    dayNumber: day.getDate(),
+    isToday: isToday(day)
+  }));
+
+  return {
+    days,
+    startDate: days[0].date,
+    endDate: days[6].date
+  };
+}
+
+/**
+ * Generate the row of a single day (used by the day view), so it is laid out like a week row
+ */
+export function generateDayRow(date: Date): WeekRow {
+  const day = startOfDay(date);
+  return {
+    days: [{
+      date: day,
+      isCurrentMonth: true,
+      isoDate: format(day, 'yyyy-MM-dd'),
+      dayNumber: day.getDate(),
+      isToday: isToday(day)
+    }],
+    startDate: day,
+    endDate: day
+  };
+}
+
+/**
+ * Get the date range displayed by a view for a given date
+ */
+export function getPeriodRange(
+  view: CalendarView,
+  date: Date,
+  weekStartsOn: WeekStartDay = DEFAULT_WEEK_START
+): DateRange {
+  switch (view) {
+    case 'month':
+    case 'board': // The board isn't tied to a period, it keeps the month's range
+      return getMonthGridRange(date, weekStartsOn);
+    case 'week': {
+      const week = generateWeekRow(date, weekStartsOn);
+      return { start: week.days[0].isoDate, end: week.days[6].isoDate };
+    }
+    case 'day': {
+      const isoDate = format(date, 'yyyy-MM-dd');
+      return { start: isoDate, end: isoDate };
+    }
+    case 'timeline': {
+      const start = startOfMonth(date);
+      const end = endOfMonth(addMonths(start, TIMELINE_MONTHS - 1));
+      return { start: format(start, 'yyyy-MM-dd'), end: format(end, 'yyyy-MM-dd') };
+    }
+  }
+}
+
+/**
+ * Move a date forward or back by whole periods of the given view
+ */
+export function shiftPeriod(view: CalendarView, date: Date, amount: number): Date {
+  switch (view) {
+    case 'month':
+    case 'board':
+      return addMonths(date, amount);
+    case 'week':
+      return addWeeks(date, amount);
+    case 'day':
+      return addDays(date, amount);
+    case 'timeline':
+      return addMonths(date, amount * TIMELINE_MONTHS);
+  }
+}
+
+/**
+ * Format the title shown in the calendar header for a view
+ */
+export function formatPeriodTitle(
+  view: CalendarView,
+  date: Date,
+  weekStartsOn: WeekStartDay = DEFAULT_WEEK_START
+): string {
+  switch (view) {
+    case 'month':
+      return format(date, 'MMMM yyyy');
+    case 'week': {
+      const week = generateWeekRow(date, weekStartsOn);
+      const start = week.startDate;
+      const end = week.endDate;
+      if (start.getFullYear() !== end.getFullYear()) {
+        return `${format(start, 'MMM d, yyyy')} – ${format(end, 'MMM d, yyyy')}`;
+      }
+      if (start.getMonth() !== end.getMonth()) {
+        return `${format(start, 'MMM d')} – ${format(end, 'MMM d, yyyy')}`;
+      }
+      return `${format(start, 'MMM d')} – ${format(end, 'd, yyyy')}`;
+    }
+    case 'day':
+      return format(date, 'EEEE, MMMM d, yyyy');
+    case 'board':
+      return 'All tasks';
+    case 'timeline': {
+      const range = getPeriodRange('timeline', date);
+      return `${format(parseISO(range.start), 'MMM yyyy')} – ${format(parseISO(range.end), 'MMM yyyy')}`;
+    }
+  }
+}
+
+/**
+ * Get the full visible date range of a month grid (including leading/trailing days)
+ */
+export function getMonthGridRange(month: Date, weekStartsOn: WeekStartDay = DEFAULT_WEEK_START): DateRange {
+  const weeks = generateMonthGrid(month, weekStartsOn);
+  return {
+    start: weeks[0].days[0].isoDate,
+    end: weeks[weeks.length - 1].days[6].isoDate
+  };
+}
+
 /**
  * Normalize a date range (ensure start <= end)
  */
@@ -117,6 +253,87 @@ export function getTimeRangeFilter(today: Date, weeks: 1 | 2 | 3): DateRange {
   };
 }
 
+/**
+ * Weekday names in display order for the given week start (e.g. "Mon".."Sun")
+ */
+export function getWeekdayLabels(weekStartsOn: WeekStartDay, formatStr = 'EEE'): string[] {
+  const weekStart = startOfWeek(new Date(), { weekStartsOn });
+  return Array.from({ length: 7 }, (_, index) => format(addDays(weekStart, index), formatStr));
+}
+
+export interface FiscalWeek {
+  fiscalYear: number;   // named after the calendar year the fiscal year ends in
+  week: number;         // 1-based week of the fiscal year (52 or 53 weeks)
+  quarter: number;      // 1-4
+  period: number;       // 1-12, periods are 4, 4 and 5 weeks long in each quarter
+  weekOfPeriod: number; // 1-based week within the period
+}
+
+function getFiscalYearStart(year: number, startMonth: number, weekStartsOn: WeekStartDay): Date {
+  return startOfWeek(new Date(year, startMonth, 1), { weekStartsOn });
+}
+
+/**
+ * Locate a date in a 4-4-5 fiscal calendar. Each fiscal year starts with the
+ * week containing the 1st of the start month, so years have 52 or 53 weeks;
+ * a 53rd week is added to the last period.
+ */
+export function getFiscalWeek(date: Date, startMonth: number, weekStartsOn: WeekStartDay): FiscalWeek {
+  let year = date.getFullYear();
+  let yearStart = getFiscalYearStart(year, startMonth, weekStartsOn);
+
+  if (date < yearStart) {
+    year--;
+    yearStart = getFiscalYearStart(year, startMonth, weekStartsOn);
+  } else {
+    const nextYearStart = getFiscalYearStart(year + 1, startMonth, weekStartsOn);
+    if (date >= nextYearStart) {
+      year++;
+      yearStart = nextYearStart;
+    }
+  }
+
+  const weekIndex = Math.floor(differenceInCalendarDays(date, yearStart) / 7);
+  const quarterIndex = Math.min(Math.floor(weekIndex / 13), 3);
+  const weekOfQuarter = weekIndex - quarterIndex * 13;
+  const periodOfQuarter = weekOfQuarter < 4 ? 0 : weekOfQuarter < 8 ? 1 : 2;
+
+  return {
+    fiscalYear: startMonth === 0 ? year : year + 1,
+    week: weekIndex + 1,
+    quarter: quarterIndex + 1,
+    period: quarterIndex * 3 + periodOfQuarter + 1,
+    weekOfPeriod: weekOfQuarter - periodOfQuarter * 4 + 1
+  };
+}
+
+export interface WeekNumberLabel {
+  label: string; // short text for the week-number gutter
+  title: string; // full description for the tooltip
+}
+
+/**
+ * Week number shown next to a week row, or null if week numbers are turned off
+ */
+export function getWeekNumberLabel(week: WeekRow, settings: CalendarSettings): WeekNumberLabel | null {
+  switch (settings.weekNumbers) {
+    case 'none':
+      return null;
+    case 'iso': {
+      // The middle of the row always falls in the ISO week covering most of its days
+      const isoWeek = getISOWeek(week.days[3].date);
+      return { label: `W${isoWeek}`, title: `ISO week ${isoWeek}` };
+    }
+    case 'fiscal-445': {
+      const fiscal = getFiscalWeek(week.startDate, settings.fiscalYearStartMonth, settings.weekStartsOn);
+      return {
+        label: `FW${fiscal.week}`,
+        title: `FY${fiscal.fiscalYear} week ${fiscal.week} • Q${fiscal.quarter} • Period ${fiscal.period}, week ${fiscal.weekOfPeriod}`
+      };
+    }
+  }
+}
+
 /**
  * Format date for display
  */
@@ -124,3 +341,46 @@ export function formatDateDisplay(isoDate: string): string {
   return format(parseISO(isoDate), 'MMM d, yyyy');
 }
 
+
+/**
+ * Format an inclusive date range for display, e.g. "Nov 3, 2026 – Nov 5, 2026"
+ */
+export function formatDateRangeDisplay(start: string, end: string): string {
+  return start === end ? formatDateDisplay(start) : `${formatDateDisplay(start)} – ${formatDateDisplay(end)}`;
+}
+
+/**
+ * Shift an ISO date by a number of days
+ */
+export function shiftIsoDate(isoDate: string, days: number): string {
+  return format(addDays(parseISO(isoDate), days), 'yyyy-MM-dd');
+}
+
+/**
+ * Date reached from a calendar grid cell with a navigation key, or null for
+ * other keys. Arrows move by day and week, Home/End go to the ends of the
+ * week and PageUp/PageDown move by a month.
+ */
+export function getKeyboardTargetDate(isoDate: string, key: string, weekStartsOn: WeekStartDay): string | null {
+  const date = parseISO(isoDate);
+  switch (key) {
+    case 'ArrowLeft':
+      return shiftIsoDate(isoDate, -1);
+    case 'ArrowRight':
+      return shiftIsoDate(isoDate, 1);
+    case 'ArrowUp':
+      return shiftIsoDate(isoDate, -7);
+    case 'ArrowDown':
+      return shiftIsoDate(isoDate, 7);
+    case 'Home':
+      return format(startOfWeek(date, { weekStartsOn }), 'yyyy-MM-dd');
+    case 'End':
+      return format(endOfWeek(date, { weekStartsOn }), 'yyyy-MM-dd');
+    case 'PageUp':
+      return format(addMonths(date, -1), 'yyyy-MM-dd');
+    case 'PageDown':
+      return format(addMonths(date, 1), 'yyyy-MM-dd');
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import type { Task, WorkingCalendar } from '../types';
+import { rescheduleSuccessors } from './dependencies';
+
+// Monday to Friday, with Monday, February 12, 2024 off
+const WEEKDAYS: WorkingCalendar = {
+  weekendDays: [0, 6],
+  holidays: [{ date: '2024-02-12', name: 'Holiday' }]
+};
+
+// A runs Monday to Friday; B (two days) and then C (one day) follow it
+const TASKS: Task[] = [
+  { id: 'a', name: 'A', category: 'todo', start: '2024-02-05', end: '2024-02-09' },
+  { id: 'b', name: 'B', category: 'todo', start: '2024-02-07', end: '2024-02-08', dependsOn: ['a'] },
+  { id: 'c', name: 'C', category: 'todo', start: '2024-02-09', end: '2024-02-09', dependsOn: ['b'] }
+];
+
+function ranges(tasks: Task[]) {
+  return tasks.map(({ id, start, end }) => ({ id, start, end }));
+}
+
+describe('rescheduleSuccessors', () => {
+  it('pushes successors after their predecessors, keeping calendar days', () => {
+    expect(ranges(rescheduleSuccessors(TASKS, 'a'))).toEqual([
+      { id: 'a', start: '2024-02-05', end: '2024-02-09' },
+      { id: 'b', start: '2024-02-10', end: '2024-02-11' },
+      { id: 'c', start: '2024-02-12', end: '2024-02-12' }
+    ]);
+  });
+
+  it('pushes successors onto working days, keeping working days', () => {
+    expect(ranges(rescheduleSuccessors(TASKS, 'a', () => WEEKDAYS))).toEqual([
+      { id: 'a', start: '2024-02-05', end: '2024-02-09' },
+      { id: 'b', start: '2024-02-13', end: '2024-02-14' },
+      { id: 'c', start: '2024-02-15', end: '2024-02-15' }
+    ]);
+  });
+
+  it('never pulls successors earlier', () => {
+    const later = TASKS.map(task => task.id === 'b' ? { ...task, start: '2024-02-20', end: '2024-02-21' } : task);
+    expect(rescheduleSuccessors(later, 'a', () => WEEKDAYS)).toEqual(later);
+  });
+});
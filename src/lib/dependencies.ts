@@ -0,0 +1,116 @@
+import type { Task } from '../types';
+import { shiftIsoDate } from './dates';
+import { moveTaskRange, type WorkingCalendarResolver } from './workingDays';
+
+export interface DependencyLink {
+  predecessorId: string;
+  successorId: string;
+  isViolated: boolean; // successor starts before its predecessor has finished
+}
+
+/**
+ * Map each task id to the ids of tasks that depend on it
+ */
+function buildSuccessorMap(tasks: Task[]): Map<string, string[]> {
+  const successors = new Map<string, string[]>();
+
+  tasks.forEach(task => {
+    task.dependsOn?.forEach(predecessorId => {
+      const list = successors.get(predecessorId) ?? [];
+      list.push(task.id);
+      successors.set(predecessorId, list);
+    });
+  });
+
+  return successors;
+}
+
+/**
+ * Check whether giving `taskId` these predecessors would create a dependency cycle
+ */
+export function wouldCreateCycle(tasks: Task[], taskId: string, predecessorIds: string[]): boolean {
+  const dependsOn = new Map(tasks.map(t => [t.id, t.dependsOn ?? []]));
+  dependsOn.set(taskId, predecessorIds);
+
+  // Walk predecessors from taskId; reaching taskId again means a cycle
+  const visited = new Set<string>();
+  const stack = [...predecessorIds];
+
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    if (current === taskId) return true;
+    if (visited.has(current)) continue;
+    visited.add(current);
+    stack.push(...(dependsOn.get(current) ?? []));
+  }
+
+  return false;
+}
+
+/**
+ * Push successors of a changed task later so each starts after all of its
+ * predecessors end. Successors are never pulled earlier. Durations are preserved:
+ * calendar days, or working days when a calendar resolver is given.
+ */
+export function rescheduleSuccessors(
+  tasks: Task[],
+  changedTaskId: string,
+  calendarFor?: WorkingCalendarResolver
+): Task[] {
+  const successors = buildSuccessorMap(tasks);
+  if (!successors.has(changedTaskId)) return tasks;
+
+  const byId = new Map(tasks.map(t => [t.id, t]));
+  const queue = [changedTaskId];
+  // Bounded by the number of tasks; graphs are kept acyclic by wouldCreateCycle
+  let remaining = tasks.length * tasks.length;
+
+  while (queue.length > 0 && remaining-- > 0) {
+    const predecessor = byId.get(queue.shift()!)!;
+
+    (successors.get(predecessor.id) ?? []).forEach(successorId => {
+      const successor = byId.get(successorId);
+      if (!successor || successor.start > predecessor.end) return;
+
+      const { start, end } = moveTaskRange(successor, shiftIsoDate(predecessor.end, 1), calendarFor?.(successor));
+      byId.set(successorId, { ...successor, start, end });
+      queue.push(successorId);
+    });
+  }
+
+  return tasks.map(t => byId.get(t.id)!);
+}
+
+/**
+ * List every dependency between the given tasks and whether it is currently violated
+ */
+export function getDependencyLinks(tasks: Task[]): DependencyLink[] {
+  const byId = new Map(tasks.map(t => [t.id, t]));
+  const links: DependencyLink[] = [];
+
+  tasks.forEach(successor => {
+    successor.dependsOn?.forEach(predecessorId => {
+      const predecessor = byId.get(predecessorId);
+      if (!predecessor) return;
+
+      links.push({
+        predecessorId,
+        successorId: successor.id,
+        isViolated: successor.start <= predecessor.end
+      });
+    });
+  });
+
+  return links;
+}
+
+/**
+ * Remove references to a deleted task from other tasks' dependencies
+ */
+export function removeDependencyReferences(tasks: Task[], deletedId: string): Task[] {
+  return tasks.map(t =>
+    t.dependsOn?.includes(deletedId)
+      ? { ...t, dependsOn: t.dependsOn.filter(id => id !== deletedId) }
+      : t
+  );
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import type { LockedPeriod, Task } from '../types';
+import { createLockedPeriodValidator, findLockedChange } from './dropValidation';
+
+const FREEZE: LockedPeriod = { id: 'freeze', name: 'Freeze', start: '2024-02-12', end: '2024-02-16' };
+
+// B follows A and starts right before the freeze
+const TASKS: Task[] = [
+  { id: 'a', name: 'A', category: 'todo', start: '2024-02-05', end: '2024-02-07' },
+  { id: 'b', name: 'B', category: 'todo', start: '2024-02-08', end: '2024-02-09', dependsOn: ['a'] }
+];
+
+describe('createLockedPeriodValidator', () => {
+  it('accepts everything without locked periods', () => {
+    expect(createLockedPeriodValidator([])).toBeUndefined();
+  });
+
+  it('rejects moving a task into or out of a locked period', () => {
+    const validate = createLockedPeriodValidator([FREEZE])!;
+    expect(validate(TASKS[0], { start: '2024-02-15', end: '2024-02-17' })).toMatch(/Freeze/);
+    expect(validate({ ...TASKS[0], start: '2024-02-16', end: '2024-02-16' }, { start: '2024-02-20', end: '2024-02-20' }))
+      .toMatch(/Freeze/);
+    expect(validate(TASKS[0], { start: '2024-02-19', end: '2024-02-21' })).toBeNull();
+  });
+
+  it('rejects a move that pushes a successor into a locked period', () => {
+    const validate = createLockedPeriodValidator([FREEZE], TASKS)!;
+    expect(validate(TASKS[0], { start: '2024-02-08', end: '2024-02-10' })).toMatch(/moves B/);
+    expect(validate(TASKS[0], { start: '2024-02-04', end: '2024-02-06' })).toBeNull();
+  });
+});
+
+describe('findLockedChange', () => {
+  it('reports tasks whose dates change into or out of a locked period', () => {
+    const moved = TASKS.map(task => task.id === 'b' ? { ...task, start: '2024-02-12', end: '2024-02-13' } : task);
+    expect(findLockedChange([FREEZE], TASKS, moved)).toMatch(/moves B/);
+  });
+
+  it('ignores unchanged, added and removed tasks', () => {
+    const added: Task = { id: 'c', name: 'C', category: 'todo', start: '2024-02-13', end: '2024-02-13' };
+    expect(findLockedChange([FREEZE], TASKS, [...TASKS, added])).toBeNull();
+    expect(findLockedChange([FREEZE], [...TASKS, added], TASKS)).toBeNull();
+  });
+});
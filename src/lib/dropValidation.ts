@@ -0,0 +1,64 @@
+import type { DateRange, LockedPeriod, Task } from '../types';
+import { formatDateRangeDisplay } from './dates';
+import { rescheduleSuccessors } from './dependencies';
+import type { WorkingCalendarResolver } from './workingDays';
+
+/**
+ * Check a task's new dates before a drag is committed. Returns the reason the
+ * drop is rejected, or null to accept it.
+ */
+export type DropValidator = (task: Task, range: DateRange) => string | null;
+
+function overlaps(a: DateRange, b: DateRange): boolean {
+  return a.start <= b.end && b.start <= a.end;
+}
+
+function findLockedPeriod(periods: LockedPeriod[], task: DateRange, range: DateRange): string | null {
+  const locked = periods.find(period => overlaps(period, range) || overlaps(period, task));
+  return locked
+    ? `${locked.name || 'Locked period'} (${formatDateRangeDisplay(locked.start, locked.end)}) is locked`
+    : null;
+}
+
+/**
+ * Why a change from one task list to another moves a task into or out of a
+ * locked period, or null if it doesn't. Tasks added or removed aren't checked.
+ */
+export function findLockedChange(periods: LockedPeriod[], before: Task[], after: Task[]): string | null {
+  if (periods.length === 0 || before === after) return null;
+
+  const beforeById = new Map(before.map(task => [task.id, task]));
+  for (const task of after) {
+    const previous = beforeById.get(task.id);
+    if (!previous || (previous.start === task.start && previous.end === task.end)) continue;
+
+    const error = findLockedPeriod(periods, previous, task);
+    if (error) return `${error} (moves ${task.name})`;
+  }
+  return null;
+}
+
+/**
+ * Reject drops that move a task into or out of a locked period, so nothing
+ * inside a locked period changes. With the task list, successors the drop
+ * would push back are checked too.
+ */
+export function createLockedPeriodValidator(
+  periods: LockedPeriod[],
+  tasks: Task[] = [],
+  calendarFor?: WorkingCalendarResolver
+): DropValidator | undefined {
+  if (periods.length === 0) return undefined;
+
+  return (task, range) => {
+    const error = findLockedPeriod(periods, task, range);
+    if (error || !tasks.some(other => other.dependsOn?.includes(task.id))) return error;
+
+    const moved = tasks.map(other => other.id === task.id ? { ...other, ...range } : other);
+    return findLockedChange(periods, moved, rescheduleSuccessors(moved, task.id, calendarFor));
+  };
+}
+
+export function isDateLocked(periods: LockedPeriod[], isoDate: string): boolean {
+  return periods.some(period => period.start <= isoDate && isoDate <= period.end);
+}
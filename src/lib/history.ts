@@ -0,0 +1,138 @@
+import type { Task, HistoryState } from '../types';
+
+export const HISTORY_LIMIT = 100;
+
+export function createHistory(): HistoryState {
+  return {
+    past: [],
+    future: [],
+    isGestureActive: false
+  };
+}
+
+/**
+ * Record a snapshot of tasks before a mutation.
+ * While a gesture (drag/resize) is active the snapshot taken at gesture start
+ * is kept, so the whole gesture collapses into a single undo step.
+ */
+export function recordHistory(history: HistoryState, tasks: Task[]): HistoryState {
+  if (history.isGestureActive) {
+    return history;
+  }
+
+  const past = [...history.past, tasks];
+  if (past.length > HISTORY_LIMIT) {
+    past.shift();
+  }
+
+  return {
+    ...history,
+    past,
+    future: []
+  };
+}
+
+/**
+ * Start a gesture: snapshot the current tasks once and suppress further
+ * snapshots until the gesture ends. The redo stack is kept until the gesture
+ * turns out to change something.
+ */
+export function beginGesture(history: HistoryState, tasks: Task[]): HistoryState {
+  if (history.isGestureActive) {
+    return history;
+  }
+
+  const past = [...history.past, tasks];
+  if (past.length > HISTORY_LIMIT) {
+    past.shift();
+  }
+
+  return {
+    ...history,
+    past,
+    isGestureActive: true
+  };
+}
+
+/**
+ * End a gesture. If nothing changed during it, drop the snapshot taken at its
+ * start and keep the redo stack; otherwise the redo stack is cleared.
+ */
+export function endGesture(history: HistoryState, tasks: Task[]): HistoryState {
+  if (!history.isGestureActive) {
+    return history;
+  }
+
+  const lastSnapshot = history.past[history.past.length - 1];
+  const unchanged = areTasksEqual(lastSnapshot, tasks);
+
+  return {
+    past: unchanged ? history.past.slice(0, -1) : history.past,
+    future: unchanged ? history.future : [],
+    isGestureActive: false
+  };
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (!a || !b || typeof a !== 'object' || typeof b !== 'object') return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  // Optional fields may be missing or undefined, which counts as the same
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return [...keys].every(key =>
+    isSameValue((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key])
+  );
+}
+
+/**
+ * Whether two task lists hold the same tasks in the same order. Unchanged
+ * tasks are usually the same objects, so only replaced ones are compared field by field.
+ */
+export function areTasksEqual(a: Task[], b: Task[]): boolean {
+  return a === b || (a.length === b.length && a.every((task, index) => isSameValue(task, b[index])));
+}
+
+/**
+ * Step back one entry. Returns null when there is nothing to undo.
+ */
+export function undoHistory(
+  history: HistoryState,
+  tasks: Task[]
+): { history: HistoryState; tasks: Task[] } | null {
+  if (history.past.length === 0) {
+    return null;
+  }
+
+  const previous = history.past[history.past.length - 1];
+  return {
+    tasks: previous,
+    history: {
+      past: history.past.slice(0, -1),
+      future: [tasks, ...history.future],
+      isGestureActive: false
+    }
+  };
+}
+
+/**
+ * Step forward one entry. Returns null when there is nothing to redo.
+ */
+export function redoHistory(
+  history: HistoryState,
+  tasks: Task[]
+): { history: HistoryState; tasks: Task[] } | null {
+  if (history.future.length === 0) {
+    return null;
+  }
+
+  const [next, ...future] = history.future;
+  return {
+    tasks: next,
+    history: {
+      past: [...history.past, tasks],
+      future,
+      isGestureActive: false
+    }
+  };
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import type { Task } from '../types';
+import { DEFAULT_CATEGORIES } from './categories';
+import { buildCsvPreview, exportTasksToCsv, guessColumnMapping, parseCsv } from './csv';
+import { exportTasksToIcs, importTasksFromIcs } from './ics';
+import { applyOccurrenceChange, expandRecurringTasks, parseOccurrenceId } from './recurrence';
+
+const SERIES: Task = {
+  id: 'task-1',
+  name: 'Stand-up',
+  category: 'todo',
+  start: '2024-01-01',
+  end: '2024-01-01',
+  recurrence: { frequency: 'weekly', interval: 1 }
+};
+
+// The occurrence a filtered or selected export would contain
+const OCCURRENCE = expandRecurringTasks([SERIES], { start: '2024-01-08', end: '2024-01-08' })[0];
+
+describe('exporting an occurrence', () => {
+  it('re-imports from .ics as a plain task of its own', () => {
+    const [imported] = importTasksFromIcs(exportTasksToIcs([OCCURRENCE], DEFAULT_CATEGORIES), DEFAULT_CATEGORIES).tasks;
+
+    expect(parseOccurrenceId(imported.id)).toBeNull();
+    expect(imported).toMatchObject({ name: 'Stand-up', start: '2024-01-08', end: '2024-01-08' });
+    expect(imported.recurrence).toBeUndefined();
+
+    // Changing the imported task leaves the series alone
+    const tasks = [SERIES, imported];
+    expect(applyOccurrenceChange(tasks, imported.id, 'this', { type: 'delete' })).toBe(tasks);
+  });
+
+  it('re-imports from .csv as a plain task of its own', () => {
+    const [header, ...rows] = parseCsv(exportTasksToCsv([OCCURRENCE], DEFAULT_CATEGORIES));
+    const [row] = buildCsvPreview(rows, guessColumnMapping(header), 'yyyy-MM-dd', [SERIES], DEFAULT_CATEGORIES, 2);
+
+    expect(row.status).toBe('create');
+    expect(parseOccurrenceId(row.task!.id)).toBeNull();
+  });
+
+  it('reads occurrence UIDs from older files as plain tasks', () => {
+    const text = exportTasksToIcs([SERIES], DEFAULT_CATEGORIES)
+      .replace('UID:task-1@', 'UID:task-1::2024-01-08@')
+      .replace(/RRULE:.*\r\n/, '');
+    const [imported] = importTasksFromIcs(text, DEFAULT_CATEGORIES).tasks;
+
+    expect(parseOccurrenceId(imported.id)).toBeNull();
+  });
+});
+
+describe('importing CATEGORIES', () => {
+  const categories = [...DEFAULT_CATEGORIES, { id: 'blocked', name: 'Blocked, waiting', color: '#f44336', isDone: false }];
+
+  it('matches a category name containing an escaped comma', () => {
+    const task: Task = { id: 'task-2', name: 'Review', category: 'blocked', start: '2024-01-08', end: '2024-01-09' };
+    const [imported] = importTasksFromIcs(exportTasksToIcs([task], categories), categories).tasks;
+
+    expect(imported.category).toBe('blocked');
+  });
+
+  it('tries each listed category in turn', () => {
+    const text = exportTasksToIcs([{ ...SERIES, recurrence: undefined }], categories)
+      .replace(/CATEGORIES:.*\r\n/, 'CATEGORIES:Unknown,Blocked\\, waiting\r\n');
+    const [imported] = importTasksFromIcs(text, categories).tasks;
+
+    expect(imported.category).toBe('blocked');
+  });
+});
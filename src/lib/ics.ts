@@ -0,0 +1,428 @@
+import { addDays, format, parseISO, subDays } from 'date-fns';
+import type { Task, CategoryDefinition, DateRange, Holiday, Recurrence, RecurrenceFrequency } from '../types';
+import { normalizeDateRange, shiftIsoDate } from './dates';
+import { findCategoryByName, getCategory } from './categories';
+import { parseOccurrenceId, standaloneTaskId } from './recurrence';
+
+const PRODUCT_ID = '-//Month Task Planner//EN';
+const UID_SUFFIX = '@month-task-planner';
+const MAX_LINE_OCTETS = 75;
+
+// RRULE weekday codes, indexed by weekday (0 = Sunday)
+const RRULE_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const RRULE_FREQUENCIES: Record<string, RecurrenceFrequency> = {
+  DAILY: 'daily',
+  WEEKLY: 'weekly',
+  MONTHLY: 'monthly',
+  YEARLY: 'yearly'
+};
+
+export interface IcsImportResult {
+  tasks: Task[];       // tasks to create or update, ids derived from UIDs
+  warnings: string[];
+}
+
+export interface HolidayImportResult {
+  holidays: Holiday[];
+  warnings: string[];
+}
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+/**
+ * Escape a TEXT value (RFC 5545 §3.3.11)
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char === 'n' || char === 'N' ? '\n' : char
+  );
+}
+
+/**
+ * Fold a content line at 75 octets (RFC 5545 §3.1)
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) {
+    return line;
+  }
+
+  const parts: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const charOctets = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts toward the limit
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + charOctets > limit) {
+      parts.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += charOctets;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+/**
+ * Unfold continuation lines (lines starting with a space or tab)
+ */
+function unfoldLines(text: string): string[] {
+  const lines: string[] = [];
+
+  text.split(/\r?\n/).forEach(line => {
+    if ((line.startsWith(' ') || line.startsWith('\t')) && lines.length > 0) {
+      lines[lines.length - 1] += line.slice(1);
+    } else if (line.length > 0) {
+      lines.push(line);
+    }
+  });
+
+  return lines;
+}
+
+function parseProperty(line: string): IcsProperty | null {
+  // The value starts at the first colon outside a quoted parameter value
+  let inQuotes = false;
+  let colonIndex = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) {
+      colonIndex = i;
+      break;
+    }
+  }
+  if (colonIndex === -1) return null;
+
+  const [name, ...paramParts] = line.slice(0, colonIndex).split(';');
+  const params: Record<string, string> = {};
+  paramParts.forEach(part => {
+    const [key, ...rest] = part.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  });
+
+  return {
+    name: name.toUpperCase(),
+    params,
+    value: line.slice(colonIndex + 1)
+  };
+}
+
+function toIcsDate(isoDate: string): string {
+  return isoDate.replace(/-/g, '');
+}
+
+/**
+ * Parse a DATE or DATE-TIME value into an ISO date and whether it had a time part
+ */
+function parseIcsDate(property: IcsProperty): { isoDate: string; isMidnight: boolean } | null {
+  const match = property.value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+
+  const [, year, month, day, hours, minutes, seconds, utc] = match;
+
+  if (hours === undefined) {
+    return { isoDate: `${year}-${month}-${day}`, isMidnight: true };
+  }
+
+  // Floating and TZID times are taken as local wall-clock; UTC times are converted to local
+  const date = utc
+    ? new Date(Date.UTC(+year, +month - 1, +day, +hours, +minutes, +seconds))
+    : new Date(+year, +month - 1, +day, +hours, +minutes, +seconds);
+
+  return {
+    isoDate: format(date, 'yyyy-MM-dd'),
+    isMidnight: date.getHours() === 0 && date.getMinutes() === 0 && date.getSeconds() === 0
+  };
+}
+
+/**
+ * Parse a day-based DURATION value (e.g. "P3D", "P1W")
+ */
+function parseDurationDays(value: string): number | null {
+  const match = value.match(/^P(?:(\d+)W)?(?:(\d+)D)?/);
+  if (!match || (match[1] === undefined && match[2] === undefined)) return null;
+  return (Number(match[1] ?? 0) * 7) + Number(match[2] ?? 0);
+}
+
+/**
+ * Write a recurrence as an RRULE and its skipped occurrences as an EXDATE
+ */
+function formatRecurrence(recurrence: Recurrence): string[] {
+  const parts = [`FREQ=${recurrence.frequency.toUpperCase()}`, `INTERVAL=${recurrence.interval}`];
+  if (recurrence.frequency === 'weekly' && recurrence.byWeekday && recurrence.byWeekday.length > 0) {
+    parts.push(`BYDAY=${[...recurrence.byWeekday].sort((a, b) => a - b).map(d => RRULE_WEEKDAYS[d]).join(',')}`);
+  }
+  if (recurrence.count !== undefined) parts.push(`COUNT=${recurrence.count}`);
+  if (recurrence.until) parts.push(`UNTIL=${toIcsDate(recurrence.until)}`);
+
+  const lines = [`RRULE:${parts.join(';')}`];
+  if (recurrence.exceptions && recurrence.exceptions.length > 0) {
+    lines.push(`EXDATE;VALUE=DATE:${recurrence.exceptions.map(toIcsDate).join(',')}`);
+  }
+  return lines;
+}
+
+/**
+ * Read an RRULE, plus any EXDATEs, back into a recurrence. Rules this app
+ * can't represent are reported and the event is imported as a one-off.
+ */
+function parseRecurrence(rule: IcsProperty, exdates: IcsProperty[], label: string, warnings: string[]): Recurrence | undefined {
+  const parts = new Map(rule.value.split(';').map(part => {
+    const [key, ...rest] = part.split('=');
+    return [key.toUpperCase(), rest.join('=')] as const;
+  }));
+
+  const frequency = RRULE_FREQUENCIES[(parts.get('FREQ') ?? '').toUpperCase()];
+  const unsupported = [...parts.keys()].filter(key => !['FREQ', 'INTERVAL', 'BYDAY', 'COUNT', 'UNTIL', 'WKST'].includes(key));
+  if (!frequency || unsupported.length > 0) {
+    warnings.push(`${label}: unsupported repeat rule "${rule.value}", imported as a single task`);
+    return undefined;
+  }
+
+  const recurrence: Recurrence = { frequency, interval: 1 };
+  const interval = Number(parts.get('INTERVAL') ?? 1);
+  if (Number.isInteger(interval) && interval >= 1) recurrence.interval = interval;
+
+  const byDay = parts.get('BYDAY');
+  if (byDay) {
+    // Weekdays only; ordinal forms such as "2MO" can't be represented
+    const weekdays = byDay.split(',').map(code => RRULE_WEEKDAYS.indexOf(code.trim().toUpperCase()));
+    if (frequency !== 'weekly' || weekdays.includes(-1)) {
+      warnings.push(`${label}: unsupported repeat rule "${rule.value}", imported as a single task`);
+      return undefined;
+    }
+    recurrence.byWeekday = weekdays;
+  }
+
+  const count = Number(parts.get('COUNT'));
+  if (parts.has('COUNT') && Number.isInteger(count) && count >= 1) recurrence.count = count;
+
+  const until = parts.get('UNTIL');
+  if (until) {
+    const parsed = parseIcsDate({ name: 'UNTIL', params: {}, value: until });
+    if (parsed) recurrence.until = parsed.isoDate;
+  }
+
+  const exceptions = exdates.flatMap(exdate =>
+    exdate.value.split(',').flatMap(value => {
+      const parsed = parseIcsDate({ ...exdate, value: value.trim() });
+      return parsed ? [parsed.isoDate] : [];
+    })
+  );
+  if (exceptions.length > 0) recurrence.exceptions = [...new Set(exceptions)].sort();
+
+  return recurrence;
+}
+
+/**
+ * Split a multi-valued TEXT property on its unescaped commas and unescape each value
+ */
+function splitTextList(value: string): string[] {
+  return (value.match(/(?:\\.|[^,\\])+/g) ?? []).map(unescapeText);
+}
+
+function matchCategory(value: string | undefined, categories: CategoryDefinition[]): CategoryDefinition | null {
+  if (!value) return null;
+  for (const candidate of splitTextList(value)) {
+    const category = findCategoryByName(categories, candidate.trim());
+    if (category) return category;
+  }
+  return null;
+}
+
+// Files exported before occurrences got ids of their own may still carry occurrence ids
+function taskIdFromUid(uid: string): string {
+  return standaloneTaskId(uid.endsWith(UID_SUFFIX) ? uid.slice(0, -UID_SUFFIX.length) : uid);
+}
+
+/**
+ * Export tasks as an RFC 5545 calendar of all-day VEVENTs
+ */
+export function exportTasksToIcs(tasks: Task[], categories: CategoryDefinition[], now: Date = new Date()): string {
+  // DTSTAMP must be in UTC
+  const stamp = now.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN'
+  ];
+
+  tasks.forEach(task => {
+    // DTEND is exclusive for all-day events
+    const exclusiveEnd = format(addDays(parseISO(task.end), 1), 'yyyy-MM-dd');
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${standaloneTaskId(task.id)}${UID_SUFFIX}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${toIcsDate(task.start)}`,
+      `DTEND;VALUE=DATE:${toIcsDate(exclusiveEnd)}`,
+      `SUMMARY:${escapeText(task.name)}`,
+      `CATEGORIES:${escapeText(getCategory(categories, task.category).name)}`,
+      // An expanded occurrence (e.g. from a filtered export) is a single event, not its series
+      ...(task.recurrence && !parseOccurrenceId(task.id) ? formatRecurrence(task.recurrence) : []),
+      'END:VEVENT'
+    );
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Group the properties of each VEVENT in a file
+ */
+function readEvents(text: string): IcsProperty[][] {
+  const events: IcsProperty[][] = [];
+  let current: IcsProperty[] | null = null;
+
+  unfoldLines(text).forEach(line => {
+    const property = parseProperty(line);
+    if (!property) return;
+
+    if (property.name === 'BEGIN' && property.value.toUpperCase() === 'VEVENT') {
+      current = [];
+    } else if (property.name === 'END' && property.value.toUpperCase() === 'VEVENT' && current) {
+      events.push(current);
+      current = null;
+    } else if (current) {
+      current.push(property);
+    }
+  });
+
+  return events;
+}
+
+/**
+ * The inclusive days an event covers, from DTSTART and DTEND or DURATION.
+ * Returns null, with a warning, if the event has no usable start.
+ */
+function readEventRange(event: IcsProperty[], label: string, warnings: string[]): DateRange | null {
+  const get = (name: string) => event.find(p => p.name === name);
+
+  const dtStart = get('DTSTART');
+  const start = dtStart ? parseIcsDate(dtStart) : null;
+  if (!start) {
+    warnings.push(`${label}: missing or invalid DTSTART, skipped`);
+    return null;
+  }
+
+  let end = start.isoDate;
+  const dtEnd = get('DTEND');
+  const duration = get('DURATION');
+  if (dtEnd) {
+    const parsedEnd = parseIcsDate(dtEnd);
+    if (!parsedEnd) {
+      warnings.push(`${label}: invalid DTEND, using start date`);
+    } else if (parsedEnd.isMidnight && parsedEnd.isoDate > start.isoDate) {
+      // Exclusive end at midnight: the last covered day is the day before
+      end = format(subDays(parseISO(parsedEnd.isoDate), 1), 'yyyy-MM-dd');
+    } else {
+      end = parsedEnd.isoDate;
+    }
+  } else if (duration) {
+    const days = parseDurationDays(duration.value);
+    if (days && days > 0) {
+      end = format(addDays(parseISO(start.isoDate), days - 1), 'yyyy-MM-dd');
+    }
+  }
+
+  return normalizeDateRange(start.isoDate, end);
+}
+
+/**
+ * Parse VEVENTs from an .ics file into tasks.
+ * Task ids are derived from UIDs so importing the same file twice updates
+ * the same tasks instead of duplicating them.
+ * Events without a known category are put in the first category.
+ */
+export function importTasksFromIcs(text: string, categories: CategoryDefinition[]): IcsImportResult {
+  const defaultCategory = categories[0];
+  const tasks: Task[] = [];
+  const warnings: string[] = [];
+  const seenIds = new Set<string>();
+
+  readEvents(text).forEach((event, index) => {
+    const get = (name: string) => event.find(p => p.name === name);
+    const label = `Event ${index + 1}`;
+
+    const uid = get('UID')?.value;
+    if (!uid) {
+      warnings.push(`${label}: missing UID, skipped`);
+      return;
+    }
+
+    const range = readEventRange(event, label, warnings);
+    if (!range) return;
+
+    const categoryValue = get('CATEGORIES')?.value;
+    let category = matchCategory(categoryValue, categories);
+    if (!category) {
+      if (categoryValue) {
+        warnings.push(`${label}: unknown category "${unescapeText(categoryValue)}", using "${defaultCategory.name}"`);
+      }
+      category = defaultCategory;
+    }
+
+    const id = taskIdFromUid(uid);
+    if (seenIds.has(id)) {
+      warnings.push(`${label}: duplicate UID "${uid}", skipped`);
+      return;
+    }
+    seenIds.add(id);
+
+    const rule = get('RRULE');
+    const recurrence = rule
+      ? parseRecurrence(rule, event.filter(p => p.name === 'EXDATE'), label, warnings)
+      : undefined;
+
+    tasks.push({
+      id,
+      name: unescapeText(get('SUMMARY')?.value ?? '').trim() || 'Untitled',
+      category: category.id,
+      start: range.start,
+      end: range.end,
+      ...(recurrence ? { recurrence } : {})
+    });
+  });
+
+  return { tasks, warnings };
+}
+
+/**
+ * Read holidays from an .ics file, e.g. a public holiday calendar. Every day an
+ * event covers becomes a holiday named after the event.
+ */
+export function importHolidaysFromIcs(text: string): HolidayImportResult {
+  const holidays: Holiday[] = [];
+  const warnings: string[] = [];
+
+  readEvents(text).forEach((event, index) => {
+    const range = readEventRange(event, `Event ${index + 1}`, warnings);
+    if (!range) return;
+
+    const name = unescapeText(event.find(p => p.name === 'SUMMARY')?.value ?? '').trim() || 'Holiday';
+    for (let date = range.start; date <= range.end; date = shiftIsoDate(date, 1)) {
+      holidays.push({ date, name });
+    }
+  });
+
+  return { holidays, warnings };
+}
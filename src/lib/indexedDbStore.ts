@@ -0,0 +1,226 @@
+import type { Task, DateRange } from '../types';
+import {
+  STORAGE_KEY,
+  partitionRecords,
+  readEnvelope,
+  migrateEnvelope,
+  migrateLegacyCategory,
+  createLocalStorageTaskStore,
+  type TaskStore,
+  type LoadResult,
+  type QuarantinedRecord
+} from './storage';
+
+export const DB_NAME = 'month-task-planner';
+export const DB_VERSION = 3;
+
+const TASKS_STORE = 'tasks';
+const QUARANTINE_STORE = 'quarantine';
+const META_STORE = 'meta';
+const LEGACY_MIGRATED_KEY = 'legacyLocalStorageMigrated';
+// Only tasks with a recurrence have a frequency, so only series are in this index
+const RECURRENCE_INDEX = 'recurrence';
+
+interface IndexedDbTaskStoreOptions {
+  dbName?: string;
+  /** Legacy localStorage to import from on first load */
+  legacyStorage?: Storage;
+}
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Resolve once a transaction has fully committed
+ */
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+function openDatabase(dbName: string): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(dbName, DB_VERSION);
+
+    request.onupgradeneeded = event => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(TASKS_STORE)) {
+        const tasks = db.createObjectStore(TASKS_STORE, { keyPath: 'id' });
+        tasks.createIndex('start', 'start');
+        tasks.createIndex('end', 'end');
+        tasks.createIndex(RECURRENCE_INDEX, 'recurrence.frequency');
+      } else if (request.transaction) {
+        const tasks = request.transaction.objectStore(TASKS_STORE);
+        if (event.oldVersion < 2) {
+          // v2: tasks reference categories by id instead of by name
+          const cursorRequest = tasks.openCursor();
+          cursorRequest.onsuccess = () => {
+            const cursor = cursorRequest.result;
+            if (!cursor) return;
+            const migrated = migrateLegacyCategory(cursor.value);
+            if (migrated !== cursor.value) cursor.update(migrated);
+            cursor.continue();
+          };
+        }
+        if (event.oldVersion < 3) {
+          // v3: recurring series can be read without scanning every task
+          tasks.createIndex(RECURRENCE_INDEX, 'recurrence.frequency');
+        }
+      }
+      if (!db.objectStoreNames.contains(QUARANTINE_STORE)) {
+        db.createObjectStore(QUARANTINE_STORE, { autoIncrement: true });
+      }
+      if (!db.objectStoreNames.contains(META_STORE)) {
+        db.createObjectStore(META_STORE);
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * IndexedDB-backed TaskStore.
+ * Keeps one record per task and only writes the tasks that changed since the last save.
+ * On first load, tasks found in the legacy localStorage key are imported automatically.
+ */
+export function createIndexedDbTaskStore(options: IndexedDbTaskStoreOptions = {}): TaskStore {
+  const dbName = options.dbName ?? DB_NAME;
+  const legacyStorage = options.legacyStorage ?? window.localStorage;
+
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  // Last persisted version of each task, used to diff on save
+  let lastSaved = new Map<string, Task>();
+
+  const getDb = () => {
+    if (!dbPromise) {
+      dbPromise = openDatabase(dbName);
+    }
+    return dbPromise;
+  };
+
+  const quarantine = async (db: IDBDatabase, records: QuarantinedRecord[]) => {
+    if (records.length === 0) return;
+
+    const transaction = db.transaction(QUARANTINE_STORE, 'readwrite');
+    const store = transaction.objectStore(QUARANTINE_STORE);
+    records.forEach(record => store.add(record));
+    await transactionDone(transaction);
+  };
+
+  const migrateLegacyStorage = async (db: IDBDatabase): Promise<QuarantinedRecord[]> => {
+    const metaTransaction = db.transaction(META_STORE, 'readonly');
+    const migrated = await requestToPromise(
+      metaTransaction.objectStore(META_STORE).get(LEGACY_MIGRATED_KEY)
+    );
+    if (migrated) return [];
+
+    let result: LoadResult = { tasks: [], quarantined: [] };
+    const raw = legacyStorage.getItem(STORAGE_KEY);
+    if (raw) {
+      try {
+        result = partitionRecords(migrateEnvelope(readEnvelope(raw)).tasks);
+      } catch (e) {
+        result = {
+          tasks: [],
+          quarantined: [{ record: raw, reason: e instanceof Error ? e.message : String(e) }]
+        };
+      }
+    }
+
+    const transaction = db.transaction([TASKS_STORE, META_STORE], 'readwrite');
+    const tasksStore = transaction.objectStore(TASKS_STORE);
+    result.tasks.forEach(task => tasksStore.put(task));
+    transaction.objectStore(META_STORE).put(true, LEGACY_MIGRATED_KEY);
+    await transactionDone(transaction);
+
+    // The legacy copy is only removed once the import has committed
+    legacyStorage.removeItem(STORAGE_KEY);
+    return result.quarantined;
+  };
+
+  return {
+    async load() {
+      const db = await getDb();
+      const migrationQuarantined = await migrateLegacyStorage(db);
+
+      const transaction = db.transaction(TASKS_STORE, 'readonly');
+      const records = await requestToPromise(transaction.objectStore(TASKS_STORE).getAll());
+      const result = partitionRecords(records);
+
+      if (result.quarantined.length > 0) {
+        // Move invalid records out of the tasks store
+        const cleanup = db.transaction(TASKS_STORE, 'readwrite');
+        const tasksStore = cleanup.objectStore(TASKS_STORE);
+        result.quarantined.forEach(({ record }) => {
+          const id = (record as { id?: unknown } | null)?.id;
+          if (typeof id === 'string' || typeof id === 'number') {
+            tasksStore.delete(id);
+          }
+        });
+        await transactionDone(cleanup);
+      }
+
+      const quarantined = [...migrationQuarantined, ...result.quarantined];
+      await quarantine(db, quarantined);
+
+      lastSaved = new Map(result.tasks.map(task => [task.id, task]));
+      return { tasks: result.tasks, quarantined };
+    },
+
+    async save(tasks: Task[]) {
+      const changed = tasks.filter(task => lastSaved.get(task.id) !== task);
+      const current = new Set(tasks.map(task => task.id));
+      const removed = [...lastSaved.keys()].filter(id => !current.has(id));
+
+      if (changed.length === 0 && removed.length === 0) return;
+
+      const db = await getDb();
+      const transaction = db.transaction(TASKS_STORE, 'readwrite');
+      const store = transaction.objectStore(TASKS_STORE);
+      changed.forEach(task => store.put(task));
+      removed.forEach(id => store.delete(id));
+
+      // Only a committed save counts; after an abort (e.g. quota) the next save retries these tasks
+      await transactionDone(transaction);
+      lastSaved = new Map(tasks.map(task => [task.id, task]));
+    },
+
+    async loadRange(range: DateRange) {
+      const db = await getDb();
+      const transaction = db.transaction(TASKS_STORE, 'readonly');
+      const tasksStore = transaction.objectStore(TASKS_STORE);
+      const [overlapping, series] = await Promise.all([
+        // Tasks ending on or after the range start, then trim those starting after it ends
+        requestToPromise(tasksStore.index('end').getAll(IDBKeyRange.lowerBound(range.start))),
+        // Series are read separately: a later occurrence may fall in range however long ago they started
+        requestToPromise(tasksStore.index(RECURRENCE_INDEX).getAll())
+      ]);
+      return [
+        ...partitionRecords(overlapping).tasks.filter(task => !task.recurrence && task.start <= range.end),
+        ...partitionRecords(series).tasks.filter(task => task.start <= range.end)
+      ];
+    }
+  };
+}
+
+/**
+ * Pick the best available persistence backend
+ */
+export function createDefaultTaskStore(): TaskStore {
+  if (typeof indexedDB !== 'undefined') {
+    return createIndexedDbTaskStore();
+  }
+  return createLocalStorageTaskStore();
+}
@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import type { LaneMode, Task, WeekStartDay } from '../types';
+import { generateMonthGrid, shiftIsoDate, type WeekRow } from './dates';
+import { layoutWeekRow, type WeekLayout } from './layoutEngine';
+import { calculateStableRowIndices, calculateTaskSegments, type TaskSegment } from './taskSegments';
+
+const CATEGORY_ORDER = ['todo', 'in-progress', 'review', 'completed'];
+const RUNS = 200;
+
+// Small seeded generator (mulberry32), so a failing run can be replayed from its seed
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function randomInt(random: () => number, min: number, max: number): number {
+  return min + Math.floor(random() * (max - min + 1));
+}
+
+// Tasks of one to twenty days starting anywhere around the grid, some of them pinned
+function generateTasks(random: () => number, weekRows: WeekRow[]): Task[] {
+  const gridStart = weekRows[0].days[0].isoDate;
+  const gridDays = weekRows.length * 7;
+
+  return Array.from({ length: randomInt(random, 1, 40) }, (_, i) => {
+    const start = shiftIsoDate(gridStart, randomInt(random, -10, gridDays));
+    return {
+      id: `task-${i}`,
+      name: `Task ${i}`,
+      category: CATEGORY_ORDER[randomInt(random, 0, CATEGORY_ORDER.length - 1)],
+      start,
+      end: shiftIsoDate(start, randomInt(random, 0, 19)),
+      ...(random() < 0.2 ? { pinned: true } : {})
+    };
+  });
+}
+
+function layoutGrid(tasks: Task[], weekRows: WeekRow[], laneMode: LaneMode): WeekLayout[] {
+  const layouts: WeekLayout[] = [];
+  weekRows.forEach(weekRow => {
+    const start = weekRow.days[0].isoDate;
+    const end = weekRow.days[6].isoDate;
+    const weekTasks = tasks.filter(task => task.start <= end && task.end >= start);
+    const previous = layouts[layouts.length - 1];
+    layouts.push(layoutWeekRow(weekTasks, weekRow, { laneMode, categoryOrder: CATEGORY_ORDER, previous }));
+  });
+  return layouts;
+}
+
+function columnsOverlap(a: TaskSegment, b: TaskSegment): boolean {
+  return a.startColumn < b.startColumn + b.widthInColumns && b.startColumn < a.startColumn + a.widthInColumns;
+}
+
+function findSharedLane(segments: TaskSegment[]): [TaskSegment, TaskSegment] | undefined {
+  for (let i = 0; i < segments.length; i++) {
+    for (let j = i + 1; j < segments.length; j++) {
+      if (segments[i].rowIndex === segments[j].rowIndex && columnsOverlap(segments[i], segments[j])) {
+        return [segments[i], segments[j]];
+      }
+    }
+  }
+  return undefined;
+}
+
+describe('layoutWeekRow', () => {
+  describe.each<LaneMode>(['compact', 'stable'])('%s lanes', laneMode => {
+    it('never puts overlapping segments in the same lane', () => {
+      for (let seed = 1; seed <= RUNS; seed++) {
+        const random = createRandom(seed);
+        const weekRows = generateMonthGrid(new Date(2024, randomInt(random, 0, 11), 1), randomInt(random, 0, 6) as WeekStartDay);
+        const layouts = layoutGrid(generateTasks(random, weekRows), weekRows, laneMode);
+
+        layouts.forEach((layout, week) => {
+          expect(findSharedLane(layout.segments), `seed ${seed}, week ${week}`).toBeUndefined();
+        });
+      }
+    });
+
+    it('gives every task overlapping a week one segment', () => {
+      for (let seed = 1; seed <= RUNS; seed++) {
+        const random = createRandom(seed);
+        const weekRows = generateMonthGrid(new Date(2024, randomInt(random, 0, 11), 1));
+        const layouts = layoutGrid(generateTasks(random, weekRows), weekRows, laneMode);
+
+        layouts.forEach((layout, week) => {
+          expect(layout.segments.map(segment => segment.task.id), `seed ${seed}, week ${week}`)
+            .toEqual(layout.tasks.map(task => task.id));
+        });
+      }
+    });
+  });
+
+  it('keeps a task continuing into the next week row in its lane', () => {
+    for (let seed = 1; seed <= RUNS; seed++) {
+      const random = createRandom(seed);
+      const weekRows = generateMonthGrid(new Date(2024, randomInt(random, 0, 11), 1));
+      const layouts = layoutGrid(generateTasks(random, weekRows), weekRows, 'stable');
+
+      layouts.slice(1).forEach((layout, i) => {
+        const weekStart = weekRows[i + 1].days[0].isoDate;
+        layout.tasks
+          .filter(task => task.start < weekStart)
+          .forEach(task => {
+            expect(layout.laneByTaskId.get(task.id), `seed ${seed}, week ${i + 1}, ${task.id}`)
+              .toBe(layouts[i].laneByTaskId.get(task.id));
+          });
+      });
+    }
+  });
+});
+
+describe('calculateStableRowIndices', () => {
+  it('keeps a carried lane whenever no other carried segment claims it', () => {
+    for (let seed = 1; seed <= RUNS; seed++) {
+      const random = createRandom(seed);
+      const weekRows = generateMonthGrid(new Date(2024, randomInt(random, 0, 11), 1));
+      const weekRow = weekRows[randomInt(random, 1, weekRows.length - 1)];
+      const segments = generateTasks(random, weekRows).flatMap(task => calculateTaskSegments(task, [weekRow]));
+
+      // Arbitrary lanes, unlike a real previous week, so some of them collide
+      const carriedLanes = new Map<string, number>();
+      segments.forEach(segment => {
+        if (segment.startColumn === 0 && random() < 0.7) carriedLanes.set(segment.task.id, randomInt(random, 0, 5));
+      });
+
+      calculateStableRowIndices(segments, { categoryOrder: CATEGORY_ORDER, carriedLanes });
+
+      expect(findSharedLane(segments), `seed ${seed}`).toBeUndefined();
+      const claims = [...carriedLanes.values()];
+      carriedLanes.forEach((lane, taskId) => {
+        if (claims.filter(claimed => claimed === lane).length > 1) return;
+        const segment = segments.find(candidate => candidate.task.id === taskId);
+        expect(segment?.rowIndex, `seed ${seed}, ${taskId}`).toBe(lane);
+      });
+    }
+  });
+});
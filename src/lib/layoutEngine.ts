@@ -0,0 +1,229 @@
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import type { LaneMode, Task } from '../types';
+import type { WeekRow } from './dates';
+import { shiftIsoDate } from './dates';
+import { calculateRowIndices, calculateStableRowIndices, calculateTaskSegments, type TaskSegment } from './taskSegments';
+
+// Tasks longer than this are kept in a separate list, so the sorted list can
+// bound how far before a range an overlapping task may start
+const LONG_TASK_DAYS = 62;
+// Above this many changed tasks an update rebuilds the index instead
+const MAX_INCREMENTAL_CHANGES = 32;
+
+interface IndexEntry {
+  task: Task;
+  order: number; // position in the task list, which breaks layout ties
+}
+
+/**
+ * Interval index over task dates. Short tasks are sorted by start date;
+ * long tasks are few and scanned in full.
+ */
+export interface TaskIndex {
+  tasks: Task[];
+  byStart: IndexEntry[];
+  long: IndexEntry[];
+}
+
+export interface WeekLayout {
+  tasks: Task[]; // tasks overlapping the week, in task list order
+  segments: TaskSegment[]; // with lanes assigned
+  tasksByDay: Task[][]; // tasks covering each day of the week
+  carriedLanes: Map<string, number>; // lanes kept from the previous week row
+  laneByTaskId: Map<string, number>;
+}
+
+export interface WeekLayoutOptions {
+  laneMode: LaneMode;
+  categoryOrder: string[]; // category ids in display order
+  previous?: WeekLayout; // layout of the week row above, for stable lanes
+}
+
+function isLongTask(task: Task): boolean {
+  return differenceInCalendarDays(parseISO(task.end), parseISO(task.start)) > LONG_TASK_DAYS;
+}
+
+// First position in byStart whose start is on or after isoDate
+function lowerBound(entries: IndexEntry[], isoDate: string): number {
+  let low = 0;
+  let high = entries.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (entries[middle].task.start < isoDate) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+}
+
+function compareEntries(a: IndexEntry, b: IndexEntry): number {
+  return a.task.start.localeCompare(b.task.start) || a.order - b.order;
+}
+
+/**
+ * Tasks that render the same. Expanded occurrences are new objects on every
+ * expansion, so identity alone would treat every occurrence as changed.
+ */
+function isSameTask(a: Task, b: Task): boolean {
+  if (a === b) return true;
+
+  const keys = Object.keys(a) as (keyof Task)[];
+  return keys.length === Object.keys(b).length && keys.every(key => a[key] === b[key]);
+}
+
+export function createTaskIndex(tasks: Task[]): TaskIndex {
+  const byStart: IndexEntry[] = [];
+  const long: IndexEntry[] = [];
+
+  tasks.forEach((task, order) => {
+    (isLongTask(task) ? long : byStart).push({ task, order });
+  });
+  byStart.sort(compareEntries);
+
+  return { tasks, byStart, long };
+}
+
+function removeEntry(entries: IndexEntry[], entry: IndexEntry): void {
+  const position = entries.indexOf(entry, lowerBound(entries, entry.task.start));
+  if (position !== -1) entries.splice(position, 1);
+}
+
+function insertEntry(entries: IndexEntry[], entry: IndexEntry): void {
+  let position = lowerBound(entries, entry.task.start);
+  while (position < entries.length && compareEntries(entries[position], entry) < 0) {
+    position++;
+  }
+  entries.splice(position, 0, entry);
+}
+
+/**
+ * Bring an index up to date with a new task list. When only a few tasks
+ * changed in place, as while dragging one, just their entries are moved;
+ * anything else rebuilds the index. Unchanged tasks keep their previous
+ * objects, so layouts built from them can be reused.
+ */
+export function updateTaskIndex(index: TaskIndex, tasks: Task[]): TaskIndex {
+  if (tasks === index.tasks) return index;
+  if (tasks.length !== index.tasks.length) return createTaskIndex(tasks);
+
+  const changed: number[] = [];
+  for (let i = 0; i < tasks.length; i++) {
+    if (isSameTask(index.tasks[i], tasks[i])) continue;
+    if (tasks[i].id !== index.tasks[i].id || changed.length === MAX_INCREMENTAL_CHANGES) {
+      return createTaskIndex(tasks);
+    }
+    changed.push(i);
+  }
+  if (changed.length === 0) return index;
+
+  const nextTasks = [...index.tasks];
+  const byStart = [...index.byStart];
+  const long = [...index.long];
+  const changedOrders = new Set(changed);
+  const entryByOrder = new Map<number, IndexEntry>();
+  [...byStart, ...long].forEach(entry => {
+    if (changedOrders.has(entry.order)) entryByOrder.set(entry.order, entry);
+  });
+
+  changed.forEach(order => {
+    const previous = entryByOrder.get(order);
+    if (previous) {
+      if (long.includes(previous)) {
+        long.splice(long.indexOf(previous), 1);
+      } else {
+        removeEntry(byStart, previous);
+      }
+    }
+
+    const entry = { task: tasks[order], order };
+    nextTasks[order] = entry.task;
+    if (isLongTask(entry.task)) {
+      long.push(entry);
+    } else {
+      insertEntry(byStart, entry);
+    }
+  });
+
+  return { tasks: nextTasks, byStart, long };
+}
+
+/**
+ * Tasks overlapping an inclusive ISO date range, in task list order
+ */
+export function queryTaskIndex(index: TaskIndex, start: string, end: string): Task[] {
+  const matches: IndexEntry[] = [];
+
+  for (let i = lowerBound(index.byStart, shiftIsoDate(start, -LONG_TASK_DAYS)); i < index.byStart.length; i++) {
+    const entry = index.byStart[i];
+    if (entry.task.start > end) break;
+    if (entry.task.end >= start) matches.push(entry);
+  }
+  index.long.forEach(entry => {
+    if (entry.task.start <= end && entry.task.end >= start) matches.push(entry);
+  });
+
+  return matches.sort((a, b) => a.order - b.order).map(entry => entry.task);
+}
+
+/**
+ * Lanes of the tasks that continue into a week from the week row above
+ */
+function getCarriedLanes(weekTasks: Task[], weekStart: string, options: WeekLayoutOptions): Map<string, number> {
+  const carried = new Map<string, number>();
+  if (options.laneMode !== 'stable' || !options.previous) return carried;
+
+  weekTasks.forEach(task => {
+    const lane = task.start < weekStart ? options.previous?.laneByTaskId.get(task.id) : undefined;
+    if (lane !== undefined) carried.set(task.id, lane);
+  });
+  return carried;
+}
+
+/**
+ * Segments, lanes and per-day task lists for one week row, from the tasks
+ * overlapping it
+ */
+export function layoutWeekRow(weekTasks: Task[], weekRow: WeekRow, options: WeekLayoutOptions): WeekLayout {
+  const segments: TaskSegment[] = [];
+  weekTasks.forEach(task => {
+    segments.push(...calculateTaskSegments(task, [weekRow]));
+  });
+
+  const carriedLanes = getCarriedLanes(weekTasks, weekRow.days[0].isoDate, options);
+  if (options.laneMode === 'stable') {
+    calculateStableRowIndices(segments, { categoryOrder: options.categoryOrder, carriedLanes });
+  } else {
+    calculateRowIndices(segments);
+  }
+
+  return {
+    tasks: weekTasks,
+    segments,
+    tasksByDay: weekRow.days.map(day =>
+      weekTasks.filter(task => task.start <= day.isoDate && task.end >= day.isoDate)
+    ),
+    carriedLanes,
+    laneByTaskId: new Map(segments.map(segment => [segment.task.id, segment.rowIndex]))
+  };
+}
+
+/**
+ * Whether a cached week layout is still valid: built from the same tasks,
+ * with the same lanes carried over from the week row above
+ */
+export function isLayoutCurrent(
+  layout: WeekLayout,
+  weekTasks: Task[],
+  weekRow: WeekRow,
+  options: WeekLayoutOptions
+): boolean {
+  if (layout.tasks.length !== weekTasks.length || !layout.tasks.every((task, i) => task === weekTasks[i])) {
+    return false;
+  }
+
+  const carriedLanes = getCarriedLanes(weekTasks, weekRow.days[0].isoDate, options);
+  return carriedLanes.size === layout.carriedLanes.size
+    && [...carriedLanes].every(([taskId, lane]) => layout.carriedLanes.get(taskId) === lane);
+}
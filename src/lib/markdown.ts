@@ -0,0 +1,126 @@
+/**
+ * The small markdown subset used in task descriptions:
+ *
+ *   # Heading (levels 1-3)     - bullet or 1. numbered lists
+ *   **bold**  *italic*  `code`  [link](https://example.com)
+ *   ``` fenced code blocks ```
+ *
+ * Text is parsed into a tree and rendered as React elements, never as HTML,
+ * so a description can't inject markup.
+ */
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'strong' | 'em'; children: MarkdownInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: MarkdownInline[] };
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: 1 | 2 | 3; children: MarkdownInline[] }
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'list'; ordered: boolean; items: MarkdownInline[][] }
+  | { type: 'code'; text: string };
+
+const HEADING_PATTERN = /^(#{1,3})\s+(.*)$/;
+const BULLET_PATTERN = /^\s*[-*+]\s+(.*)$/;
+const NUMBERED_PATTERN = /^\s*\d+[.)]\s+(.*)$/;
+const FENCE_PATTERN = /^\s*```/;
+const SAFE_URL_PATTERN = /^(https?:|mailto:)/i;
+
+// Earliest inline marker wins; links are checked before emphasis so "*" in URLs is kept
+const INLINE_PATTERN = /`([^`]+)`|\[([^\]]+)\]\(([^)\s]+)\)|\*\*(.+?)\*\*|__(.+?)__|\*(.+?)\*|_(.+?)_/;
+
+export function parseInline(text: string): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  let rest = text;
+
+  while (rest) {
+    const match = rest.match(INLINE_PATTERN);
+    if (!match || match.index === undefined) {
+      nodes.push({ type: 'text', text: rest });
+      break;
+    }
+    if (match.index > 0) {
+      nodes.push({ type: 'text', text: rest.slice(0, match.index) });
+    }
+
+    const [whole, code, linkText, href, strong, strongAlt, em, emAlt] = match;
+    if (code !== undefined) {
+      nodes.push({ type: 'code', text: code });
+    } else if (linkText !== undefined) {
+      // Unsafe schemes such as javascript: stay plain text
+      nodes.push(SAFE_URL_PATTERN.test(href)
+        ? { type: 'link', href, children: parseInline(linkText) }
+        : { type: 'text', text: whole });
+    } else if (strong !== undefined || strongAlt !== undefined) {
+      nodes.push({ type: 'strong', children: parseInline(strong ?? strongAlt) });
+    } else {
+      nodes.push({ type: 'em', children: parseInline(em ?? emAlt) });
+    }
+    rest = rest.slice(match.index + whole.length);
+  }
+
+  return nodes;
+}
+
+export function parseMarkdown(text: string): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  let paragraph: string[] = [];
+  let isInList = false; // the previous line was a list item, which the next item continues
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', children: parseInline(paragraph.join(' ')) });
+      paragraph = [];
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const wasInList = isInList;
+    isInList = false;
+
+    if (FENCE_PATTERN.test(line)) {
+      flushParagraph();
+      const code: string[] = [];
+      for (i++; i < lines.length && !FENCE_PATTERN.test(lines[i]); i++) {
+        code.push(lines[i]);
+      }
+      blocks.push({ type: 'code', text: code.join('\n') });
+      continue;
+    }
+
+    const heading = line.match(HEADING_PATTERN);
+    if (heading) {
+      flushParagraph();
+      blocks.push({ type: 'heading', level: heading[1].length as 1 | 2 | 3, children: parseInline(heading[2]) });
+      continue;
+    }
+
+    const bullet = line.match(BULLET_PATTERN);
+    const numbered = bullet ? null : line.match(NUMBERED_PATTERN);
+    if (bullet || numbered) {
+      flushParagraph();
+      const ordered = !!numbered;
+      const item = parseInline((bullet ?? numbered)?.[1] ?? '');
+      const previous = blocks[blocks.length - 1];
+      if (wasInList && previous?.type === 'list' && previous.ordered === ordered) {
+        previous.items.push(item);
+      } else {
+        blocks.push({ type: 'list', ordered, items: [item] });
+      }
+      isInList = true;
+      continue;
+    }
+
+    if (!line.trim()) {
+      flushParagraph();
+      continue;
+    }
+    paragraph.push(line.trim());
+  }
+  flushParagraph();
+
+  return blocks;
+}
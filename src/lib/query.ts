@@ -0,0 +1,492 @@
+import { addDays, format, isValid, parseISO } from 'date-fns';
+import type { CategoryDefinition, Task, TeamMember } from '../types';
+import { findCategoryByName } from './categories';
+import { findTeamMemberByName } from './team';
+import { TASK_PRIORITIES, isTaskPriority, normalizeTag } from './taskDetails';
+import { dayCountInclusive } from './dates';
+
+/**
+ * Search query language used by the filters search box.
+ *
+ *   cat:review starts>=2026-11-01 ends<today+7 duration>3 "api migration" -draft
+ *   assignee:ada priority<=P1 tag:backend
+ *
+ * Terms next to each other must all match (AND). Terms can be combined with
+ * OR, negated with NOT or a leading "-", and grouped with parentheses.
+ * Bare words and "quoted phrases" match the task name.
+ */
+
+export type QueryField = 'cat' | 'name' | 'starts' | 'ends' | 'duration' | 'is' | 'assignee' | 'priority' | 'tag';
+export type QueryOperator = ':' | '=' | '!=' | '<' | '<=' | '>' | '>=';
+
+export type QueryNode =
+  | { type: 'and'; children: QueryNode[] }
+  | { type: 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode }
+  | { type: 'text'; value: string; position: number }
+  | { type: 'field'; field: QueryField; operator: QueryOperator; value: string; position: number };
+
+export interface QueryError {
+  message: string;
+  position: number; // character offset in the query text
+}
+
+export type TaskPredicate = (task: Task) => boolean;
+
+export interface TaskQueryResult {
+  predicate: TaskPredicate | null; // null when the query is empty or invalid
+  error: QueryError | null;
+}
+
+export interface QueryContext {
+  categories: CategoryDefinition[];
+  team: TeamMember[];
+  today: Date;
+}
+
+interface FieldDefinition {
+  field: QueryField;
+  aliases: string[];
+  kind: 'category' | 'text' | 'date' | 'number' | 'flag' | 'member' | 'priority' | 'tag';
+  example: string;
+}
+
+const FIELDS: FieldDefinition[] = [
+  { field: 'cat', aliases: ['cat', 'category'], kind: 'category', example: 'cat:review' },
+  { field: 'name', aliases: ['name'], kind: 'text', example: 'name:release' },
+  { field: 'starts', aliases: ['starts', 'start'], kind: 'date', example: 'starts>=2026-11-01' },
+  { field: 'ends', aliases: ['ends', 'end'], kind: 'date', example: 'ends<today+7' },
+  { field: 'duration', aliases: ['duration'], kind: 'number', example: 'duration>3' },
+  { field: 'is', aliases: ['is'], kind: 'flag', example: 'is:done' },
+  { field: 'assignee', aliases: ['assignee', 'who'], kind: 'member', example: 'assignee:ada' },
+  { field: 'priority', aliases: ['priority', 'p'], kind: 'priority', example: 'priority<=P1' },
+  { field: 'tag', aliases: ['tag', 'tags'], kind: 'tag', example: 'tag:backend' }
+];
+
+const FLAG_VALUES = ['done', 'recurring', 'assigned'];
+const FIELD_TERM_PATTERN = /^([a-zA-Z]+)(>=|<=|!=|:|=|<|>)(.*)$/s;
+const RELATIVE_DATE_PATTERN = /^today(?:([+-])(\d+)([dw])?)?$/i;
+
+interface Token {
+  kind: 'lparen' | 'rparen' | 'not' | 'and' | 'or' | 'term';
+  text: string;
+  position: number;
+}
+
+/**
+ * Thrown inside the parser to unwind to compileTaskQuery with a message
+ */
+class QueryParseError extends Error {
+  constructor(message: string, public position: number) {
+    super(message);
+  }
+}
+
+function findField(name: string): FieldDefinition | undefined {
+  const lower = name.toLowerCase();
+  return FIELDS.find(definition => definition.aliases.includes(lower));
+}
+
+function isBoundary(char: string | undefined): boolean {
+  return char === undefined || /\s/.test(char) || char === '(' || char === ')';
+}
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < text.length) {
+    const char = text[index];
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+    if (char === '(' || char === ')') {
+      tokens.push({ kind: char === '(' ? 'lparen' : 'rparen', text: char, position: index });
+      index++;
+      continue;
+    }
+    // A leading "-" negates the term right after it
+    if (char === '-' && !isBoundary(text[index + 1])) {
+      tokens.push({ kind: 'not', text: char, position: index });
+      index++;
+      continue;
+    }
+
+    // A term runs to the next boundary; quoted sections may contain spaces and parentheses
+    const start = index;
+    while (index < text.length && !isBoundary(text[index])) {
+      if (text[index] === '"') {
+        const closing = text.indexOf('"', index + 1);
+        if (closing === -1) {
+          throw new QueryParseError('Missing closing quote', index);
+        }
+        index = closing + 1;
+      } else {
+        index++;
+      }
+    }
+
+    const word = text.slice(start, index);
+    const kind = word === 'AND' ? 'and' : word === 'OR' ? 'or' : word === 'NOT' ? 'not' : 'term';
+    tokens.push({ kind, text: word, position: start });
+  }
+
+  return tokens;
+}
+
+function unquote(value: string): string {
+  return value.startsWith('"') && value.endsWith('"') && value.length >= 2
+    ? value.slice(1, -1)
+    : value;
+}
+
+function parseTerm(token: Token): QueryNode {
+  const match = token.text.match(FIELD_TERM_PATTERN);
+  if (match && !token.text.startsWith('"')) {
+    const [, name, operator, rawValue] = match;
+    const definition = findField(name);
+
+    if (!definition) {
+      // "foo:bar" is almost certainly a mistyped field; "a=b" is just a word
+      if (operator === ':') {
+        throw new QueryParseError(
+          `Unknown field "${name}". Try ${FIELDS.map(f => `${f.field}:`).join(', ')}`,
+          token.position
+        );
+      }
+      return { type: 'text', value: token.text, position: token.position };
+    }
+
+    const value = unquote(rawValue);
+    if (!value) {
+      throw new QueryParseError(`Missing value after "${name}${operator}"`, token.position + token.text.length);
+    }
+    return { type: 'field', field: definition.field, operator: operator as QueryOperator, value, position: token.position };
+  }
+
+  const value = unquote(token.text);
+  return { type: 'text', value, position: token.position };
+}
+
+/**
+ * Parse query text into a syntax tree. Returns null for an empty query,
+ * throws QueryParseError on a syntax error.
+ */
+function parseQuery(text: string): QueryNode | null {
+  const tokens = tokenize(text);
+  let index = 0;
+
+  const peek = () => tokens[index];
+
+  const parseOr = (): QueryNode => {
+    const children = [parseAnd()];
+    while (peek()?.kind === 'or') {
+      const or = tokens[index++];
+      if (!peek() || peek().kind === 'rparen' || peek().kind === 'or') {
+        throw new QueryParseError('"OR" needs a term after it', or.position);
+      }
+      children.push(parseAnd());
+    }
+    return children.length === 1 ? children[0] : { type: 'or', children };
+  };
+
+  const parseAnd = (): QueryNode => {
+    const children = [parseNot()];
+    while (peek() && peek().kind !== 'or' && peek().kind !== 'rparen') {
+      if (peek().kind === 'and') {
+        const and = tokens[index++];
+        if (!peek() || peek().kind === 'rparen' || peek().kind === 'or') {
+          throw new QueryParseError('"AND" needs a term after it', and.position);
+        }
+      }
+      children.push(parseNot());
+    }
+    return children.length === 1 ? children[0] : { type: 'and', children };
+  };
+
+  const parseNot = (): QueryNode => {
+    const token = peek();
+    if (token?.kind === 'not') {
+      index++;
+      if (!peek() || peek().kind === 'rparen') {
+        throw new QueryParseError(`"${token.text}" needs a term after it`, token.position);
+      }
+      return { type: 'not', child: parseNot() };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): QueryNode => {
+    const token = tokens[index++];
+    if (!token) {
+      throw new QueryParseError('Unexpected end of query', text.length);
+    }
+
+    switch (token.kind) {
+      case 'lparen': {
+        if (peek()?.kind === 'rparen') {
+          throw new QueryParseError('Empty parentheses', token.position);
+        }
+        const inner = parseOr();
+        if (peek()?.kind !== 'rparen') {
+          throw new QueryParseError('Missing closing parenthesis', token.position);
+        }
+        index++;
+        return inner;
+      }
+      case 'term':
+        return parseTerm(token);
+      default:
+        throw new QueryParseError(`Unexpected "${token.text}"`, token.position);
+    }
+  };
+
+  if (tokens.length === 0) return null;
+
+  const root = parseOr();
+  if (index < tokens.length) {
+    const token = tokens[index];
+    throw new QueryParseError(
+      token.kind === 'rparen' ? 'Unmatched ")"' : `Unexpected "${token.text}"`,
+      token.position
+    );
+  }
+  return root;
+}
+
+/**
+ * Resolve an ISO date or "today", "today+7", "today-2w" to an ISO date
+ */
+function resolveDate(value: string, today: Date): string | null {
+  const relative = value.match(RELATIVE_DATE_PATTERN);
+  if (relative) {
+    const [, sign, amount, unit] = relative;
+    const days = amount ? Number(amount) * (unit?.toLowerCase() === 'w' ? 7 : 1) : 0;
+    return format(addDays(today, sign === '-' ? -days : days), 'yyyy-MM-dd');
+  }
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value) && isValid(parseISO(value))) {
+    return value;
+  }
+  return null;
+}
+
+function compare<T extends string | number>(left: T, operator: QueryOperator, right: T): boolean {
+  switch (operator) {
+    case ':':
+    case '=':
+      return left === right;
+    case '!=':
+      return left !== right;
+    case '<':
+      return left < right;
+    case '<=':
+      return left <= right;
+    case '>':
+      return left > right;
+    case '>=':
+      return left >= right;
+  }
+}
+
+function compileNode(node: QueryNode, context: QueryContext): TaskPredicate {
+  switch (node.type) {
+    case 'and': {
+      const children = node.children.map(child => compileNode(child, context));
+      return task => children.every(predicate => predicate(task));
+    }
+    case 'or': {
+      const children = node.children.map(child => compileNode(child, context));
+      return task => children.some(predicate => predicate(task));
+    }
+    case 'not': {
+      const child = compileNode(node.child, context);
+      return task => !child(task);
+    }
+    case 'text': {
+      const lower = node.value.toLowerCase();
+      return task => task.name.toLowerCase().includes(lower);
+    }
+    case 'field':
+      return compileField(node, context);
+  }
+}
+
+function compileField(
+  node: Extract<QueryNode, { type: 'field' }>,
+  context: QueryContext
+): TaskPredicate {
+  const { field, operator, value, position } = node;
+  const equalityOnly = (kind: string) => {
+    if (operator !== ':' && operator !== '=' && operator !== '!=') {
+      throw new QueryParseError(`"${field}" ${kind} can't be compared with "${operator}"`, position);
+    }
+  };
+  const negate = operator === '!=';
+
+  switch (field) {
+    case 'cat': {
+      equalityOnly('values');
+      const category = findCategoryByName(context.categories, value);
+      if (!category) {
+        throw new QueryParseError(`Unknown category "${value}"`, position);
+      }
+      return task => (task.category === category.id) !== negate;
+    }
+    case 'name': {
+      equalityOnly('values');
+      const lower = value.toLowerCase();
+      return task => task.name.toLowerCase().includes(lower) !== negate;
+    }
+    case 'is': {
+      equalityOnly('values');
+      const flag = value.toLowerCase();
+      if (flag === 'done') {
+        const doneIds = new Set(context.categories.filter(c => c.isDone).map(c => c.id));
+        return task => doneIds.has(task.category) !== negate;
+      }
+      if (flag === 'recurring') {
+        return task => !!task.recurrence !== negate;
+      }
+      if (flag === 'assigned') {
+        return task => !!task.assignee !== negate;
+      }
+      throw new QueryParseError(`Unknown value "is:${value}". Try ${FLAG_VALUES.map(v => `is:${v}`).join(', ')}`, position);
+    }
+    case 'assignee': {
+      equalityOnly('values');
+      const member = findTeamMemberByName(context.team, value);
+      if (!member) {
+        throw new QueryParseError(`Unknown team member "${value}"`, position);
+      }
+      return task => (task.assignee === member.id) !== negate;
+    }
+    case 'priority': {
+      // P0 is the most urgent, so priority<=P1 means P0 or P1
+      const priority = value.toUpperCase();
+      if (!isTaskPriority(priority)) {
+        throw new QueryParseError(`Unknown priority "${value}". Use P0, P1, P2 or P3`, position);
+      }
+      // Tasks without a priority only match "!="
+      return task => task.priority ? compare(task.priority, operator, priority) : negate;
+    }
+    case 'tag': {
+      equalityOnly('values');
+      const tag = normalizeTag(value);
+      return task => !!task.tags?.includes(tag) !== negate;
+    }
+    case 'starts':
+    case 'ends': {
+      const date = resolveDate(value, context.today);
+      if (!date) {
+        throw new QueryParseError(`Invalid date "${value}". Use YYYY-MM-DD, today, or today+N`, position);
+      }
+      return task => compare(field === 'starts' ? task.start : task.end, operator, date);
+    }
+    case 'duration': {
+      const days = Number(value.replace(/d$/i, ''));
+      if (!Number.isInteger(days) || days < 0) {
+        throw new QueryParseError(`Invalid duration "${value}". Use a whole number of days`, position);
+      }
+      return task => compare(dayCountInclusive(task.start, task.end), operator, days);
+    }
+  }
+}
+
+/**
+ * Parse and compile a search query into a task predicate.
+ * Invalid queries return the first error instead of a predicate.
+ */
+export function compileTaskQuery(text: string, context: QueryContext): TaskQueryResult {
+  try {
+    const root = parseQuery(text);
+    return { predicate: root ? compileNode(root, context) : null, error: null };
+  } catch (error) {
+    if (error instanceof QueryParseError) {
+      return { predicate: null, error: { message: error.message, position: error.position } };
+    }
+    throw error;
+  }
+}
+
+export interface QuerySuggestion {
+  label: string;
+  insertText: string;
+  detail?: string;
+}
+
+export interface QuerySuggestions {
+  from: number; // replace text[from, to) with the chosen suggestion
+  to: number;
+  items: QuerySuggestion[];
+}
+
+function quoteIfNeeded(value: string): string {
+  return /[\s()"]/.test(value) ? `"${value.replace(/"/g, '')}"` : value;
+}
+
+/**
+ * Autocomplete suggestions for the term under the caret: field names while
+ * typing a bare word, and known values after fields such as "cat:" or "tag:"
+ */
+export function getQuerySuggestions(
+  text: string,
+  caret: number,
+  categories: CategoryDefinition[],
+  team: TeamMember[] = [],
+  tags: string[] = []
+): QuerySuggestions | null {
+  let from = caret;
+  while (from > 0 && !isBoundary(text[from - 1])) from--;
+  if (text[from] === '-') from++;
+
+  let to = caret;
+  while (to < text.length && !isBoundary(text[to])) to++;
+
+  const partial = text.slice(from, caret);
+  if (!partial) return null;
+
+  const valueMatch = partial.match(/^([a-zA-Z]+)(:|=|!=)"?([^"]*)$/);
+  if (valueMatch) {
+    const [, name, operator, valuePrefix] = valueMatch;
+    const definition = findField(name);
+    const prefix = valuePrefix.toLowerCase();
+
+    let values: { value: string; detail?: string }[] = [];
+    if (definition?.kind === 'category') {
+      values = categories.map(category => ({ value: category.name, detail: category.isDone ? 'done' : undefined }));
+    } else if (definition?.kind === 'flag') {
+      values = FLAG_VALUES.map(value => ({ value }));
+    } else if (definition?.kind === 'member') {
+      values = team.map(member => ({ value: member.name }));
+    } else if (definition?.kind === 'priority') {
+      values = TASK_PRIORITIES.map(({ value, name }) => ({ value, detail: name }));
+    } else if (definition?.kind === 'tag') {
+      values = tags.map(value => ({ value }));
+    }
+
+    const items = values
+      .filter(({ value }) => value.toLowerCase().startsWith(prefix) && value.toLowerCase() !== prefix)
+      .map(({ value, detail }) => ({
+        label: value,
+        insertText: `${name}${operator}${quoteIfNeeded(value)}`,
+        detail
+      }));
+    return items.length > 0 ? { from, to, items } : null;
+  }
+
+  if (/^[a-zA-Z]+$/.test(partial)) {
+    const prefix = partial.toLowerCase();
+    const items = FIELDS
+      .filter(definition => definition.field.startsWith(prefix))
+      .map(definition => ({
+        label: `${definition.field}:`,
+        insertText: `${definition.field}:`,
+        detail: definition.example
+      }));
+    return items.length > 0 ? { from, to, items } : null;
+  }
+
+  return null;
+}
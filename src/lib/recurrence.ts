@@ -0,0 +1,337 @@
+import {
+  addDays,
+  addMonths,
+  differenceInDays,
+  format,
+  getDaysInMonth,
+  parseISO,
+  startOfWeek,
+  subDays
+} from 'date-fns';
+import type { DateRange, Recurrence, RecurrenceScope, Task, TaskDetails } from '../types';
+import { DEFAULT_WEEK_START } from './dates';
+import { applyTaskDetails } from './taskDetails';
+
+const OCCURRENCE_SEPARATOR = '::';
+const MAX_ITERATIONS = 10000; // guards against runaway rules
+
+export type OccurrenceChange =
+  | { type: 'move'; newStart: string }
+  | { type: 'resize'; newStart: string; newEnd: string }
+  | { type: 'update'; name: string; category: Task['category']; recurrence?: Recurrence; details: TaskDetails }
+  | { type: 'delete' };
+
+function toIso(date: Date): string {
+  return format(date, 'yyyy-MM-dd');
+}
+
+/**
+ * Build the id of a single expanded occurrence
+ */
+export function occurrenceId(seriesId: string, occurrenceStart: string): string {
+  return `${seriesId}${OCCURRENCE_SEPARATOR}${occurrenceStart}`;
+}
+
+/**
+ * Split an occurrence id into its series id and occurrence start date.
+ * Returns null for ids that do not belong to an expanded occurrence.
+ */
+export function parseOccurrenceId(id: string): { seriesId: string; occurrenceStart: string } | null {
+  const index = id.lastIndexOf(OCCURRENCE_SEPARATOR);
+  if (index === -1) return null;
+
+  return {
+    seriesId: id.slice(0, index),
+    occurrenceStart: id.slice(index + OCCURRENCE_SEPARATOR.length)
+  };
+}
+
+/**
+ * The id a task is stored under on its own, e.g. an occurrence exported to a
+ * file. Occurrence ids are rewritten so a re-imported copy is a plain task
+ * instead of pointing back at its series.
+ */
+export function standaloneTaskId(id: string): string {
+  return id.split(OCCURRENCE_SEPARATOR).join('-');
+}
+
+/**
+ * Generate candidate occurrence start dates in order, until `stop` returns true.
+ * Candidates are produced before exceptions are removed, matching RFC 5545 COUNT semantics.
+ */
+function forEachCandidate(
+  task: Task,
+  recurrence: Recurrence,
+  visit: (isoDate: string) => boolean // return true to stop
+): void {
+  const seriesStart = parseISO(task.start);
+  const interval = Math.max(1, recurrence.interval);
+
+  for (let step = 0; step < MAX_ITERATIONS; step++) {
+    switch (recurrence.frequency) {
+      case 'daily':
+        if (visit(toIso(addDays(seriesStart, step * interval)))) return;
+        break;
+
+      case 'weekly': {
+        const weekdays = recurrence.byWeekday && recurrence.byWeekday.length > 0
+          ? [...recurrence.byWeekday].sort((a, b) => a - b)
+          : [seriesStart.getDay()];
+        // Weeks are counted from a fixed start day so changing the week-start
+        // setting never moves the occurrences of an existing series
+        const weekStart = addDays(
+          startOfWeek(seriesStart, { weekStartsOn: DEFAULT_WEEK_START }),
+          step * interval * 7
+        );
+        for (const weekday of weekdays) {
+          const date = addDays(weekStart, (weekday - DEFAULT_WEEK_START + 7) % 7);
+          if (date < seriesStart) continue;
+          if (visit(toIso(date))) return;
+        }
+        break;
+      }
+
+      case 'monthly':
+      case 'yearly': {
+        const months = step * interval * (recurrence.frequency === 'yearly' ? 12 : 1);
+        const target = addMonths(new Date(seriesStart.getFullYear(), seriesStart.getMonth(), 1), months);
+        // Months without this day (e.g. the 31st, Feb 29) are skipped, as in RFC 5545
+        if (seriesStart.getDate() > getDaysInMonth(target)) break;
+        target.setDate(seriesStart.getDate());
+        if (visit(toIso(target))) return;
+        break;
+      }
+    }
+  }
+}
+
+/**
+ * List occurrence start dates of a recurring task whose span overlaps the range
+ */
+export function getOccurrenceStarts(task: Task, range: DateRange): string[] {
+  const recurrence = task.recurrence;
+  if (!recurrence) {
+    return task.start <= range.end && task.end >= range.start ? [task.start] : [];
+  }
+
+  const duration = differenceInDays(parseISO(task.end), parseISO(task.start));
+  const exceptions = new Set(recurrence.exceptions ?? []);
+  const starts: string[] = [];
+  let generated = 0;
+
+  forEachCandidate(task, recurrence, isoDate => {
+    if (recurrence.until && isoDate > recurrence.until) return true;
+    if (recurrence.count !== undefined && generated >= recurrence.count) return true;
+    if (isoDate > range.end) return true;
+    generated++;
+
+    const occurrenceEnd = toIso(addDays(parseISO(isoDate), duration));
+    if (occurrenceEnd >= range.start && !exceptions.has(isoDate)) {
+      starts.push(isoDate);
+    }
+    return false;
+  });
+
+  return starts;
+}
+
+/**
+ * Count the occurrences generated before a given date (exceptions included)
+ */
+function countOccurrencesBefore(task: Task, recurrence: Recurrence, isoDate: string): number {
+  let generated = 0;
+  forEachCandidate(task, recurrence, candidate => {
+    if (candidate >= isoDate) return true;
+    generated++;
+    return false;
+  });
+  return generated;
+}
+
+/**
+ * Replace each recurring task with its occurrences inside the range.
+ * Non-recurring tasks pass through unchanged.
+ */
+export function expandRecurringTasks(tasks: Task[], range: DateRange): Task[] {
+  const expanded: Task[] = [];
+
+  tasks.forEach(task => {
+    if (!task.recurrence) {
+      expanded.push(task);
+      return;
+    }
+
+    const duration = differenceInDays(parseISO(task.end), parseISO(task.start));
+    getOccurrenceStarts(task, range).forEach(start => {
+      expanded.push({
+        ...task,
+        id: occurrenceId(task.id, start),
+        start,
+        end: toIso(addDays(parseISO(start), duration))
+      });
+    });
+  });
+
+  return expanded;
+}
+
+/**
+ * Find a task or series by id, resolving occurrence ids to the occurrence of their series.
+ * Returns undefined if the series doesn't have an occurrence on that date.
+ */
+export function findTaskOrOccurrence(tasks: Task[], id: string): Task | undefined {
+  const parsed = parseOccurrenceId(id);
+  if (!parsed) return tasks.find(task => task.id === id);
+
+  const series = tasks.find(task => task.id === parsed.seriesId && task.recurrence);
+  if (!series) return undefined;
+
+  const day = { start: parsed.occurrenceStart, end: parsed.occurrenceStart };
+  return expandRecurringTasks([series], day).find(task => task.id === id);
+}
+
+/**
+ * Apply a change to a single occurrence, the occurrence and all following ones,
+ * or the whole series. Returns the new task list.
+ */
+export function applyOccurrenceChange(
+  tasks: Task[],
+  id: string,
+  scope: RecurrenceScope,
+  change: OccurrenceChange
+): Task[] {
+  const parsed = parseOccurrenceId(id);
+  if (!parsed) return tasks;
+
+  const series = tasks.find(t => t.id === parsed.seriesId);
+  if (!series || !series.recurrence) return tasks;
+
+  const { occurrenceStart } = parsed;
+  const recurrence = series.recurrence;
+  const duration = differenceInDays(parseISO(series.end), parseISO(series.start));
+  const occurrence: Task = {
+    ...series,
+    start: occurrenceStart,
+    end: toIso(addDays(parseISO(occurrenceStart), duration))
+  };
+
+  // Apply the change to a task, keeping its own recurrence unless the change replaces it
+  const applyChange = (task: Task): Task => {
+    switch (change.type) {
+      case 'move': {
+        const length = differenceInDays(parseISO(task.end), parseISO(task.start));
+        return { ...task, start: change.newStart, end: toIso(addDays(parseISO(change.newStart), length)) };
+      }
+      case 'resize':
+        return { ...task, start: change.newStart, end: change.newEnd };
+      case 'update':
+        return applyTaskDetails(
+          { ...task, name: change.name, category: change.category, recurrence: change.recurrence },
+          change.details
+        );
+      case 'delete':
+        return task;
+    }
+  };
+
+  const newId = () => `task-${Date.now()}-${Math.random()}`;
+
+  if (scope === 'all' || (scope === 'following' && occurrenceStart === series.start)) {
+    if (change.type === 'delete') {
+      return tasks.filter(t => t.id !== series.id);
+    }
+
+    // Shift the whole series by the same offset applied to this occurrence
+    const changed = applyChange(occurrence);
+    const startShift = differenceInDays(parseISO(changed.start), parseISO(occurrence.start));
+    const newDuration = differenceInDays(parseISO(changed.end), parseISO(changed.start));
+    const seriesStart = addDays(parseISO(series.start), startShift);
+    const shiftedRecurrence = changed.recurrence && startShift !== 0
+      ? {
+          ...changed.recurrence,
+          byWeekday: changed.recurrence.byWeekday?.map(d => (((d + startShift) % 7) + 7) % 7),
+          exceptions: changed.recurrence.exceptions?.map(d => toIso(addDays(parseISO(d), startShift))),
+          until: changed.recurrence.until && toIso(addDays(parseISO(changed.recurrence.until), startShift))
+        }
+      : changed.recurrence;
+
+    const updatedSeries: Task = {
+      ...changed,
+      id: series.id,
+      start: toIso(seriesStart),
+      end: toIso(addDays(seriesStart, newDuration)),
+      recurrence: shiftedRecurrence
+    };
+    return tasks.map(t => (t.id === series.id ? updatedSeries : t));
+  }
+
+  if (scope === 'this') {
+    const withException: Task = {
+      ...series,
+      recurrence: {
+        ...recurrence,
+        exceptions: [...(recurrence.exceptions ?? []), occurrenceStart]
+      }
+    };
+    const updated = tasks.map(t => (t.id === series.id ? withException : t));
+
+    if (change.type === 'delete') {
+      return updated;
+    }
+
+    // The edited occurrence becomes a standalone task
+    const standalone: Task = { ...applyChange(occurrence), id: newId(), recurrence: undefined };
+    return [...updated, standalone];
+  }
+
+  // scope === 'following': end the series before this occurrence and start a new one here
+  const previousCount = countOccurrencesBefore(series, recurrence, occurrenceStart);
+  const truncated: Task = {
+    ...series,
+    recurrence: {
+      ...recurrence,
+      count: undefined,
+      until: toIso(subDays(parseISO(occurrenceStart), 1)),
+      exceptions: recurrence.exceptions?.filter(d => d < occurrenceStart)
+    }
+  };
+  const updated = tasks.map(t => (t.id === series.id ? truncated : t));
+
+  if (change.type === 'delete') {
+    return updated;
+  }
+
+  const followingRecurrence: Recurrence = {
+    ...recurrence,
+    count: recurrence.count !== undefined ? Math.max(1, recurrence.count - previousCount) : undefined,
+    exceptions: recurrence.exceptions?.filter(d => d >= occurrenceStart)
+  };
+  const following = applyChange({ ...occurrence, recurrence: followingRecurrence });
+  return [...updated, { ...following, id: newId() }];
+}
+
+/**
+ * Short human readable description of a recurrence rule
+ */
+export function describeRecurrence(recurrence: Recurrence): string {
+  const units: Record<Recurrence['frequency'], string> = {
+    daily: 'day',
+    weekly: 'week',
+    monthly: 'month',
+    yearly: 'year'
+  };
+  const unit = units[recurrence.frequency];
+  let text = recurrence.interval > 1 ? `Every ${recurrence.interval} ${unit}s` : `Every ${unit}`;
+
+  if (recurrence.frequency === 'weekly' && recurrence.byWeekday && recurrence.byWeekday.length > 0) {
+    const names = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+    text += ` on ${[...recurrence.byWeekday].sort((a, b) => a - b).map(d => names[d]).join(', ')}`;
+  }
+  if (recurrence.count !== undefined) {
+    text += `, ${recurrence.count} times`;
+  } else if (recurrence.until) {
+    text += `, until ${recurrence.until}`;
+  }
+
+  return text;
+}
@@ -0,0 +1,105 @@
+import type { Task } from '../types';
+import { shiftIsoDate } from './dates';
+import { rescheduleSuccessors, removeDependencyReferences } from './dependencies';
+import { applyOccurrenceChange, findTaskOrOccurrence, parseOccurrenceId, type OccurrenceChange } from './recurrence';
+import type { WorkingCalendarResolver } from './workingDays';
+
+export type TaskSelectMode = 'toggle' | 'range';
+
+export type BulkChange =
+  | { type: 'move'; days: number }
+  | { type: 'category'; category: string }
+  | { type: 'delete' };
+
+/**
+ * Tasks in the order they are shown: by start date, then name
+ */
+export function sortTasksForSelection(tasks: Task[]): Task[] {
+  return [...tasks].sort((a, b) => a.start.localeCompare(b.start) || a.name.localeCompare(b.name));
+}
+
+/**
+ * Update a task selection for a Ctrl/Cmd-click (toggle one task) or a
+ * Shift-click (add every task between the anchor and the clicked task, in
+ * display order). Without an anchor a range selects just the clicked task.
+ */
+export function updateTaskSelection(
+  selectedIds: string[],
+  orderedTasks: Task[],
+  taskId: string,
+  mode: TaskSelectMode,
+  anchorId: string | null
+): string[] {
+  if (mode === 'toggle') {
+    return selectedIds.includes(taskId)
+      ? selectedIds.filter(id => id !== taskId)
+      : [...selectedIds, taskId];
+  }
+
+  const targetIndex = orderedTasks.findIndex(task => task.id === taskId);
+  const anchorIndex = anchorId ? orderedTasks.findIndex(task => task.id === anchorId) : -1;
+  if (targetIndex === -1) return selectedIds;
+  if (anchorIndex === -1) return [...new Set([...selectedIds, taskId])];
+
+  const [from, to] = anchorIndex < targetIndex ? [anchorIndex, targetIndex] : [targetIndex, anchorIndex];
+  const rangeIds = orderedTasks.slice(from, to + 1).map(task => task.id);
+  return [...new Set([...selectedIds, ...rangeIds])];
+}
+
+function toOccurrenceChange(occurrence: Task, change: BulkChange): OccurrenceChange {
+  switch (change.type) {
+    case 'move':
+      return { type: 'move', newStart: shiftIsoDate(occurrence.start, change.days) };
+    case 'category':
+      return { type: 'update', name: occurrence.name, category: change.category, recurrence: undefined, details: occurrence };
+    case 'delete':
+      return { type: 'delete' };
+  }
+}
+
+/**
+ * Apply one change to every selected task. Selected occurrences of a recurring
+ * task are changed on their own, as if the "this occurrence" scope was chosen.
+ * Moves shift every task before rescheduling successors, so selected tasks
+ * keep their offsets to each other. Successors keep their working days when a
+ * calendar resolver is given.
+ */
+export function applyBulkChange(
+  tasks: Task[],
+  taskIds: string[],
+  change: BulkChange,
+  calendarFor?: WorkingCalendarResolver
+): Task[] {
+  const selected = new Set(taskIds);
+  let updated = tasks;
+
+  // Occurrences first: detaching one from its series doesn't affect the other ids
+  taskIds.filter(id => parseOccurrenceId(id)).forEach(id => {
+    const occurrence = findTaskOrOccurrence(updated, id);
+    if (occurrence) {
+      updated = applyOccurrenceChange(updated, id, 'this', toOccurrenceChange(occurrence, change));
+    }
+  });
+
+  const taskIdsToChange = taskIds.filter(id => !parseOccurrenceId(id));
+  switch (change.type) {
+    case 'move':
+      updated = updated.map(task => selected.has(task.id)
+        ? { ...task, start: shiftIsoDate(task.start, change.days), end: shiftIsoDate(task.end, change.days) }
+        : task
+      );
+      taskIdsToChange.forEach(id => {
+        updated = rescheduleSuccessors(updated, id, calendarFor);
+      });
+      return updated;
+
+    case 'category':
+      return updated.map(task => selected.has(task.id) ? { ...task, category: change.category } : task);
+
+    case 'delete':
+      return taskIdsToChange.reduce(
+        (remaining, id) => removeDependencyReferences(remaining, id),
+        updated.filter(task => !selected.has(task.id))
+      );
+  }
+}
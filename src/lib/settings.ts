@@ -0,0 +1,113 @@
+import type { CalendarSettings, DurationMode, Holiday, LaneMode, LockedPeriod, WeekNumbering } from '../types';
+import { isIsoDate } from './timeRange';
+import { DEFAULT_WORKING_CALENDAR, isValidWeekend, mergeHolidays } from './workingDays';
+
+export const SETTINGS_STORAGE_KEY = 'settings';
+
+const WEEK_NUMBERINGS: WeekNumbering[] = ["none", "iso", "fiscal-445"];
+const LANE_MODES: LaneMode[] = ["compact", "stable"];
+const DURATION_MODES: DurationMode[] = ["calendar", "working"];
+
+export const MIN_VISIBLE_LANES = 1;
+export const MAX_VISIBLE_LANES = 8;
+
+export const DEFAULT_SETTINGS: CalendarSettings = {
+  weekStartsOn: 0,
+  weekNumbers: 'none',
+  fiscalYearStartMonth: 0,
+  maxVisibleLanes: 3,
+  laneMode: 'compact',
+  lockedPeriods: [],
+  completeWithChecklist: false,
+  workingCalendar: DEFAULT_WORKING_CALENDAR,
+  durationMode: 'calendar'
+};
+
+function isLockedPeriod(value: unknown): value is LockedPeriod {
+  if (!value || typeof value !== 'object') return false;
+
+  const period = value as Record<string, unknown>;
+  return typeof period.id === 'string'
+    && typeof period.name === 'string'
+    && typeof period.start === 'string' && isIsoDate(period.start)
+    && typeof period.end === 'string' && isIsoDate(period.end)
+    && period.start <= period.end;
+}
+
+function isHoliday(value: unknown): value is Holiday {
+  if (!value || typeof value !== 'object') return false;
+
+  const holiday = value as Record<string, unknown>;
+  return typeof holiday.date === 'string' && isIsoDate(holiday.date) && typeof holiday.name === 'string';
+}
+
+/**
+ * Keep only the stored fields that are valid, so a partly corrupt or older
+ * settings record still restores everything it can
+ */
+export function validateSettings(value: unknown): CalendarSettings {
+  if (!value || typeof value !== 'object') return DEFAULT_SETTINGS;
+
+  const stored = value as Record<string, unknown>;
+  const settings = { ...DEFAULT_SETTINGS };
+
+  if (Number.isInteger(stored.weekStartsOn) && (stored.weekStartsOn as number) >= 0 && (stored.weekStartsOn as number) <= 6) {
+    settings.weekStartsOn = stored.weekStartsOn as CalendarSettings['weekStartsOn'];
+  }
+  if (WEEK_NUMBERINGS.includes(stored.weekNumbers as WeekNumbering)) {
+    settings.weekNumbers = stored.weekNumbers as WeekNumbering;
+  }
+  if (
+    Number.isInteger(stored.fiscalYearStartMonth) &&
+    (stored.fiscalYearStartMonth as number) >= 0 &&
+    (stored.fiscalYearStartMonth as number) <= 11
+  ) {
+    settings.fiscalYearStartMonth = stored.fiscalYearStartMonth as number;
+  }
+  if (
+    Number.isInteger(stored.maxVisibleLanes) &&
+    (stored.maxVisibleLanes as number) >= MIN_VISIBLE_LANES &&
+    (stored.maxVisibleLanes as number) <= MAX_VISIBLE_LANES
+  ) {
+    settings.maxVisibleLanes = stored.maxVisibleLanes as number;
+  }
+  if (LANE_MODES.includes(stored.laneMode as LaneMode)) {
+    settings.laneMode = stored.laneMode as LaneMode;
+  }
+  if (Array.isArray(stored.lockedPeriods)) {
+    settings.lockedPeriods = stored.lockedPeriods.filter(isLockedPeriod);
+  }
+  if (typeof stored.completeWithChecklist === 'boolean') {
+    settings.completeWithChecklist = stored.completeWithChecklist;
+  }
+  if (stored.workingCalendar && typeof stored.workingCalendar === 'object') {
+    const calendar = stored.workingCalendar as Record<string, unknown>;
+    settings.workingCalendar = {
+      weekendDays: isValidWeekend(calendar.weekendDays) ? calendar.weekendDays : DEFAULT_WORKING_CALENDAR.weekendDays,
+      holidays: Array.isArray(calendar.holidays) ? mergeHolidays([], calendar.holidays.filter(isHoliday)) : []
+    };
+  }
+  if (DURATION_MODES.includes(stored.durationMode as DurationMode)) {
+    settings.durationMode = stored.durationMode as DurationMode;
+  }
+
+  return settings;
+}
+
+export function loadSettings(storage: Storage = window.localStorage): CalendarSettings {
+  try {
+    const raw = storage.getItem(SETTINGS_STORAGE_KEY);
+    return raw ? validateSettings(JSON.parse(raw)) : DEFAULT_SETTINGS;
+  } catch (error) {
+    console.error('Failed to load settings from storage:', error);
+    return DEFAULT_SETTINGS;
+  }
+}
+
+export function saveSettings(settings: CalendarSettings, storage: Storage = window.localStorage): void {
+  try {
+    storage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Failed to save settings to storage:', error);
+  }
+}
@@ -0,0 +1,351 @@
+import { isValid, parseISO } from 'date-fns';
+import type { Task, DateRange, RecurrenceFrequency } from '../types';
+import { dateRangesOverlap } from './dates';
+import { LEGACY_CATEGORY_IDS } from './categories';
+import { isTaskPriority } from './taskDetails';
+
+export const STORAGE_KEY = 'tasks';
+export const QUARANTINE_KEY = 'tasks:quarantine';
+export const CURRENT_SCHEMA_VERSION = 4;
+
+const RECURRENCE_FREQUENCIES: RecurrenceFrequency[] = ["daily", "weekly", "monthly", "yearly"];
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Shape of the data written to storage
+ */
+export interface StorageEnvelope {
+  version: number;
+  tasks: unknown[];
+}
+
+export interface QuarantinedRecord {
+  record: unknown;
+  reason: string;
+}
+
+export interface LoadResult {
+  tasks: Task[];
+  quarantined: QuarantinedRecord[];
+}
+
+/**
+ * Persistence backend for tasks. The app only talks to this interface.
+ */
+export interface TaskStore {
+  load(): Promise<LoadResult>;
+  save(tasks: Task[]): Promise<void>;
+  /** Load only the tasks overlapping the given inclusive date range */
+  loadRange(range: DateRange): Promise<Task[]>;
+}
+
+interface Migration {
+  toVersion: number;
+  migrate: (tasks: unknown[]) => unknown[];
+}
+
+/**
+ * Ordered migrations. Each one upgrades the raw task records from
+ * `toVersion - 1` to `toVersion`. Add new entries at the end.
+ */
+const MIGRATIONS: Migration[] = [
+  {
+    // v0 was a bare Task[] array; records are unchanged, only the envelope is new
+    toVersion: 1,
+    migrate: tasks => tasks
+  },
+  {
+    // v2 references user-defined categories by id instead of by fixed name
+    toVersion: 2,
+    migrate: tasks => tasks.map(migrateLegacyCategory)
+  },
+  {
+    // v3 adds optional description, assignee, priority and tags; existing records are valid as they are
+    toVersion: 3,
+    migrate: tasks => tasks
+  },
+  {
+    // v4 adds optional subtask checklists
+    toVersion: 4,
+    migrate: tasks => tasks
+  }
+];
+
+/**
+ * Replace a legacy category name on a raw task record with its category id
+ */
+export function migrateLegacyCategory(record: unknown): unknown {
+  if (!record || typeof record !== 'object') return record;
+  const category = (record as Record<string, unknown>).category;
+  if (typeof category !== 'string' || !(category in LEGACY_CATEGORY_IDS)) return record;
+  return { ...record, category: LEGACY_CATEGORY_IDS[category] };
+}
+
+/**
+ * Parse raw storage contents into an envelope.
+ * A bare array is treated as the legacy (version 0) format.
+ */
+export function readEnvelope(raw: string): StorageEnvelope {
+  const parsed: unknown = JSON.parse(raw);
+
+  if (Array.isArray(parsed)) {
+    return { version: 0, tasks: parsed };
+  }
+
+  if (
+    parsed &&
+    typeof parsed === 'object' &&
+    typeof (parsed as StorageEnvelope).version === 'number' &&
+    Array.isArray((parsed as StorageEnvelope).tasks)
+  ) {
+    return parsed as StorageEnvelope;
+  }
+
+  throw new Error('Unrecognized storage format');
+}
+
+/**
+ * Run every migration newer than the envelope's version, in order
+ */
+export function migrateEnvelope(envelope: StorageEnvelope): StorageEnvelope {
+  if (envelope.version > CURRENT_SCHEMA_VERSION) {
+    throw new Error(
+      `Stored data is version ${envelope.version}, newer than supported version ${CURRENT_SCHEMA_VERSION}`
+    );
+  }
+
+  return MIGRATIONS
+    .filter(migration => migration.toVersion > envelope.version)
+    .reduce<StorageEnvelope>(
+      (current, migration) => ({
+        version: migration.toVersion,
+        tasks: migration.migrate(current.tasks)
+      }),
+      envelope
+    );
+}
+
+function isIsoDate(value: unknown): value is string {
+  return typeof value === 'string' && ISO_DATE_PATTERN.test(value) && isValid(parseISO(value));
+}
+
+/**
+ * Validate a single stored record. Returns the reason it was rejected,
+ * or null if it is a valid Task.
+ */
+export function validateTask(record: unknown): string | null {
+  if (!record || typeof record !== 'object') {
+    return 'Record is not an object';
+  }
+
+  const task = record as Record<string, unknown>;
+
+  if (typeof task.id !== 'string' || !task.id) {
+    return 'Missing id';
+  }
+  if (typeof task.name !== 'string' || !task.name.trim()) {
+    return 'Missing name';
+  }
+  if (typeof task.category !== 'string' || !task.category) {
+    return 'Missing category';
+  }
+  if (!isIsoDate(task.start)) {
+    return `Invalid start date "${String(task.start)}"`;
+  }
+  if (!isIsoDate(task.end)) {
+    return `Invalid end date "${String(task.end)}"`;
+  }
+  if (task.start > task.end) {
+    return 'Start date is after end date';
+  }
+  if (
+    task.dependsOn !== undefined &&
+    (!Array.isArray(task.dependsOn) || !task.dependsOn.every(id => typeof id === 'string'))
+  ) {
+    return 'Dependencies must be a list of task ids';
+  }
+  if (task.pinned !== undefined && typeof task.pinned !== 'boolean') {
+    return 'Pinned must be true or false';
+  }
+  if (task.description !== undefined && typeof task.description !== 'string') {
+    return 'Description must be text';
+  }
+  if (task.assignee !== undefined && (typeof task.assignee !== 'string' || !task.assignee)) {
+    return 'Assignee must be a team member id';
+  }
+  if (task.priority !== undefined && !isTaskPriority(task.priority)) {
+    return `Unknown priority "${String(task.priority)}"`;
+  }
+  if (
+    task.tags !== undefined &&
+    (!Array.isArray(task.tags) || !task.tags.every(tag => typeof tag === 'string' && tag))
+  ) {
+    return 'Tags must be a list of names';
+  }
+  if (task.subtasks !== undefined) {
+    const subtaskError = validateSubtasks(task.subtasks);
+    if (subtaskError) return subtaskError;
+  }
+  if (task.recurrence !== undefined) {
+    return validateRecurrence(task.recurrence);
+  }
+
+  return null;
+}
+
+function validateRecurrence(value: unknown): string | null {
+  if (!value || typeof value !== 'object') {
+    return 'Recurrence is not an object';
+  }
+
+  const recurrence = value as Record<string, unknown>;
+
+  if (!RECURRENCE_FREQUENCIES.includes(recurrence.frequency as RecurrenceFrequency)) {
+    return `Unknown recurrence frequency "${String(recurrence.frequency)}"`;
+  }
+  if (typeof recurrence.interval !== 'number' || !Number.isInteger(recurrence.interval) || recurrence.interval < 1) {
+    return 'Recurrence interval must be a positive integer';
+  }
+  if (
+    recurrence.byWeekday !== undefined &&
+    (!Array.isArray(recurrence.byWeekday) ||
+      !recurrence.byWeekday.every(d => Number.isInteger(d) && d >= 0 && d <= 6))
+  ) {
+    return 'Recurrence weekdays must be numbers 0-6';
+  }
+  if (
+    recurrence.count !== undefined &&
+    (typeof recurrence.count !== 'number' || !Number.isInteger(recurrence.count) || recurrence.count < 1)
+  ) {
+    return 'Recurrence count must be a positive integer';
+  }
+  if (recurrence.until !== undefined && !isIsoDate(recurrence.until)) {
+    return `Invalid recurrence end date "${String(recurrence.until)}"`;
+  }
+  if (
+    recurrence.exceptions !== undefined &&
+    (!Array.isArray(recurrence.exceptions) || !recurrence.exceptions.every(isIsoDate))
+  ) {
+    return 'Recurrence exceptions must be ISO dates';
+  }
+
+  return null;
+}
+
+function validateSubtasks(value: unknown): string | null {
+  if (!Array.isArray(value)) {
+    return 'Subtasks must be a list';
+  }
+
+  const seenIds = new Set<string>();
+  for (const item of value) {
+    if (!item || typeof item !== 'object') {
+      return 'Subtask is not an object';
+    }
+    const subtask = item as Record<string, unknown>;
+    if (typeof subtask.id !== 'string' || !subtask.id || seenIds.has(subtask.id)) {
+      return 'Subtask ids must be unique';
+    }
+    if (typeof subtask.name !== 'string' || !subtask.name.trim()) {
+      return 'Subtask is missing a name';
+    }
+    if (typeof subtask.done !== 'boolean') {
+      return 'Subtask done must be true or false';
+    }
+    seenIds.add(subtask.id);
+  }
+
+  return null;
+}
+
+/**
+ * Split migrated records into valid tasks and quarantined records
+ */
+export function partitionRecords(records: unknown[]): LoadResult {
+  const tasks: Task[] = [];
+  const quarantined: QuarantinedRecord[] = [];
+  const seenIds = new Set<string>();
+
+  records.forEach(record => {
+    const reason = validateTask(record);
+    if (reason) {
+      quarantined.push({ record, reason });
+      return;
+    }
+
+    const task = record as Task;
+    if (seenIds.has(task.id)) {
+      quarantined.push({ record, reason: `Duplicate id "${task.id}"` });
+      return;
+    }
+
+    seenIds.add(task.id);
+    tasks.push(task);
+  });
+
+  return { tasks, quarantined };
+}
+
+/**
+ * localStorage-backed TaskStore.
+ * Invalid records are moved to a separate quarantine key instead of being loaded.
+ */
+export function createLocalStorageTaskStore(storage: Storage = window.localStorage): TaskStore {
+  const quarantine = (records: QuarantinedRecord[]) => {
+    if (records.length === 0) return;
+
+    const existing = storage.getItem(QUARANTINE_KEY);
+    let previous: QuarantinedRecord[] = [];
+    if (existing) {
+      try {
+        previous = JSON.parse(existing) as QuarantinedRecord[];
+      } catch {
+        previous = [];
+      }
+    }
+    storage.setItem(QUARANTINE_KEY, JSON.stringify([...previous, ...records]));
+  };
+
+  const readAll = (): LoadResult => {
+    const raw = storage.getItem(STORAGE_KEY);
+    if (!raw) {
+      return { tasks: [], quarantined: [] };
+    }
+
+    let result: LoadResult;
+    try {
+      const envelope = migrateEnvelope(readEnvelope(raw));
+      result = partitionRecords(envelope.tasks);
+    } catch (e) {
+      result = {
+        tasks: [],
+        quarantined: [{ record: raw, reason: e instanceof Error ? e.message : String(e) }]
+      };
+    }
+
+    return result;
+  };
+
+  return {
+    async load() {
+      const result = readAll();
+      quarantine(result.quarantined);
+      return result;
+    },
+
+    async save(tasks: Task[]) {
+      const envelope: StorageEnvelope = {
+        version: CURRENT_SCHEMA_VERSION,
+        tasks
+      };
+      storage.setItem(STORAGE_KEY, JSON.stringify(envelope));
+    },
+
+    async loadRange(range: DateRange) {
+      // Recurring tasks may have occurrences in range even when their first one is earlier
+      return readAll().tasks.filter(task =>
+        task.recurrence ? task.start <= range.end : dateRangesOverlap(task, range)
+      );
+    }
+  };
+}
@@ -0,0 +1,43 @@
+import type { CategoryDefinition, Subtask } from '../types';
+
+export interface ChecklistProgress {
+  done: number;
+  total: number;
+}
+
+export function createSubtask(name: string): Subtask {
+  return { id: `subtask-${Date.now()}-${Math.random()}`, name: name.trim(), done: false };
+}
+
+/**
+ * Checked and total item counts, or null for a task without a checklist
+ */
+export function getChecklistProgress(subtasks: Subtask[] | undefined): ChecklistProgress | null {
+  if (!subtasks || subtasks.length === 0) return null;
+  return { done: subtasks.filter(subtask => subtask.done).length, total: subtasks.length };
+}
+
+export function isChecklistComplete(subtasks: Subtask[] | undefined): boolean {
+  const progress = getChecklistProgress(subtasks);
+  return !!progress && progress.done === progress.total;
+}
+
+/**
+ * Move the item at `index` up (-1) or down (1). Moves past either end leave the list as it is.
+ */
+export function moveSubtask(subtasks: Subtask[], index: number, offset: -1 | 1): Subtask[] {
+  const target = index + offset;
+  if (index < 0 || index >= subtasks.length || target < 0 || target >= subtasks.length) return subtasks;
+
+  const next = [...subtasks];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+}
+
+/**
+ * The category a task moves to once its checklist is complete: the first done
+ * category, or null if none is marked done
+ */
+export function getCompletionCategory(categories: CategoryDefinition[]): CategoryDefinition | null {
+  return categories.find(category => category.isDone) ?? null;
+}
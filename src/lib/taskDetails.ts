@@ -0,0 +1,54 @@
+import type { Task, TaskDetails, TaskPriority } from '../types';
+
+/**
+ * Priorities from most to least urgent
+ */
+export const TASK_PRIORITIES: { value: TaskPriority; name: string }[] = [
+  { value: 'P0', name: 'Critical' },
+  { value: 'P1', name: 'High' },
+  { value: 'P2', name: 'Medium' },
+  { value: 'P3', name: 'Low' }
+];
+
+export function isTaskPriority(value: unknown): value is TaskPriority {
+  return TASK_PRIORITIES.some(priority => priority.value === value);
+}
+
+/**
+ * Normalize a tag as typed: trimmed, lower case, inner spaces as dashes,
+ * and without a leading "#"
+ */
+export function normalizeTag(value: string): string {
+  return value.trim().replace(/^#+/, '').toLowerCase().replace(/\s+/g, '-');
+}
+
+/**
+ * Parse a comma separated tag list into unique normalized tags
+ */
+export function parseTags(text: string): string[] {
+  return [...new Set(text.split(',').map(normalizeTag).filter(Boolean))];
+}
+
+/**
+ * Every tag used by a task, sorted
+ */
+export function collectTags(tasks: Task[]): string[] {
+  const tags = new Set<string>();
+  tasks.forEach(task => task.tags?.forEach(tag => tags.add(tag)));
+  return [...tags].sort();
+}
+
+/**
+ * Set a task's details, leaving out empty ones rather than storing blanks
+ */
+export function applyTaskDetails(task: Task, details: TaskDetails): Task {
+  const { description, assignee, priority, tags, subtasks, ...rest } = task;
+  return {
+    ...rest,
+    ...(details.description?.trim() ? { description: details.description } : {}),
+    ...(details.assignee ? { assignee: details.assignee } : {}),
+    ...(details.priority ? { priority: details.priority } : {}),
+    ...(details.tags && details.tags.length > 0 ? { tags: details.tags } : {}),
+    ...(details.subtasks && details.subtasks.length > 0 ? { subtasks: details.subtasks } : {})
+  };
+}
@@ -1,4 +1,4 @@
-import { parseISO, format, isBefore, isAfter, startOfDay } from 'date-fns';
+import { parseISO, format, isBefore, isAfter, startOfDay, differenceInCalendarDays } from 'date-fns';
 import type { Task } from '../types';
 import type { WeekRow } from './dates';
 
@@ -136,6 +136,69 @@ export function calculateRowIndices(segments: TaskSegment[]): TaskSegment[] {
   return segments;
 }
 
+export interface StableLaneOptions {
+  categoryOrder: string[]; // category ids in display order
+  carriedLanes?: Map<string, number>; // lanes of tasks continuing from the previous week row
+}
+
+/**
+ * Order of segments competing for lanes: left to right, then longer tasks,
+ * then category order, then pinned tasks. The id makes the order total, so
+ * the same tasks always get the same lanes.
+ */
+function compareForStableLanes(a: TaskSegment, b: TaskSegment, categoryOrder: string[]): number {
+  const categoryIndex = (segment: TaskSegment) => {
+    const index = categoryOrder.indexOf(segment.task.category);
+    return index === -1 ? categoryOrder.length : index;
+  };
+
+  return a.startColumn - b.startColumn
+    || taskLength(b.task) - taskLength(a.task)
+    || categoryIndex(a) - categoryIndex(b)
+    || Number(!!b.task.pinned) - Number(!!a.task.pinned)
+    || a.task.id.localeCompare(b.task.id);
+}
+
+function taskLength(task: Task): number {
+  return differenceInCalendarDays(parseISO(task.end), parseISO(task.start));
+}
+
+/**
+ * Calculate row indices so a task continuing from the previous week row keeps
+ * the lane it had there. Continuing tasks all cover the previous week's last
+ * day, so their lanes never collide; the remaining segments take the first
+ * free lane in compareForStableLanes order.
+ */
+export function calculateStableRowIndices(segments: TaskSegment[], options: StableLaneOptions): TaskSegment[] {
+  const lanes: TaskSegment[][] = [];
+  const fits = (segment: TaskSegment, lane: number) =>
+    !(lanes[lane] ?? []).some(existing => segmentsOverlap(segment, existing));
+  const place = (segment: TaskSegment, lane: number) => {
+    lanes[lane] = [...(lanes[lane] ?? []), segment];
+    segment.rowIndex = lane;
+  };
+
+  const unplaced: TaskSegment[] = [];
+  segments.forEach(segment => {
+    const carriedLane = segment.startColumn === 0 ? options.carriedLanes?.get(segment.task.id) : undefined;
+    if (carriedLane !== undefined && fits(segment, carriedLane)) {
+      place(segment, carriedLane);
+    } else {
+      unplaced.push(segment);
+    }
+  });
+
+  unplaced
+    .sort((a, b) => compareForStableLanes(a, b, options.categoryOrder))
+    .forEach(segment => {
+      let lane = 0;
+      while (!fits(segment, lane)) lane++;
+      place(segment, lane);
+    });
+
+  return segments;
+}
+
 /**
  * Group segments by week row for efficient rendering
  */
@@ -163,3 +226,58 @@ export function groupSegmentsByWeek(
   return grouped;
 }
 
+
+export interface WeekRowLayout {
+  visible: TaskSegment[];
+  hiddenByColumn: TaskSegment[][]; // hidden segments covering each column, top lane first
+}
+
+function segmentColumns(segment: TaskSegment): number[] {
+  return Array.from({ length: segment.widthInColumns }, (_, i) => segment.startColumn + i);
+}
+
+/**
+ * Limit a week row's stacked segments to a number of lanes. When a day has
+ * more tasks than fit, its last lane shows a "+N more" control instead, so a
+ * segment in that lane is hidden if any day it covers overflows. Hiding it
+ * can make more days overflow, so this repeats until nothing changes.
+ * Expects segments with row indices from calculateRowIndices.
+ */
+export function limitVisibleLanes(
+  segments: TaskSegment[],
+  maxLanes: number,
+  columnCount = 7
+): WeekRowLayout {
+  const lanes = Math.max(1, maxLanes);
+  const hidden = new Set<TaskSegment>();
+  const overflowingColumns = new Set<number>();
+
+  let changed = true;
+  while (changed) {
+    changed = false;
+    segments.forEach(segment => {
+      if (hidden.has(segment)) return;
+
+      const columns = segmentColumns(segment);
+      const isHidden = segment.rowIndex >= lanes
+        || (segment.rowIndex === lanes - 1 && columns.some(column => overflowingColumns.has(column)));
+      if (isHidden) {
+        hidden.add(segment);
+        columns.forEach(column => overflowingColumns.add(column));
+        changed = true;
+      }
+    });
+  }
+
+  const hiddenByColumn: TaskSegment[][] = Array.from({ length: columnCount }, () => []);
+  [...hidden]
+    .sort((a, b) => a.rowIndex - b.rowIndex)
+    .forEach(segment => {
+      segmentColumns(segment).forEach(column => hiddenByColumn[column]?.push(segment));
+    });
+
+  return {
+    visible: segments.filter(segment => !hidden.has(segment)),
+    hiddenByColumn
+  };
+}
@@ -0,0 +1,112 @@
+import type { CSSProperties } from 'react';
+import type { Task, TeamMember } from '../types';
+import { isValidWeekend } from './workingDays';
+
+export const TEAM_STORAGE_KEY = 'team';
+
+const FALLBACK_COLOR = '#757575';
+const HEX_COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+/**
+ * Avatar colors handed out to new members in turn
+ */
+export const MEMBER_COLORS = ['#1e88e5', '#43a047', '#e53935', '#8e24aa', '#fb8c00', '#00897b', '#6d4c41', '#3949ab'];
+
+/**
+ * Validate a stored roster. Returns null if anything is malformed.
+ */
+export function validateTeam(value: unknown): TeamMember[] | null {
+  if (!Array.isArray(value)) return null;
+
+  const seenIds = new Set<string>();
+  for (const item of value) {
+    if (!item || typeof item !== 'object') return null;
+    const member = item as Record<string, unknown>;
+    if (typeof member.id !== 'string' || !member.id || seenIds.has(member.id)) return null;
+    if (typeof member.name !== 'string' || !member.name.trim()) return null;
+    if (typeof member.color !== 'string' || !HEX_COLOR_PATTERN.test(member.color)) return null;
+    if (member.weekendDays !== undefined && !isValidWeekend(member.weekendDays)) return null;
+    seenIds.add(member.id);
+  }
+
+  return value as TeamMember[];
+}
+
+/**
+ * Load the team roster, which starts out empty
+ */
+export function loadTeam(storage: Storage = window.localStorage): TeamMember[] {
+  try {
+    const raw = storage.getItem(TEAM_STORAGE_KEY);
+    if (!raw) return [];
+    return validateTeam(JSON.parse(raw)) ?? [];
+  } catch (error) {
+    console.error('Failed to load team from storage:', error);
+    return [];
+  }
+}
+
+export function saveTeam(team: TeamMember[], storage: Storage = window.localStorage): void {
+  try {
+    storage.setItem(TEAM_STORAGE_KEY, JSON.stringify(team));
+  } catch (error) {
+    console.error('Failed to save team to storage:', error);
+  }
+}
+
+/**
+ * Look up a member by id. Ids no longer on the roster get a neutral
+ * placeholder, so an assigned task always shows an avatar.
+ */
+export function getTeamMember(team: TeamMember[], id: string): TeamMember {
+  return team.find(member => member.id === id) ?? { id, name: id, color: FALLBACK_COLOR };
+}
+
+/**
+ * Find a member by name or id, ignoring case. Used by search and URLs.
+ */
+export function findTeamMemberByName(team: TeamMember[], value: string): TeamMember | undefined {
+  const lower = value.trim().toLowerCase();
+  return team.find(member => member.name.toLowerCase() === lower || member.id.toLowerCase() === lower);
+}
+
+/**
+ * Up to two initials for an avatar, e.g. "Ada Lovelace" → "AL"
+ */
+export function getInitials(name: string): string {
+  const words = name.trim().split(/\s+/).filter(Boolean);
+  const initials = words.length > 1 ? words[0][0] + words[words.length - 1][0] : (words[0] ?? '?').slice(0, 2);
+  return initials.toUpperCase();
+}
+
+/**
+ * Count how many tasks are assigned to each member id
+ */
+export function countTasksByAssignee(tasks: Task[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  tasks.forEach(task => {
+    if (task.assignee) counts.set(task.assignee, (counts.get(task.assignee) ?? 0) + 1);
+  });
+  return counts;
+}
+
+/**
+ * Derive a unique, readable id for a new member from their name
+ */
+export function createMemberId(name: string, team: TeamMember[]): string {
+  const base = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'member';
+  const taken = new Set(team.map(member => member.id));
+
+  let id = base;
+  for (let suffix = 2; taken.has(id); suffix++) {
+    id = `${base}-${suffix}`;
+  }
+  return id;
+}
+
+/**
+ * Inline style exposing a member's color to CSS as `--member-color`
+ */
+export function memberColorStyle(member: TeamMember): CSSProperties {
+  return { '--member-color': member.color } as CSSProperties;
+}
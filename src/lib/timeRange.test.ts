@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest';
+import type { DateRange, RelativeRangePreset, Task } from '../types';
+import { DEFAULT_CATEGORIES } from './categories';
+import {
+  ALL_TIME,
+  RELATIVE_RANGE_PRESETS,
+  createTimeRangePredicate,
+  resolveCustomRange,
+  resolveRelativeRange
+} from './timeRange';
+
+// Wednesday, February 14, 2024 (a leap year)
+const TODAY = new Date(2024, 1, 14);
+
+function task(start: string, end: string, category = 'todo'): Task {
+  return { id: `${start}-${end}`, name: 'Task', category, start, end };
+}
+
+describe('resolveRelativeRange', () => {
+  const expected: Record<RelativeRangePreset, DateRange> = {
+    'next-1-week': { start: '2024-02-14', end: '2024-02-21' },
+    'next-2-weeks': { start: '2024-02-14', end: '2024-02-28' },
+    'next-3-weeks': { start: '2024-02-14', end: '2024-03-06' },
+    'last-1-week': { start: '2024-02-07', end: '2024-02-14' },
+    'last-2-weeks': { start: '2024-01-31', end: '2024-02-14' },
+    'this-week': { start: '2024-02-11', end: '2024-02-17' },
+    'this-month': { start: '2024-02-01', end: '2024-02-29' },
+    'this-quarter': { start: '2024-01-01', end: '2024-03-31' }
+  };
+
+  it.each(RELATIVE_RANGE_PRESETS.map(({ preset }) => preset))('resolves %s', preset => {
+    expect(resolveRelativeRange(preset, TODAY, 0)).toEqual(expected[preset]);
+  });
+
+  it('covers every preset', () => {
+    expect(RELATIVE_RANGE_PRESETS.map(({ preset }) => preset).sort()).toEqual(Object.keys(expected).sort());
+  });
+
+  it('starts this week on the configured weekday', () => {
+    expect(resolveRelativeRange('this-week', TODAY, 1)).toEqual({ start: '2024-02-12', end: '2024-02-18' });
+    expect(resolveRelativeRange('this-week', TODAY, 6)).toEqual({ start: '2024-02-10', end: '2024-02-16' });
+  });
+
+  it('keeps the last day of the week in the same week', () => {
+    const sunday = new Date(2024, 1, 11);
+    expect(resolveRelativeRange('this-week', sunday, 1)).toEqual({ start: '2024-02-05', end: '2024-02-11' });
+    expect(resolveRelativeRange('this-week', sunday, 0)).toEqual({ start: '2024-02-11', end: '2024-02-17' });
+  });
+
+  it('resolves quarters at their boundaries', () => {
+    expect(resolveRelativeRange('this-quarter', new Date(2024, 2, 31), 0))
+      .toEqual({ start: '2024-01-01', end: '2024-03-31' });
+    expect(resolveRelativeRange('this-quarter', new Date(2024, 3, 1), 0))
+      .toEqual({ start: '2024-04-01', end: '2024-06-30' });
+    expect(resolveRelativeRange('this-quarter', new Date(2024, 8, 30), 0))
+      .toEqual({ start: '2024-07-01', end: '2024-09-30' });
+    expect(resolveRelativeRange('this-quarter', new Date(2024, 11, 31), 0))
+      .toEqual({ start: '2024-10-01', end: '2024-12-31' });
+  });
+
+  it('counts weeks across month and year ends', () => {
+    expect(resolveRelativeRange('next-1-week', new Date(2024, 11, 28), 0))
+      .toEqual({ start: '2024-12-28', end: '2025-01-04' });
+    expect(resolveRelativeRange('last-1-week', new Date(2024, 2, 3), 0))
+      .toEqual({ start: '2024-02-25', end: '2024-03-03' });
+  });
+});
+
+describe('resolveCustomRange', () => {
+  it('returns the range as entered', () => {
+    expect(resolveCustomRange('2024-03-01', '2024-03-10')).toEqual({ start: '2024-03-01', end: '2024-03-10' });
+  });
+
+  it('swaps reversed dates', () => {
+    expect(resolveCustomRange('2024-03-10', '2024-03-01')).toEqual({ start: '2024-03-01', end: '2024-03-10' });
+  });
+
+  it('allows a single day', () => {
+    expect(resolveCustomRange('2024-03-01', '2024-03-01')).toEqual({ start: '2024-03-01', end: '2024-03-01' });
+  });
+
+  it('returns null until both dates are set and valid', () => {
+    expect(resolveCustomRange('', '')).toBeNull();
+    expect(resolveCustomRange('2024-03-01', '')).toBeNull();
+    expect(resolveCustomRange('', '2024-03-10')).toBeNull();
+    expect(resolveCustomRange('2024-3-1', '2024-03-10')).toBeNull();
+    expect(resolveCustomRange('2024-03-01', '2024-13-01')).toBeNull();
+  });
+});
+
+describe('createTimeRangePredicate', () => {
+  const context = { today: TODAY, weekStartsOn: 1 as const, categories: DEFAULT_CATEGORIES };
+
+  it('filters nothing for all time or an incomplete custom range', () => {
+    expect(createTimeRangePredicate(ALL_TIME, context)).toBeNull();
+    expect(createTimeRangePredicate({ mode: 'custom', start: '2024-02-01', end: '' }, context)).toBeNull();
+  });
+
+  describe('overdue', () => {
+    const isOverdue = createTimeRangePredicate({ mode: 'overdue' }, context)!;
+
+    it('keeps open tasks that ended before today', () => {
+      expect(isOverdue(task('2024-02-01', '2024-02-13'))).toBe(true);
+      expect(isOverdue(task('2023-12-01', '2023-12-05', 'review'))).toBe(true);
+    });
+
+    it('skips tasks ending today or later', () => {
+      expect(isOverdue(task('2024-02-01', '2024-02-14'))).toBe(false);
+      expect(isOverdue(task('2024-02-20', '2024-02-21'))).toBe(false);
+    });
+
+    it('skips tasks in a done category', () => {
+      expect(isOverdue(task('2024-02-01', '2024-02-13', 'completed'))).toBe(false);
+    });
+  });
+
+  describe('windowed ranges', () => {
+    // Monday, February 12 to Sunday, February 18
+    const inThisWeek = createTimeRangePredicate({ mode: 'relative', preset: 'this-week' }, context)!;
+
+    it('keeps tasks inside the window', () => {
+      expect(inThisWeek(task('2024-02-13', '2024-02-15'))).toBe(true);
+    });
+
+    it('keeps tasks overlapping either edge', () => {
+      expect(inThisWeek(task('2024-02-01', '2024-02-12'))).toBe(true);
+      expect(inThisWeek(task('2024-02-18', '2024-02-25'))).toBe(true);
+      expect(inThisWeek(task('2024-02-01', '2024-03-01'))).toBe(true);
+    });
+
+    it('skips tasks outside the window', () => {
+      expect(inThisWeek(task('2024-02-01', '2024-02-11'))).toBe(false);
+      expect(inThisWeek(task('2024-02-19', '2024-02-20'))).toBe(false);
+    });
+
+    it('keeps done tasks in the window', () => {
+      expect(inThisWeek(task('2024-02-13', '2024-02-13', 'completed'))).toBe(true);
+    });
+
+    it('uses the resolved custom range', () => {
+      const inCustom = createTimeRangePredicate({ mode: 'custom', start: '2024-03-10', end: '2024-03-01' }, context)!;
+      expect(inCustom(task('2024-03-10', '2024-03-12'))).toBe(true);
+      expect(inCustom(task('2024-02-20', '2024-02-29'))).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import {
+  endOfMonth,
+  endOfQuarter,
+  endOfWeek,
+  format,
+  isValid,
+  parseISO,
+  startOfMonth,
+  startOfQuarter,
+  startOfWeek,
+  subDays
+} from 'date-fns';
+import type { CategoryDefinition, DateRange, RelativeRangePreset, TimeRange, WeekStartDay } from '../types';
+import { isDoneCategory } from './categories';
+import { dateRangesOverlap, getTimeRangeFilter, normalizeDateRange } from './dates';
+import type { TaskPredicate } from './query';
+
+export const ALL_TIME: TimeRange = { mode: 'all' };
+
+export const RELATIVE_RANGE_PRESETS: { preset: RelativeRangePreset; label: string }[] = [
+  { preset: 'next-1-week', label: 'Within 1 week' },
+  { preset: 'next-2-weeks', label: 'Within 2 weeks' },
+  { preset: 'next-3-weeks', label: 'Within 3 weeks' },
+  { preset: 'last-1-week', label: 'Last week' },
+  { preset: 'last-2-weeks', label: 'Last 2 weeks' },
+  { preset: 'this-week', label: 'This week' },
+  { preset: 'this-month', label: 'This month' },
+  { preset: 'this-quarter', label: 'This quarter' }
+];
+
+export interface TimeRangeContext {
+  today: Date;
+  weekStartsOn: WeekStartDay;
+  categories: CategoryDefinition[];
+}
+
+function toIso(date: Date): string {
+  return format(date, 'yyyy-MM-dd');
+}
+
+export function isRelativeRangePreset(value: string): value is RelativeRangePreset {
+  return RELATIVE_RANGE_PRESETS.some(({ preset }) => preset === value);
+}
+
+export function isIsoDate(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && isValid(parseISO(value));
+}
+
+/**
+ * Resolve a relative preset to dates. "Within" counts forward from today,
+ * "last" counts back to today, "this" is the calendar week, month or quarter.
+ */
+export function resolveRelativeRange(preset: RelativeRangePreset, today: Date, weekStartsOn: WeekStartDay): DateRange {
+  switch (preset) {
+    case 'next-1-week':
+      return getTimeRangeFilter(today, 1);
+    case 'next-2-weeks':
+      return getTimeRangeFilter(today, 2);
+    case 'next-3-weeks':
+      return getTimeRangeFilter(today, 3);
+    case 'last-1-week':
+      return { start: toIso(subDays(today, 7)), end: toIso(today) };
+    case 'last-2-weeks':
+      return { start: toIso(subDays(today, 14)), end: toIso(today) };
+    case 'this-week':
+      return {
+        start: toIso(startOfWeek(today, { weekStartsOn })),
+        end: toIso(endOfWeek(today, { weekStartsOn }))
+      };
+    case 'this-month':
+      return { start: toIso(startOfMonth(today)), end: toIso(endOfMonth(today)) };
+    case 'this-quarter':
+      return { start: toIso(startOfQuarter(today)), end: toIso(endOfQuarter(today)) };
+  }
+}
+
+/**
+ * Resolve a custom range, swapping reversed dates. Returns null until both
+ * dates are set and valid.
+ */
+export function resolveCustomRange(start: string, end: string): DateRange | null {
+  if (!isIsoDate(start) || !isIsoDate(end)) return null;
+  return normalizeDateRange(start, end);
+}
+
+/**
+ * The dates a time range covers, or null if it doesn't restrict tasks to
+ * a window (all time, overdue, or an incomplete custom range)
+ */
+export function resolveTimeRange(range: TimeRange, today: Date, weekStartsOn: WeekStartDay): DateRange | null {
+  switch (range.mode) {
+    case 'relative':
+      return resolveRelativeRange(range.preset, today, weekStartsOn);
+    case 'custom':
+      return resolveCustomRange(range.start, range.end);
+    case 'all':
+    case 'overdue':
+      return null;
+  }
+}
+
+/**
+ * Build a predicate for tasks inside the time range. Windowed ranges keep
+ * tasks overlapping the window; overdue keeps tasks that ended before today
+ * and aren't in a done category. Returns null when nothing is filtered.
+ */
+export function createTimeRangePredicate(range: TimeRange, context: TimeRangeContext): TaskPredicate | null {
+  if (range.mode === 'overdue') {
+    const today = toIso(context.today);
+    return task => task.end < today && !isDoneCategory(context.categories, task.category);
+  }
+
+  const covered = resolveTimeRange(range, context.today, context.weekStartsOn);
+  if (!covered) return null;
+  return task => dateRangesOverlap({ start: task.start, end: task.end }, covered);
+}
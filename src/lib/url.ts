@@ -0,0 +1,152 @@
+import { format } from 'date-fns';
+import type { CalendarView, CategoryDefinition, FilterState, TeamMember, TimeRange } from '../types';
+import { findCategoryByName, getCategory } from './categories';
+import { findTeamMemberByName, getTeamMember } from './team';
+import { isTaskPriority, normalizeTag } from './taskDetails';
+import { ALL_TIME, isIsoDate, isRelativeRangePreset } from './timeRange';
+
+/**
+ * The part of the app state that lives in the URL, so it survives a refresh
+ * and can be shared:
+ *
+ *   /2026/11?cat=Review&q=release     month view, filtered
+ *   /2026/11?range=custom&from=2026-11-02&to=2026-11-20
+ *   /2026/11?who=Ada&priority=P0&tag=backend
+ *   /week/2026/11/16                  week and day views include the day
+ *   /timeline/2026/11, /board
+ *   /task/:id                         task modal open for editing
+ *
+ * The path holds navigation (view, period, open task) and gets its own history
+ * entry; the query string holds filters, which are replaced in place.
+ */
+export interface UrlState {
+  view: CalendarView;
+  currentDate: Date;
+  filters: FilterState;
+  taskId?: string;
+}
+
+const DAY_VIEWS: CalendarView[] = ['week', 'day'];
+const PREFIXED_VIEWS: CalendarView[] = ['week', 'day', 'timeline', 'board'];
+
+/**
+ * Build the date for a year/month/day path, or null if any part is malformed
+ */
+function parseDateSegments(year: string, month: string, day = '1'): Date | null {
+  if (!/^\d{4}$/.test(year) || !/^\d{1,2}$/.test(month) || !/^\d{1,2}$/.test(day)) return null;
+
+  const date = new Date(Number(year), Number(month) - 1, Number(day));
+  // Date rolls invalid days over into the next month, e.g. Feb 31 → Mar 3
+  if (date.getMonth() !== Number(month) - 1 || date.getDate() !== Number(day)) return null;
+  return date;
+}
+
+function parseFilters(params: URLSearchParams, categories: CategoryDefinition[], team: TeamMember[]): FilterState {
+  const categoryIds = params.getAll('cat')
+    .map(value => findCategoryByName(categories, value)?.id)
+    .filter((id): id is string => !!id);
+  const memberIds = params.getAll('who')
+    .map(value => findTeamMemberByName(team, value)?.id)
+    .filter((id): id is string => !!id);
+
+  return {
+    search: params.get('q') ?? '',
+    categories: [...new Set(categoryIds)],
+    assignees: [...new Set(memberIds)],
+    priorities: [...new Set(params.getAll('priority').map(value => value.toUpperCase()).filter(isTaskPriority))],
+    tags: [...new Set(params.getAll('tag').map(normalizeTag).filter(Boolean))],
+    timeRange: parseTimeRange(params)
+  };
+}
+
+function parseTimeRange(params: URLSearchParams): TimeRange {
+  const range = params.get('range') ?? '';
+  if (range === 'overdue') return { mode: 'overdue' };
+  if (isRelativeRangePreset(range)) return { mode: 'relative', preset: range };
+  if (range === 'custom') {
+    const date = (value: string | null) => value && isIsoDate(value) ? value : '';
+    return { mode: 'custom', start: date(params.get('from')), end: date(params.get('to')) };
+  }
+  return ALL_TIME;
+}
+
+function appendTimeRange(params: URLSearchParams, timeRange: TimeRange): void {
+  switch (timeRange.mode) {
+    case 'relative':
+      params.set('range', timeRange.preset);
+      break;
+    case 'overdue':
+      params.set('range', 'overdue');
+      break;
+    case 'custom':
+      params.set('range', 'custom');
+      if (timeRange.start) params.set('from', timeRange.start);
+      if (timeRange.end) params.set('to', timeRange.end);
+      break;
+  }
+}
+
+/**
+ * Read the URL state from a location. Anything malformed falls back to
+ * `fallback`, so a bad link still opens the app.
+ */
+export function parseUrl(
+  location: { pathname: string; search: string },
+  categories: CategoryDefinition[],
+  team: TeamMember[],
+  fallback: Omit<UrlState, 'filters'>
+): UrlState {
+  const filters = parseFilters(new URLSearchParams(location.search), categories, team);
+  const segments = location.pathname.split('/').filter(Boolean).map(segment => {
+    try {
+      return decodeURIComponent(segment);
+    } catch {
+      return segment;
+    }
+  });
+
+  if (segments[0] === 'task' && segments.length === 2) {
+    return { view: fallback.view, currentDate: fallback.currentDate, filters, taskId: segments[1] };
+  }
+
+  let view: CalendarView = 'month';
+  if (PREFIXED_VIEWS.includes(segments[0] as CalendarView)) {
+    view = segments.shift() as CalendarView;
+  }
+
+  if (view === 'board') {
+    return { view, currentDate: fallback.currentDate, filters };
+  }
+
+  const [year, month, day] = segments;
+  const date = year && month && segments.length <= 3 ? parseDateSegments(year, month, day) : null;
+  if (!date) {
+    return { view: segments.length === 0 ? view : fallback.view, currentDate: fallback.currentDate, filters };
+  }
+  return { view, currentDate: date, filters };
+}
+
+/**
+ * Format the URL state as a path and query string
+ */
+export function formatUrl(state: UrlState, categories: CategoryDefinition[], team: TeamMember[]): string {
+  const params = new URLSearchParams();
+  state.filters.categories.forEach(id => params.append('cat', getCategory(categories, id).name));
+  state.filters.assignees.forEach(id => params.append('who', getTeamMember(team, id).name));
+  state.filters.priorities.forEach(priority => params.append('priority', priority));
+  state.filters.tags.forEach(tag => params.append('tag', tag));
+  if (state.filters.search) params.set('q', state.filters.search);
+  appendTimeRange(params, state.filters.timeRange);
+
+  const query = params.toString();
+  return formatPath(state) + (query ? `?${query}` : '');
+}
+
+function formatPath({ view, currentDate, taskId }: UrlState): string {
+  if (taskId) return `/task/${encodeURIComponent(taskId)}`;
+  if (view === 'board') return '/board';
+
+  const prefix = PREFIXED_VIEWS.includes(view) ? `/${view}` : '';
+  const datePath = format(currentDate, DAY_VIEWS.includes(view) ? 'yyyy/MM/dd' : 'yyyy/MM');
+  return `${prefix}/${datePath}`;
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import type { WorkingCalendar } from '../types';
+import { addWorkingDays, moveTaskRange, snapToWorkingDay } from './workingDays';
+
+// Monday to Friday, with Monday, February 12, 2024 off
+const WEEKDAYS: WorkingCalendar = {
+  weekendDays: [0, 6],
+  holidays: [{ date: '2024-02-12', name: 'Holiday' }]
+};
+
+// Only Wednesdays are working days, and two of them are holidays
+const WEDNESDAYS: WorkingCalendar = {
+  weekendDays: [0, 1, 2, 4, 5, 6],
+  holidays: [
+    { date: '2024-02-14', name: 'First' },
+    { date: '2024-02-21', name: 'Second' }
+  ]
+};
+
+describe('snapToWorkingDay', () => {
+  it('keeps a working day', () => {
+    expect(snapToWorkingDay(WEEKDAYS, '2024-02-13', 1)).toBe('2024-02-13');
+  });
+
+  it('skips weekends and holidays in the given direction', () => {
+    expect(snapToWorkingDay(WEEKDAYS, '2024-02-10', 1)).toBe('2024-02-13');
+    expect(snapToWorkingDay(WEEKDAYS, '2024-02-12', -1)).toBe('2024-02-09');
+  });
+
+  it('reaches the next working day when holidays take the only working day of several weeks', () => {
+    expect(snapToWorkingDay(WEDNESDAYS, '2024-02-12', 1)).toBe('2024-02-28');
+    expect(snapToWorkingDay(WEDNESDAYS, '2024-03-02', -1)).toBe('2024-02-28');
+    expect(snapToWorkingDay(WEDNESDAYS, '2024-02-27', -1)).toBe('2024-02-07');
+  });
+});
+
+describe('moveTaskRange', () => {
+  it('keeps calendar days without a calendar', () => {
+    expect(moveTaskRange({ start: '2024-02-08', end: '2024-02-09' }, '2024-02-10'))
+      .toEqual({ start: '2024-02-10', end: '2024-02-11' });
+  });
+
+  it('keeps working days with a calendar', () => {
+    expect(moveTaskRange({ start: '2024-02-08', end: '2024-02-09' }, '2024-02-10', WEEKDAYS))
+      .toEqual({ start: '2024-02-13', end: '2024-02-14' });
+    expect(addWorkingDays(WEDNESDAYS, '2024-02-07', 1)).toBe('2024-02-28');
+  });
+});
@@ -0,0 +1,128 @@
+import { getDay, parseISO } from 'date-fns';
+import type { CalendarSettings, DateRange, Holiday, Task, TeamMember, WorkingCalendar } from '../types';
+import { dayCountInclusive, shiftIsoDate } from './dates';
+
+export const DEFAULT_WORKING_CALENDAR: WorkingCalendar = {
+  weekendDays: [0, 6],
+  holidays: []
+};
+
+/**
+ * Look up the working calendar that applies to a task. Only set in working-day mode.
+ */
+export type WorkingCalendarResolver = (task: Task) => WorkingCalendar;
+
+/**
+ * A weekend is valid if it is a set of weekdays that leaves at least one working day
+ */
+export function isValidWeekend(value: unknown): value is number[] {
+  return Array.isArray(value)
+    && value.every(day => Number.isInteger(day) && day >= 0 && day <= 6)
+    && new Set(value).size === value.length
+    && value.length < 7;
+}
+
+export function isWorkingDay(calendar: WorkingCalendar, isoDate: string): boolean {
+  return !calendar.weekendDays.includes(getDay(parseISO(isoDate)))
+    && !calendar.holidays.some(holiday => holiday.date === isoDate);
+}
+
+/**
+ * Number of working days from start to end, both inclusive
+ */
+export function countWorkingDays(calendar: WorkingCalendar, start: string, end: string): number {
+  let count = 0;
+  for (let date = start; date <= end; date = shiftIsoDate(date, 1)) {
+    if (isWorkingDay(calendar, date)) count++;
+  }
+  return count;
+}
+
+/**
+ * The date itself if it is a working day, otherwise the nearest working day
+ * after it (direction 1) or before it (direction -1)
+ */
+export function snapToWorkingDay(calendar: WorkingCalendar, isoDate: string, direction: -1 | 1): string {
+  let date = isoDate;
+  // A valid weekend leaves a working day every week and each holiday can take
+  // away at most one, so one week more than there are holidays always has one
+  const limit = 7 * (calendar.holidays.length + 1);
+  for (let i = 0; i < limit && !isWorkingDay(calendar, date); i++) {
+    date = shiftIsoDate(date, direction);
+  }
+  return date;
+}
+
+/**
+ * The working day `days` working days after a working day
+ */
+export function addWorkingDays(calendar: WorkingCalendar, isoDate: string, days: number): string {
+  let date = isoDate;
+  for (let remaining = days; remaining > 0; remaining--) {
+    date = snapToWorkingDay(calendar, shiftIsoDate(date, 1), 1);
+  }
+  return date;
+}
+
+/**
+ * A task's length: working days with a calendar, calendar days without one
+ */
+export function getTaskDuration(task: DateRange, calendar?: WorkingCalendar): number {
+  return calendar ? countWorkingDays(calendar, task.start, task.end) : dayCountInclusive(task.start, task.end);
+}
+
+/**
+ * Dates of a task moved to start at newStart. Without a calendar the number of
+ * calendar days is kept. With one, the start lands on a working day (the next
+ * one in the direction of the move) and the task keeps its working days, so
+ * moving it across a weekend or holiday stretches it rather than shortening it.
+ */
+export function moveTaskRange(task: DateRange, newStart: string, calendar?: WorkingCalendar): DateRange {
+  const workingDays = calendar ? countWorkingDays(calendar, task.start, task.end) : 0;
+  if (!calendar || workingDays === 0) {
+    return { start: newStart, end: shiftIsoDate(newStart, dayCountInclusive(task.start, task.end) - 1) };
+  }
+
+  const start = snapToWorkingDay(calendar, newStart, newStart < task.start ? -1 : 1);
+  return { start, end: addWorkingDays(calendar, start, workingDays - 1) };
+}
+
+/**
+ * Snap the edges of a resized range onto working days, keeping at least one day
+ */
+export function snapRangeToWorkingDays(range: DateRange, calendar: WorkingCalendar): DateRange {
+  const start = snapToWorkingDay(calendar, range.start, 1);
+  const end = snapToWorkingDay(calendar, range.end, -1);
+  return start <= end ? { start, end } : range;
+}
+
+/**
+ * The shared calendar, with the member's own weekend if they have one
+ */
+export function getMemberCalendar(calendar: WorkingCalendar, member?: TeamMember): WorkingCalendar {
+  return member?.weekendDays ? { ...calendar, weekendDays: member.weekendDays } : calendar;
+}
+
+/**
+ * Resolve each task's calendar from its assignee, or undefined in calendar-day mode
+ */
+export function createWorkingCalendarResolver(
+  settings: CalendarSettings,
+  team: TeamMember[]
+): WorkingCalendarResolver | undefined {
+  if (settings.durationMode !== 'working') return undefined;
+
+  return task => getMemberCalendar(
+    settings.workingCalendar,
+    task.assignee ? team.find(member => member.id === task.assignee) : undefined
+  );
+}
+
+/**
+ * Add holidays to a list, one per date (added names win), sorted by date
+ */
+export function mergeHolidays(holidays: Holiday[], added: Holiday[]): Holiday[] {
+  const byDate = new Map(holidays.map(holiday => [holiday.date, holiday]));
+  added.forEach(holiday => byDate.set(holiday.date, holiday));
+  return [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date));
+}
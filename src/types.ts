@@ -1,13 +1,57 @@
-export type Category = "To Do" | "In Progress" | "Review" | "Completed";
+export interface CategoryDefinition {
+  id: string;
+  name: string;
+  color: string;   // hex color "#rrggbb"
+  isDone: boolean; // tasks in this category count as finished
+}
+
+export type RecurrenceFrequency = "daily" | "weekly" | "monthly" | "yearly";
+
+export interface Recurrence {
+  frequency: RecurrenceFrequency;
+  interval: number;       // every N days/weeks/months/years
+  byWeekday?: number[];   // weekly only, 0 = Sunday ... 6 = Saturday
+  count?: number;         // total occurrences (exceptions included)
+  until?: string;         // ISO date inclusive, last possible occurrence start
+  exceptions?: string[];  // ISO start dates of skipped occurrences
+}
+
+export type TaskPriority = "P0" | "P1" | "P2" | "P3"; // P0 is the most urgent
+
+export interface TeamMember {
+  id: string;
+  name: string;
+  color: string; // hex color "#rrggbb" of the avatar
+  weekendDays?: number[]; // replaces the calendar's weekend for tasks assigned to this member
+}
+
+export interface Subtask {
+  id: string;
+  name: string;
+  done: boolean;
+}
 
 export interface Task {
   id: string;
   name: string;
-  category: Category;
+  category: string; // id of a CategoryDefinition
   start: string; // ISO date "YYYY-MM-DD"
   end: string;   // ISO date inclusive "YYYY-MM-DD"
+  recurrence?: Recurrence; // start/end describe the first occurrence
+  dependsOn?: string[];    // ids of finish-to-start predecessors
+  pinned?: boolean;        // placed first among equally long tasks of the same category
+  description?: string;    // markdown
+  assignee?: string;       // id of a TeamMember
+  priority?: TaskPriority;
+  tags?: string[];
+  subtasks?: Subtask[];    // ordered checklist
 }
 
+// The optional descriptive fields of a task, edited together in the task modal
+export type TaskDetails = Pick<Task, "description" | "assignee" | "priority" | "tags" | "subtasks">;
+
+export type RecurrenceScope = "this" | "following" | "all";
+
 export interface DateRange {
   start: string;
   end: string;
@@ -25,17 +69,92 @@ export interface ModalState {
   editingTaskId?: string;
 }
 
+export type RelativeRangePreset =
+  | "next-1-week"
+  | "next-2-weeks"
+  | "next-3-weeks"
+  | "last-1-week"
+  | "last-2-weeks"
+  | "this-week"
+  | "this-month"
+  | "this-quarter";
+
+export type TimeRange =
+  | { mode: "all" }
+  | { mode: "relative"; preset: RelativeRangePreset } // resolved against today
+  | { mode: "custom"; start: string; end: string } // inclusive ISO dates, empty while unset
+  | { mode: "overdue" }; // ended before today and not in a done category
+
 export interface FilterState {
   search: string;
-  categories: Category[];
-  timeRangeWeeks: 0 | 1 | 2 | 3; // 0 = All
+  categories: string[]; // category ids
+  assignees: string[];  // team member ids
+  priorities: TaskPriority[];
+  tags: string[];
+  timeRange: TimeRange;
+}
+
+export interface HistoryState {
+  past: Task[][];
+  future: Task[][];
+  isGestureActive: boolean; // true while a drag/resize gesture is in progress
+}
+
+export type CalendarView = "month" | "week" | "day" | "timeline" | "board";
+
+export type WeekStartDay = 0 | 1 | 2 | 3 | 4 | 5 | 6; // 0 = Sunday
+
+export type WeekNumbering = "none" | "iso" | "fiscal-445";
+
+// A date range in which tasks can't be moved or resized by dragging
+export interface LockedPeriod {
+  id: string;
+  name: string;
+  start: string; // ISO date
+  end: string;   // ISO date inclusive
+}
+
+export interface Holiday {
+  date: string; // ISO date
+  name: string;
+}
+
+// Which days count towards working-day durations
+export interface WorkingCalendar {
+  weekendDays: number[]; // 0 = Sunday ... 6 = Saturday
+  holidays: Holiday[];
+}
+
+// Whether task lengths are kept and shown in calendar days or in working days
+export type DurationMode = "calendar" | "working";
+
+// How task bars are stacked: each week on its own, or keeping multi-week tasks in one lane
+export type LaneMode = "compact" | "stable";
+
+export interface CalendarSettings {
+  weekStartsOn: WeekStartDay;
+  weekNumbers: WeekNumbering;
+  fiscalYearStartMonth: number; // 0 = January; the fiscal year starts with the week containing the 1st
+  maxVisibleLanes: number; // task bar lanes per month week row before "+N more"
+  laneMode: LaneMode;
+  lockedPeriods: LockedPeriod[];
+  completeWithChecklist: boolean; // checking off the last subtask moves a task to a done category
+  workingCalendar: WorkingCalendar;
+  durationMode: DurationMode;
 }
 
 export interface AppState {
   tasks: Task[];
+  isLoaded: boolean; // false until every stored task has loaded, tasks can't be changed before
+  categories: CategoryDefinition[];
+  team: TeamMember[];
+  settings: CalendarSettings;
+  history: HistoryState;
   selection: SelectionState;
+  selectedTaskIds: string[]; // tasks picked for bulk operations, may include occurrence ids
   modal: ModalState;
   filters: FilterState;
-  currentMonth: Date;
+  view: CalendarView;
+  currentDate: Date; // any date inside the displayed period
 }
 